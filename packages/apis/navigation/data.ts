@@ -0,0 +1,319 @@
+import { assert } from '@truckermudgeon/base/assert';
+import { distance } from '@truckermudgeon/base/geom';
+import { putIfAbsent } from '@truckermudgeon/base/map';
+import { readGraph } from '@truckermudgeon/map/binary-graph';
+import type { Landmarks } from '@truckermudgeon/map/landmarks';
+import { hashGraph, readLandmarks } from '@truckermudgeon/map/landmarks';
+import type { ManeuverContext } from '@truckermudgeon/map/maneuvers';
+import { createRoadLabeler } from '@truckermudgeon/map/maneuvers';
+import type { Context, Direction } from '@truckermudgeon/map/routing';
+import type { StopCandidate } from '@truckermudgeon/map/stops';
+import { toStopCandidates } from '@truckermudgeon/map/stops';
+import type {
+  CompanyItem,
+  Ferry,
+  Neighbor,
+  Neighbors,
+  Node,
+  Poi,
+  Prefab,
+  PrefabDescription,
+  Road,
+  WithToken,
+} from '@truckermudgeon/map/types';
+import fs from 'fs';
+import path from 'path';
+
+export interface NavigationMapData {
+  nodes: Map<bigint, Node>;
+  prefabs: ReadonlyMap<bigint, Prefab>;
+  prefabDescriptions: ReadonlyMap<string, PrefabDescription>;
+  /** Company items, keyed by item uid. */
+  companies: ReadonlyMap<bigint, CompanyItem>;
+  ferries: ReadonlyMap<string, Ferry>;
+  pois: readonly Poi[];
+  /** Road items, keyed by item uid. */
+  roads: ReadonlyMap<bigint, Road>;
+}
+
+/** A directed edge in the routing graph. */
+export interface GraphEdge {
+  fromNodeUid: bigint;
+  /** The direction of travel when leaving the `from` node. */
+  direction: Direction;
+  neighbor: Neighbor;
+}
+
+export interface NavigationData {
+  routingContext: Context;
+  maneuverContext: ManeuverContext;
+  nodes: ReadonlyMap<bigint, Node>;
+  roads: ReadonlyMap<bigint, Road>;
+  /** Fuel and rest stops that routes can stop at. */
+  stopCandidates: StopCandidate[];
+  /** Returns the company item for a job location, if it exists. */
+  getCompany: (
+    cityToken: string,
+    companyToken: string,
+  ) => CompanyItem | undefined;
+  /**
+   * Returns the graph node closest to `pos`, along with the direction that
+   * best matches `heading` (in radians).
+   */
+  findClosestNode: (
+    pos: { x: number; y: number },
+    heading: number,
+  ) => { node: Node; direction: Direction } | undefined;
+  /**
+   * Returns the non-ferry graph edges whose end nodes' bounding boxes are
+   * within `radius` of `pos`.
+   */
+  findEdges: (pos: { x: number; y: number }, radius: number) => GraphEdge[];
+}
+
+// Size of the buckets used to look up nodes and edges by position.
+const bucketSize = 500;
+
+export function createNavigationData(
+  mapData: NavigationMapData,
+  graph: Map<bigint, Neighbors>,
+  landmarks?: Landmarks,
+): NavigationData {
+  const {
+    nodes,
+    prefabs,
+    prefabDescriptions,
+    companies,
+    ferries,
+    pois,
+    roads,
+  } = mapData;
+
+  const companiesByLocation = new Map(
+    companies.values().map(c => [`${c.cityToken}.${c.token}`, c]),
+  );
+
+  const enabledDlcGuards = new Set<number>();
+  const toBucketKey = (x: number, y: number) =>
+    `${Math.floor(x / bucketSize)},${Math.floor(y / bucketSize)}`;
+  const nodesByBucket = new Map<string, Node[]>();
+  const edgesByBucket = new Map<string, GraphEdge[]>();
+  for (const [nodeUid, neighbors] of graph) {
+    for (const neighbor of [...neighbors.forward, ...neighbors.backward]) {
+      enabledDlcGuards.add(neighbor.dlcGuard);
+    }
+    const node = nodes.get(nodeUid);
+    if (!node) {
+      continue;
+    }
+    putIfAbsent(toBucketKey(node.x, node.y), [], nodesByBucket).push(node);
+
+    for (const direction of ['forward', 'backward'] as const) {
+      for (const neighbor of neighbors[direction]) {
+        const to = nodes.get(neighbor.nodeUid);
+        if (!to || neighbor.isFerry) {
+          continue;
+        }
+        const edge: GraphEdge = { fromNodeUid: nodeUid, direction, neighbor };
+        for (const key of toBucketKeys(node, to, 0)) {
+          putIfAbsent(key, [], edgesByBucket).push(edge);
+        }
+      }
+    }
+  }
+
+  const findClosestNode = (pos: { x: number; y: number }, heading: number) => {
+    let closest: { node: Node; distance: number } | undefined;
+    for (const dx of [-bucketSize, 0, bucketSize]) {
+      for (const dy of [-bucketSize, 0, bucketSize]) {
+        for (const node of nodesByBucket.get(
+          toBucketKey(pos.x + dx, pos.y + dy),
+        ) ?? []) {
+          const d = distance(node, pos);
+          if (!closest || d < closest.distance) {
+            closest = { node, distance: d };
+          }
+        }
+      }
+    }
+    if (!closest) {
+      return undefined;
+    }
+
+    const { node } = closest;
+    // node rotations point in the node's forward direction.
+    const angle = Math.abs(
+      Math.atan2(
+        Math.sin(heading - node.rotation),
+        Math.cos(heading - node.rotation),
+      ),
+    );
+    const direction: Direction = angle <= Math.PI / 2 ? 'forward' : 'backward';
+    return { node, direction };
+  };
+
+  const findEdges = (pos: { x: number; y: number }, radius: number) => {
+    const edges = new Set<GraphEdge>();
+    for (const key of toBucketKeys(pos, pos, radius)) {
+      for (const edge of edgesByBucket.get(key) ?? []) {
+        edges.add(edge);
+      }
+    }
+    return [...edges];
+  };
+
+  return {
+    routingContext: {
+      nodeLUT: nodes,
+      graph,
+      enabledDlcGuards,
+      landmarks,
+    },
+    maneuverContext: {
+      nodes,
+      prefabs,
+      prefabDescriptions,
+      companies,
+      ferries,
+      getRoadLabel: createRoadLabeler(pois),
+    },
+    nodes,
+    roads,
+    stopCandidates: toStopCandidates(pois, prefabs, graph),
+    getCompany: (cityToken, companyToken) =>
+      companiesByLocation.get(`${cityToken}.${companyToken}`),
+    findClosestNode,
+    findEdges,
+  };
+}
+
+/**
+ * Returns the keys of the buckets that overlap the bounding box of `a` and
+ * `b`, expanded by `margin`.
+ */
+function toBucketKeys(
+  a: { x: number; y: number },
+  b: { x: number; y: number },
+  margin: number,
+): string[] {
+  const toBucket = (v: number) => Math.floor(v / bucketSize);
+  const keys: string[] = [];
+  for (
+    let bx = toBucket(Math.min(a.x, b.x) - margin);
+    bx <= toBucket(Math.max(a.x, b.x) + margin);
+    bx++
+  ) {
+    for (
+      let by = toBucket(Math.min(a.y, b.y) - margin);
+      by <= toBucket(Math.max(a.y, b.y) + margin);
+      by++
+    ) {
+      keys.push(`${bx},${by}`);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Reads parser-generated JSON files and generator-generated graph and
+ * landmarks (if present) files for `map` from `dataDir`.
+ */
+export function readNavigationData(
+  dataDir: string,
+  map: 'usa' | 'europe',
+): NavigationData {
+  const read = <T>(key: string, reviver?: typeof bigintReviver) =>
+    JSON.parse(
+      fs.readFileSync(path.join(dataDir, `${map}-${key}.json`), 'utf-8'),
+      reviver,
+    ) as T[];
+
+  // node uids aren't revived with a reviver, because nodes files are large.
+  const nodes = new Map(
+    read<Node>('nodes').map(n => {
+      const node = {
+        ...n,
+        uid: toBigInt(n.uid),
+        forwardItemUid: toBigInt(n.forwardItemUid),
+        backwardItemUid: toBigInt(n.backwardItemUid),
+      };
+      return [node.uid, node];
+    }),
+  );
+  const prefabs = new Map(
+    read<Prefab>('prefabs', bigintReviver).map(p => [p.uid, p]),
+  );
+  const prefabDescriptions = new Map(
+    read<WithToken<PrefabDescription>>('prefabDescriptions').map(p => [
+      p.token,
+      p,
+    ]),
+  );
+  const companies = new Map(
+    read<CompanyItem>('companies', bigintReviver).map(c => [c.uid, c]),
+  );
+  const ferries = new Map(
+    read<Ferry>('ferries', bigintReviver).map(f => [f.token, f]),
+  );
+  const pois = read<Poi>('pois', bigintReviver);
+  const roads = new Map(
+    read<Road>('roads', bigintReviver).map(r => [r.uid, r]),
+  );
+  const { graph } = readGraph(
+    fs.readFileSync(path.join(dataDir, `${map}-graph.bin`)),
+  );
+
+  // landmarks are optional; they're only generated when requested.
+  const landmarksFile = path.join(dataDir, `${map}-landmarks.bin`);
+  const landmarks = fs.existsSync(landmarksFile)
+    ? readMatchingLandmarks(landmarksFile, graph)
+    : undefined;
+
+  return createNavigationData(
+    { nodes, prefabs, prefabDescriptions, companies, ferries, pois, roads },
+    graph,
+    landmarks,
+  );
+}
+
+/**
+ * Reads the landmarks in `landmarksFile`, if they were computed from `graph`.
+ * Landmarks computed from other graphs (e.g., from an older version of the
+ * graph file) can give A* inadmissible bounds, and so are ignored.
+ */
+function readMatchingLandmarks(
+  landmarksFile: string,
+  graph: ReadonlyMap<bigint, Neighbors>,
+): Landmarks | undefined {
+  let landmarks: Landmarks;
+  try {
+    landmarks = readLandmarks(fs.readFileSync(landmarksFile));
+  } catch (e) {
+    console.warn('ignoring unreadable landmarks file', landmarksFile, e);
+    return undefined;
+  }
+  if (landmarks.graphHash !== hashGraph(graph)) {
+    console.warn(
+      'ignoring landmarks file',
+      landmarksFile,
+      'because it was computed from a different graph',
+    );
+    return undefined;
+  }
+  return landmarks;
+}
+
+function bigintReviver(key: string, value: unknown): unknown {
+  if (key === 'uid' || key.endsWith('Uid')) {
+    return toBigInt(value);
+  } else if (key.endsWith('Uids')) {
+    assert(Array.isArray(value));
+    return (value as unknown[]).map(toBigInt);
+  }
+  return value;
+}
+
+function toBigInt(v: unknown): bigint {
+  assert(typeof v === 'string' && /^[0-9a-f]+$/.test(v));
+  return BigInt('0x' + (v as string));
+}
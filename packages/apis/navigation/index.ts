@@ -9,10 +9,14 @@ import bearing from '@turf/bearing';
 import express from 'express';
 import { createServer } from 'http';
 import path from 'path';
+import process from 'process';
 import { Server } from 'socket.io';
 import type { Socket } from 'socket.io-client';
 import { io } from 'socket.io-client';
 import url from 'url';
+import { readNavigationData } from './data';
+import { MapMatcher, toRoadInfo } from './map-matcher';
+import { NavigationSession, toHeading } from './session';
 
 const __filename = url.fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -31,6 +35,12 @@ const telemetrySocket = io(
   //'ws://192.168.0.229:3000',
 ) as Socket<TelemetryServerToClientEvents>;
 
+/**
+ * The data needed for navigation sessions, read from the parser and generator
+ * JSON files in the dir specified by the `NAVIGATION_DATA_DIR` env var.
+ */
+const navigationData = loadNavigationData();
+
 telemetrySocket.on('connect', () =>
   console.log(`${serverName} connected to telemetry server`),
 );
@@ -44,9 +54,24 @@ serverSocket.on('connect', socket => {
     bearing: 0,
     speedLimit: 0,
     scale: 0,
+    status: {},
   };
-  const onUpdate = (telemetry: Telemetry) =>
+  const session = navigationData
+    ? new NavigationSession(navigationData, {
+        routeUpdated: r => socket.emit('routeUpdated', r),
+        progress: p => socket.emit('progress', p),
+        offRoute: o => socket.emit('offRoute', o),
+        alert: a => socket.emit('alert', a),
+      })
+    : undefined;
+  const matcher = navigationData ? new MapMatcher(navigationData) : undefined;
+  const onUpdate = (telemetry: Telemetry) => {
     updateGameState(gameState, telemetry);
+    const match = matcher?.update(telemetry);
+    gameState.road =
+      match && navigationData ? toRoadInfo(match, navigationData) : undefined;
+    session?.update(telemetry);
+  };
   telemetrySocket.on('update', onUpdate);
 
   socket.on('disconnect', () => {
@@ -64,12 +89,24 @@ server.listen(3001, () => {
   console.log(`${serverName} listening on 3001`);
 });
 
+function loadNavigationData() {
+  const dataDir = process.env['NAVIGATION_DATA_DIR'];
+  if (!dataDir) {
+    console.log(
+      `${serverName} NAVIGATION_DATA_DIR not set; navigation sessions disabled`,
+    );
+    return undefined;
+  }
+  console.log(`${serverName} reading navigation data from ${dataDir}`);
+  return readNavigationData(dataDir, 'usa');
+}
+
 function updateGameState(gameState: GameState, telemetry: Telemetry) {
   const position = fromAtsCoordsToWgs84([
     telemetry.position.X,
     telemetry.position.Z,
   ]);
-  const theta = (0.5 - telemetry.heading) * Math.PI * 2 + Math.PI / 2;
+  const theta = toHeading(telemetry.heading);
   const lookAt = fromAtsCoordsToWgs84([
     telemetry.position.X + 1000 * Math.cos(theta),
     telemetry.position.Z + 1000 * Math.sin(theta),
@@ -80,4 +117,12 @@ function updateGameState(gameState: GameState, telemetry: Telemetry) {
   gameState.bearing = bearing(position, lookAt, { final: false });
   gameState.speedLimit = telemetry.speedLimit.mph;
   gameState.scale = telemetry.scale;
+  gameState.status = {
+    fuel: telemetry.fuel,
+    cruiseControl: telemetry.cruiseControl,
+    engine: telemetry.engine,
+    trailer: telemetry.trailer,
+    job: telemetry.job,
+    damage: telemetry.damage,
+  };
 }
@@ -0,0 +1,327 @@
+import type { RoadInfo, Telemetry } from '@truckermudgeon/api/types';
+import type { Position } from '@truckermudgeon/base/geom';
+import { distance, toSplinePoints } from '@truckermudgeon/base/geom';
+import type { Direction } from '@truckermudgeon/map/routing';
+import type { Neighbor } from '@truckermudgeon/map/types';
+import type { GraphEdge, NavigationData } from './data';
+import { toHeading } from './session';
+
+export interface MapMatch {
+  /** The uid of the node the matched edge starts at. */
+  fromNodeUid: bigint;
+  /** The matched edge. */
+  edge: Neighbor;
+  /** The direction of travel when leaving the `from` node. */
+  direction: Direction;
+  /** Distance along the edge from the `from` node, in meters. */
+  distanceAlongEdge: number;
+  /** The truck's position, snapped onto the edge. */
+  position: Position;
+}
+
+interface EdgeGeometry {
+  points: Position[];
+  length: number;
+}
+
+/** A hidden state of the HMM: a position on a graph edge. */
+interface Candidate {
+  edge: GraphEdge;
+  geometry: EdgeGeometry;
+  /** Distance along `geometry`, from its start. */
+  offset: number;
+  position: Position;
+  /** Log-probability of the most likely path ending at this candidate. */
+  score: number;
+}
+
+/** Max distance, in meters, between a position and the edges it can match. */
+const searchRadius = 50;
+/** Std deviation, in meters, of truck positions from road geometry. */
+const positionSigma = 15;
+/** Std deviation, in radians, of truck headings from edge headings. */
+const headingSigma = Math.PI / 6;
+/** Speed, in m/s, below which truck headings are ignored. */
+const minHeadingSpeed = 1;
+/**
+ * Scale, in meters, of the difference between the straight-line distance and
+ * the along-graph distance between consecutive samples.
+ */
+const transitionScale = 20;
+/** Extra distance, in meters, assumed between candidates on unlinked edges. */
+const unlinkedPenalty = 200;
+/** Max number of edge geometries cached by a matcher. */
+const maxCachedGeometries = 10_000;
+
+/**
+ * Matches telemetry positions onto the road graph for a single user, using an
+ * online Viterbi search over an HMM whose hidden states are positions on
+ * nearby graph edges.
+ */
+export class MapMatcher {
+  private candidates: Candidate[] = [];
+  private lastPosition: Position | undefined;
+  private readonly geometries = new Map<GraphEdge, EdgeGeometry>();
+
+  constructor(private readonly data: NavigationData) {}
+
+  update(telemetry: Telemetry): MapMatch | undefined {
+    const position: Position = [telemetry.position.X, telemetry.position.Z];
+    const speed = telemetry.speed.value;
+    // headings point the way the truck faces, not the way it's moving.
+    const heading =
+      Math.abs(speed) >= minHeadingSpeed
+        ? toHeading(telemetry.heading) + (speed < 0 ? Math.PI : 0)
+        : undefined;
+
+    const candidates = this.findCandidates(position, heading);
+    if (candidates.length === 0) {
+      // off the map (e.g., on a ferry, or in a garage); start over.
+      this.candidates = [];
+      this.lastPosition = undefined;
+      return undefined;
+    }
+
+    if (this.lastPosition && this.candidates.length) {
+      const straightDistance = distance(this.lastPosition, position);
+      const maxDistance = straightDistance + unlinkedPenalty;
+      const transitions = this.candidates.map(prev => ({
+        prev,
+        distances: this.getDistancesToNodes(prev, maxDistance),
+      }));
+      for (const cur of candidates) {
+        let best = -Infinity;
+        for (const { prev, distances } of transitions) {
+          const toStart = distances.get(toKey(cur.edge));
+          const graphDistance =
+            prev.edge === cur.edge
+              ? Math.abs(cur.offset - prev.offset)
+              : toStart != null
+                ? toStart + cur.offset
+                : maxDistance;
+          best = Math.max(
+            best,
+            prev.score -
+              Math.abs(straightDistance - graphDistance) / transitionScale,
+          );
+        }
+        cur.score += best;
+      }
+    }
+
+    // normalize scores, so they don't underflow over long sessions.
+    const maxScore = Math.max(...candidates.map(c => c.score));
+    for (const c of candidates) {
+      c.score -= maxScore;
+    }
+    this.candidates = candidates;
+    this.lastPosition = position;
+
+    const best = candidates.find(c => c.score === 0)!;
+    return {
+      fromNodeUid: best.edge.fromNodeUid,
+      edge: best.edge.neighbor,
+      direction: best.edge.direction,
+      distanceAlongEdge:
+        best.geometry.length === 0
+          ? 0
+          : (best.offset / best.geometry.length) * best.edge.neighbor.distance,
+      position: best.position,
+    };
+  }
+
+  private findCandidates(
+    position: Position,
+    heading: number | undefined,
+  ): Candidate[] {
+    const candidates: Candidate[] = [];
+    for (const edge of this.data.findEdges(
+      { x: position[0], y: position[1] },
+      searchRadius,
+    )) {
+      const geometry = this.getGeometry(edge);
+      const snapped = snapToPolyline(geometry.points, position);
+      const d = distance(snapped.position, position);
+      if (d > searchRadius) {
+        continue;
+      }
+
+      let score = -0.5 * (d / positionSigma) ** 2;
+      if (heading != null) {
+        const delta = Math.atan2(
+          Math.sin(heading - snapped.heading),
+          Math.cos(heading - snapped.heading),
+        );
+        score -= 0.5 * (delta / headingSigma) ** 2;
+      }
+      candidates.push({
+        edge,
+        geometry,
+        offset: snapped.offset,
+        position: snapped.position,
+        score,
+      });
+    }
+    return candidates;
+  }
+
+  /**
+   * Returns the along-graph distances from `candidate` to the start nodes of
+   * the edges reachable within `maxDistance`, keyed by `toKey`.
+   */
+  private getDistancesToNodes(
+    candidate: Candidate,
+    maxDistance: number,
+  ): Map<string, number> {
+    const { graph } = this.data.routingContext;
+    const { neighbor } = candidate.edge;
+    const distances = new Map<string, number>();
+    const queue: { nodeUid: bigint; direction: Direction; distance: number }[] =
+      [
+        {
+          nodeUid: neighbor.nodeUid,
+          direction: neighbor.direction,
+          distance: candidate.geometry.length - candidate.offset,
+        },
+      ];
+    while (queue.length) {
+      queue.sort((a, b) => b.distance - a.distance);
+      const { nodeUid, direction, distance } = queue.pop()!;
+      const key = `${nodeUid}-${direction}`;
+      if (distance > maxDistance || distances.has(key)) {
+        continue;
+      }
+      distances.set(key, distance);
+      for (const next of graph.get(nodeUid)?.[direction] ?? []) {
+        if (!next.isFerry) {
+          queue.push({
+            nodeUid: next.nodeUid,
+            direction: next.direction,
+            distance: distance + next.distance,
+          });
+        }
+      }
+    }
+    return distances;
+  }
+
+  private getGeometry(edge: GraphEdge): EdgeGeometry {
+    let geometry = this.geometries.get(edge);
+    if (!geometry) {
+      if (this.geometries.size >= maxCachedGeometries) {
+        this.geometries.clear();
+      }
+      geometry = toEdgeGeometry(edge, this.data);
+      this.geometries.set(edge, geometry);
+    }
+    return geometry;
+  }
+}
+
+/**
+ * Returns information about the road a truck has been matched to: its look,
+ * its expected truck speed limit, and its road number.
+ */
+export function toRoadInfo(match: MapMatch, data: NavigationData): RoadInfo {
+  const road = findRoad(match.fromNodeUid, match.direction, data);
+  const { distance, duration } = match.edge;
+  return {
+    roadLook: road?.roadLookToken,
+    // graph edge durations are derived from truck speed limits.
+    speedLimit:
+      road && duration
+        ? Math.round((distance / duration) * 3.6 * kphToMph)
+        : undefined,
+    roadNumber: data.maneuverContext.getRoadLabel?.({
+      x: match.position[0],
+      y: match.position[1],
+    }),
+  };
+}
+
+const kphToMph = 0.621371;
+
+function toKey(edge: GraphEdge) {
+  return `${edge.fromNodeUid}-${edge.direction}`;
+}
+
+function findRoad(nodeUid: bigint, direction: Direction, data: NavigationData) {
+  const node = data.nodes.get(nodeUid);
+  if (!node) {
+    return undefined;
+  }
+  return data.roads.get(
+    direction === 'forward' ? node.forwardItemUid : node.backwardItemUid,
+  );
+}
+
+/**
+ * Returns the geometry of `edge`: a spline if it follows a single road item,
+ * or a straight line otherwise.
+ */
+function toEdgeGeometry(edge: GraphEdge, data: NavigationData): EdgeGeometry {
+  const from = data.nodes.get(edge.fromNodeUid)!;
+  const to = data.nodes.get(edge.neighbor.nodeUid)!;
+  const road = findRoad(edge.fromNodeUid, edge.direction, data);
+  let points: Position[] = [
+    [from.x, from.y],
+    [to.x, to.y],
+  ];
+  if (
+    road &&
+    ((road.startNodeUid === from.uid && road.endNodeUid === to.uid) ||
+      (road.startNodeUid === to.uid && road.endNodeUid === from.uid))
+  ) {
+    const start = road.startNodeUid === from.uid ? from : to;
+    const end = start === from ? to : from;
+    points = toSplinePoints(
+      { position: [start.x, start.y], rotation: start.rotation },
+      { position: [end.x, end.y], rotation: end.rotation },
+    );
+    if (start !== from) {
+      points.reverse();
+    }
+  }
+
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += distance(points[i - 1], points[i]);
+  }
+  return { points, length };
+}
+
+function snapToPolyline(
+  points: readonly Position[],
+  [px, py]: Position,
+): { position: Position; offset: number; heading: number } {
+  let best:
+    | { position: Position; offset: number; heading: number; d: number }
+    | undefined;
+  let offset = 0;
+  for (let i = 1; i < points.length; i++) {
+    const [ax, ay] = points[i - 1];
+    const [bx, by] = points[i];
+    const [dx, dy] = [bx - ax, by - ay];
+    const lengthSquared = dx * dx + dy * dy;
+    const t =
+      lengthSquared === 0
+        ? 0
+        : Math.max(
+            0,
+            Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared),
+          );
+    const position: Position = [ax + t * dx, ay + t * dy];
+    const d = distance(position, [px, py]);
+    const length = Math.sqrt(lengthSquared);
+    if (!best || d < best.d) {
+      best = {
+        position,
+        offset: offset + t * length,
+        heading: Math.atan2(dy, dx),
+        d,
+      };
+    }
+    offset += length;
+  }
+  return best!;
+}
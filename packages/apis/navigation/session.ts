@@ -0,0 +1,388 @@
+import type {
+  NavigationAlert,
+  NavigationServerToClientEvents,
+  RouteManeuver,
+  RouteProgress,
+  RouteStop,
+  Telemetry,
+} from '@truckermudgeon/api/types';
+import type { Position } from '@truckermudgeon/base/geom';
+import { distance } from '@truckermudgeon/base/geom';
+import type { Maneuver } from '@truckermudgeon/map/maneuvers';
+import { toManeuvers } from '@truckermudgeon/map/maneuvers';
+import { fromAtsCoordsToWgs84 } from '@truckermudgeon/map/projections';
+import type { Direction, Route } from '@truckermudgeon/map/routing';
+import { findRoute, getDuration } from '@truckermudgeon/map/routing';
+import type { StopPlanOptions } from '@truckermudgeon/map/stops';
+import { joinLegs, planRoute } from '@truckermudgeon/map/stops';
+import type { NavigationData } from './data';
+
+export type NavigationSessionListener = Pick<
+  NavigationServerToClientEvents,
+  'routeUpdated' | 'progress' | 'offRoute' | 'alert'
+>;
+
+interface ActiveRoute {
+  /** Route node positions, in game coordinates. */
+  positions: Position[];
+  /** Distances from each route node to the end of the route. */
+  distancesToEnd: number[];
+  /** Expected durations from each route node to the end of the route. */
+  durationsToEnd: number[];
+  maneuvers: (Maneuver & { apiManeuver: RouteManeuver })[];
+  /** The index of the route segment the truck was last snapped to. */
+  segmentIndex: number;
+}
+
+interface Snapped {
+  segmentIndex: number;
+  /** How far along the segment the snapped position is, from 0 to 1. */
+  t: number;
+  position: Position;
+  distance: number;
+}
+
+/** Distance, in meters, a truck can be from a route before it's off-route. */
+const offRouteDistance = 50;
+/** Number of consecutive off-route samples before re-routing. */
+const offRouteSampleThreshold = 3;
+/** Number of consecutive unrouted samples before retrying to route. */
+const unroutedSampleThreshold = 3;
+/** Number of segments past the last-snapped segment to check when snapping. */
+const snapLookahead = 50;
+/** In-game hours a driver can drive between rests. */
+const hoursBetweenRests = 11;
+
+/**
+ * A navigation session for a single user: routes to the destination of the
+ * current job, tracks progress along the route, re-routes when the truck
+ * leaves the route, and raises alerts about fuel and delivery deadlines.
+ */
+export class NavigationSession {
+  private destinationKey: string | undefined;
+  private destinationNodeUid: bigint | undefined;
+  private route: ActiveRoute | undefined;
+  private numOffRouteSamples = 0;
+  private numUnroutedSamples = 0;
+  /** The types of alerts whose conditions currently hold. */
+  private readonly activeAlerts = new Set<NavigationAlert['type']>();
+
+  constructor(
+    private readonly data: NavigationData,
+    private readonly listener: NavigationSessionListener,
+    private readonly toLngLat: (
+      pos: Position,
+    ) => [number, number] = fromAtsCoordsToWgs84,
+  ) {}
+
+  update(telemetry: Telemetry) {
+    const { city, company } = telemetry.destination;
+    if (!city.id || !company.id) {
+      // no active job.
+      this.destinationKey = undefined;
+      this.destinationNodeUid = undefined;
+      this.route = undefined;
+      return;
+    }
+
+    const position: Position = [telemetry.position.X, telemetry.position.Z];
+    const heading = toHeading(telemetry.heading);
+    const destinationKey = `${city.id}.${company.id}`;
+    if (destinationKey !== this.destinationKey) {
+      this.destinationKey = destinationKey;
+      this.destinationNodeUid = this.data.getCompany(
+        city.id,
+        company.id,
+      )?.nodeUid;
+      this.numOffRouteSamples = 0;
+      this.numUnroutedSamples = 0;
+      this.activeAlerts.clear();
+      this.route = this.startRoute(position, heading, telemetry);
+    } else if (!this.route && this.destinationNodeUid != null) {
+      // routing can fail temporarily, e.g., when the truck spawns off-graph.
+      this.numUnroutedSamples++;
+      if (this.numUnroutedSamples >= unroutedSampleThreshold) {
+        this.numUnroutedSamples = 0;
+        this.route = this.startRoute(position, heading, telemetry);
+      }
+    }
+    if (!this.route) {
+      return;
+    }
+
+    const snapped = snap(this.route, position);
+    if (snapped.distance > offRouteDistance) {
+      this.numOffRouteSamples++;
+      if (this.numOffRouteSamples >= offRouteSampleThreshold) {
+        this.numOffRouteSamples = 0;
+        this.listener.offRoute({
+          position: this.toLngLat(position),
+          distanceFromRoute: snapped.distance,
+        });
+        this.route =
+          this.startRoute(position, heading, telemetry) ?? this.route;
+      }
+      return;
+    }
+
+    this.numOffRouteSamples = 0;
+    this.route.segmentIndex = snapped.segmentIndex;
+    const progress = toProgress(this.route, snapped, this.toLngLat);
+    this.listener.progress(progress);
+    this.checkAlerts(telemetry, progress);
+  }
+
+  private checkAlerts(
+    { fuel, job, gameTime, scale }: Telemetry,
+    { distanceRemaining, durationRemaining }: RouteProgress,
+  ) {
+    const range = fuel ? fuel.range * 1000 : undefined;
+    this.raise(
+      'fuelStopNeeded',
+      range != null && range < distanceRemaining,
+      () => ({ type: 'fuelStopNeeded', range: range!, distanceRemaining }),
+    );
+
+    // route durations are in real-time seconds, but the game clock runs
+    // `scale` times faster.
+    const minutesLate =
+      job && job.deadline > 0 && gameTime != null && scale > 0
+        ? gameTime + (durationRemaining * scale) / 60 - job.deadline
+        : undefined;
+    this.raise(
+      'deadlineAtRisk',
+      minutesLate != null && minutesLate > 0,
+      () => ({ type: 'deadlineAtRisk', minutesLate: minutesLate! }),
+    );
+  }
+
+  /** Emits an alert of type `type` when `condition` starts to hold. */
+  private raise(
+    type: NavigationAlert['type'],
+    condition: boolean,
+    toAlert: () => NavigationAlert,
+  ) {
+    if (!condition) {
+      this.activeAlerts.delete(type);
+    } else if (!this.activeAlerts.has(type)) {
+      this.activeAlerts.add(type);
+      this.listener.alert(toAlert());
+    }
+  }
+
+  private startRoute(
+    position: Position,
+    heading: number,
+    telemetry: Telemetry,
+  ): ActiveRoute | undefined {
+    const { routingContext, maneuverContext, nodes } = this.data;
+    const endNodeUid = this.destinationNodeUid;
+    const start = this.data.findClosestNode(
+      { x: position[0], y: position[1] },
+      heading,
+    );
+    if (endNodeUid == null || !start) {
+      return undefined;
+    }
+
+    // try the direction that matches the truck's heading first, then the
+    // opposite direction (e.g., for when the truck is reversing out of a
+    // company depot).
+    const directions: Direction[] =
+      start.direction === 'forward'
+        ? ['forward', 'backward']
+        : ['backward', 'forward'];
+    // plan fuel and rest stops if the truck's fuel level is known, falling
+    // back to a route without stops if none can be planned.
+    const stopPlanOptions = toStopPlanOptions(telemetry);
+    let route: Route | undefined;
+    let stops: RouteStop[] = [];
+    for (const direction of directions) {
+      const plan = stopPlanOptions
+        ? planRoute(
+            start.node.uid,
+            endNodeUid,
+            direction,
+            this.data.stopCandidates,
+            stopPlanOptions,
+            routingContext,
+          )
+        : undefined;
+      if (plan?.success) {
+        route = joinLegs(plan).route;
+        stops = plan.stops.map(stop => ({
+          types: stop.types,
+          position: this.toLngLat(toPosition(nodes.get(stop.nodeUid)!)),
+        }));
+        break;
+      }
+
+      route = findRoute(
+        start.node.uid,
+        endNodeUid,
+        direction,
+        'fastest',
+        routingContext,
+      );
+      if (route.success) {
+        break;
+      }
+    }
+    if (!route?.success) {
+      return undefined;
+    }
+
+    const positions = route.route.map(n => toPosition(nodes.get(n.nodeUid)!));
+    const distancesToEnd = new Array<number>(positions.length).fill(0);
+    const durationsToEnd = new Array<number>(positions.length).fill(0);
+    for (let i = positions.length - 2; i >= 0; i--) {
+      const next = route.route[i + 1];
+      distancesToEnd[i] = distancesToEnd[i + 1] + next.distance;
+      durationsToEnd[i] = durationsToEnd[i + 1] + getDuration(next);
+    }
+    const maneuvers = toManeuvers(route, maneuverContext).map(m => ({
+      ...m,
+      apiManeuver: toRouteManeuver(m, positions, this.toLngLat),
+    }));
+
+    this.listener.routeUpdated({
+      distance: distancesToEnd[0],
+      duration: durationsToEnd[0],
+      path: positions.map(this.toLngLat),
+      maneuvers: maneuvers.map(m => m.apiManeuver),
+      stops,
+    });
+    return {
+      positions,
+      distancesToEnd,
+      durationsToEnd,
+      maneuvers,
+      segmentIndex: 0,
+    };
+  }
+}
+
+/**
+ * Returns the options for planning fuel and rest stops for the truck described
+ * by `telemetry`, or `undefined` if its fuel level isn't known.
+ */
+function toStopPlanOptions({
+  fuel,
+  nextRestStop,
+  scale,
+}: Telemetry): StopPlanOptions | undefined {
+  if (!fuel || fuel.value <= 0 || scale <= 0) {
+    return undefined;
+  }
+  // route durations are in real-time seconds, but the game clock runs
+  // `scale` times faster.
+  const toRealSeconds = (gameMinutes: number) => (gameMinutes * 60) / scale;
+  const fuelRange = fuel.range * 1000;
+  return {
+    mode: 'fastest',
+    fuelRange,
+    fullTankRange: (fuelRange * fuel.capacity) / fuel.value,
+    timeUntilBreak:
+      nextRestStop != null ? toRealSeconds(nextRestStop) : Infinity,
+    breakInterval:
+      nextRestStop != null ? toRealSeconds(hoursBetweenRests * 60) : Infinity,
+  };
+}
+
+function toPosition(node: { x: number; y: number }): Position {
+  return [node.x, node.y];
+}
+
+/**
+ * Converts a telemetry heading (in the range [0, 1)) into a map-space angle,
+ * in radians, comparable to `Node.rotation`.
+ */
+export function toHeading(heading: number): number {
+  return (0.5 - heading) * Math.PI * 2 + Math.PI / 2;
+}
+
+function snap(route: ActiveRoute, position: Position): Snapped {
+  const { positions, segmentIndex } = route;
+  const numSegments = Math.max(positions.length - 1, 1);
+  const snapTo = (start: number, end: number) => {
+    let best: Snapped | undefined;
+    for (let i = start; i < end; i++) {
+      const candidate = snapToSegment(positions, i, position);
+      if (!best || candidate.distance < best.distance) {
+        best = candidate;
+      }
+    }
+    return best!;
+  };
+
+  // look near the last-snapped segment first, then fall back to the entire
+  // route (e.g., after a ferry ride, or after a game load).
+  const nearby = snapTo(
+    Math.max(segmentIndex - 1, 0),
+    Math.min(segmentIndex + snapLookahead, numSegments),
+  );
+  return nearby.distance <= offRouteDistance ? nearby : snapTo(0, numSegments);
+}
+
+function snapToSegment(
+  positions: readonly Position[],
+  segmentIndex: number,
+  [px, py]: Position,
+): Snapped {
+  const [ax, ay] = positions[segmentIndex];
+  const [bx, by] = positions[Math.min(segmentIndex + 1, positions.length - 1)];
+  const [dx, dy] = [bx - ax, by - ay];
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(
+          0,
+          Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared),
+        );
+  const position: Position = [ax + t * dx, ay + t * dy];
+  return {
+    segmentIndex,
+    t,
+    position,
+    distance: distance(position, [px, py]),
+  };
+}
+
+function toProgress(
+  route: ActiveRoute,
+  { segmentIndex, t, position }: Snapped,
+  toLngLat: (pos: Position) => [number, number],
+): RouteProgress {
+  const { distancesToEnd, durationsToEnd, maneuvers } = route;
+  const next = Math.min(segmentIndex + 1, distancesToEnd.length - 1);
+  const interpolate = (toEnd: number[]) =>
+    toEnd[next] + (1 - t) * (toEnd[segmentIndex] - toEnd[next]);
+
+  const distanceRemaining = interpolate(distancesToEnd);
+  const nextManeuver = maneuvers.find(m => m.routeIndex > segmentIndex);
+  return {
+    position: toLngLat(position),
+    distanceRemaining,
+    durationRemaining: interpolate(durationsToEnd),
+    nextManeuver: nextManeuver?.apiManeuver,
+    distanceToNextManeuver: nextManeuver
+      ? distanceRemaining - distancesToEnd[nextManeuver.routeIndex]
+      : 0,
+  };
+}
+
+function toRouteManeuver(
+  maneuver: Maneuver,
+  positions: readonly Position[],
+  toLngLat: (pos: Position) => [number, number],
+): RouteManeuver {
+  return {
+    type: maneuver.type,
+    side: 'side' in maneuver ? maneuver.side : undefined,
+    exit: 'exit' in maneuver ? maneuver.exit : undefined,
+    label: maneuver.label,
+    distance: maneuver.distance,
+    position: toLngLat(positions[maneuver.routeIndex]),
+  };
+}
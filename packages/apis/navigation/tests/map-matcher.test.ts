@@ -0,0 +1,164 @@
+import type { Telemetry } from '@truckermudgeon/api/types';
+import { ItemType } from '@truckermudgeon/map/constants';
+import type { Neighbors, Node, Road } from '@truckermudgeon/map/types';
+import { createNavigationData } from '../data';
+import { MapMatcher, toRoadInfo } from '../map-matcher';
+
+describe('MapMatcher', () => {
+  // Creates navigation data for two parallel one-way roads, 30 units apart:
+  // an eastbound road along y = 0 (nodes 1-5), and a westbound road along
+  // y = 30 (nodes 11-15).
+  function createParallelRoadsData() {
+    const nodes = new Map<bigint, Node>();
+    const graph = new Map<bigint, Neighbors>();
+    const roads = new Map<bigint, Road>();
+    for (let i = 1; i <= 5; i++) {
+      const east = BigInt(i);
+      const west = BigInt(10 + i);
+      nodes.set(east, aNode(east, i * 100, 0, 0, BigInt(100 + i)));
+      nodes.set(west, aNode(west, i * 100, 30, Math.PI, 0n));
+      graph.set(east, {
+        forward:
+          i < 5
+            ? [
+                {
+                  nodeUid: east + 1n,
+                  distance: 100,
+                  // 88.5 km/h, or 55 mph.
+                  duration: 100 / (88.5 / 3.6),
+                  direction: 'forward',
+                  dlcGuard: 0,
+                },
+              ]
+            : [],
+        backward: [],
+      });
+      graph.set(west, {
+        forward:
+          i > 1
+            ? [
+                {
+                  nodeUid: west - 1n,
+                  distance: 100,
+                  direction: 'forward',
+                  dlcGuard: 0,
+                },
+              ]
+            : [],
+        backward: [],
+      });
+      roads.set(BigInt(100 + i), {
+        uid: BigInt(100 + i),
+        type: ItemType.Road,
+        dlcGuard: 0,
+        roadLookToken: 'look',
+        startNodeUid: east,
+        endNodeUid: east + 1n,
+        length: 100,
+        x: 0,
+        y: 0,
+        sectorX: 0,
+        sectorY: 0,
+      });
+    }
+
+    return createNavigationData(
+      {
+        nodes,
+        prefabs: new Map(),
+        prefabDescriptions: new Map(),
+        companies: new Map(),
+        ferries: new Map(),
+        pois: [],
+        roads,
+      },
+      graph,
+    );
+  }
+
+  // telemetry headings of 0.75 and 0.25 point east and west.
+  function aTelemetry(x: number, y: number, heading = 0.75, speed = 20) {
+    return {
+      position: { X: x, Z: y },
+      heading,
+      speed: { value: speed, kph: speed * 3.6, mph: speed * 2.237 },
+    } as Telemetry;
+  }
+
+  it('matches positions using headings', () => {
+    const matcher = new MapMatcher(createParallelRoadsData());
+
+    // closer to the westbound road, but heading east.
+    const match = matcher.update(aTelemetry(150, 17));
+    expect(match).toMatchObject({ fromNodeUid: 1n, direction: 'forward' });
+    expect(match?.distanceAlongEdge).toBeCloseTo(50);
+    expect(match?.position[1]).toBeCloseTo(0);
+
+    expect(matcher.update(aTelemetry(180, 17, 0.25))?.fromNodeUid).toBe(12n);
+  });
+
+  it('follows connected edges', () => {
+    const data = createParallelRoadsData();
+    const matcher = new MapMatcher(data);
+
+    const fromNodeUids = [120, 160, 210, 240, 280, 320].map(
+      x => matcher.update(aTelemetry(x, 5))?.fromNodeUid,
+    );
+    expect(fromNodeUids).toEqual([1n, 1n, 2n, 2n, 2n, 3n]);
+
+    // a stopped truck has no meaningful heading, and is closer to the
+    // westbound road, but it hasn't left the eastbound road.
+    expect(matcher.update(aTelemetry(320, 16, 0.25, 0))?.fromNodeUid).toBe(3n);
+    // without history, the closer road is a better match.
+    expect(
+      new MapMatcher(data).update(aTelemetry(320, 16, 0.25, 0))?.fromNodeUid,
+    ).toBe(14n);
+  });
+
+  it('returns nothing for positions away from roads', () => {
+    const matcher = new MapMatcher(createParallelRoadsData());
+    expect(matcher.update(aTelemetry(300, 500))).toBeUndefined();
+  });
+
+  it('describes matched roads', () => {
+    const data = createParallelRoadsData();
+    const matcher = new MapMatcher(data);
+
+    const eastMatch = matcher.update(aTelemetry(250, 0))!;
+    expect(toRoadInfo(eastMatch, data)).toEqual({
+      roadLook: 'look',
+      speedLimit: 55,
+      roadNumber: undefined,
+    });
+
+    const westMatch = matcher.update(aTelemetry(250, 30, 0.25))!;
+    expect(toRoadInfo(westMatch, data)).toEqual({
+      roadLook: undefined,
+      speedLimit: undefined,
+      roadNumber: undefined,
+    });
+  });
+});
+
+function aNode(
+  uid: bigint,
+  x: number,
+  y: number,
+  rotation: number,
+  forwardItemUid: bigint,
+): Node {
+  return {
+    uid,
+    x,
+    y,
+    z: 0,
+    rotation,
+    rotationQuat: [0, 0, 0, 0],
+    forwardItemUid,
+    backwardItemUid: 0n,
+    sectorX: 0,
+    sectorY: 0,
+    forwardCountryId: 0,
+    backwardCountryId: 0,
+  };
+}
@@ -0,0 +1,255 @@
+import type {
+  NavigationAlert,
+  OffRoute,
+  RouteProgress,
+  RouteUpdate,
+  Telemetry,
+} from '@truckermudgeon/api/types';
+import type { Position } from '@truckermudgeon/base/geom';
+import { distance } from '@truckermudgeon/base/geom';
+import { ItemType } from '@truckermudgeon/map/constants';
+import type { CompanyItem, Neighbors, Node } from '@truckermudgeon/map/types';
+import fs from 'fs';
+import path from 'path';
+import url from 'url';
+import { createNavigationData } from '../data';
+import type { NavigationSessionListener } from '../session';
+import { NavigationSession } from '../session';
+
+const __filename = url.fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const recording = JSON.parse(
+  fs.readFileSync(
+    path.join(__dirname, '../../telemetry/recordings/hays-to-san-angelo.json'),
+    'utf-8',
+  ),
+) as Telemetry[];
+
+describe('NavigationSession', () => {
+  // Creates navigation data for a one-way road that follows the recorded
+  // route, ending at the job's destination company.
+  function createRecordedRoadData() {
+    const positions: Position[] = [];
+    for (const { position } of recording) {
+      const pos: Position = [position.X, position.Z];
+      if (positions.length === 0 || distance(positions.at(-1)!, pos) > 100) {
+        positions.push(pos);
+      }
+    }
+
+    const nodes = new Map<bigint, Node>();
+    const graph = new Map<bigint, Neighbors>();
+    positions.forEach(([x, y], i) => {
+      const [nx, ny] = positions[Math.min(i + 1, positions.length - 1)];
+      const [px, py] = positions[Math.max(i - 1, 0)];
+      const uid = BigInt(i + 1);
+      nodes.set(uid, aNode(uid, x, y, Math.atan2(ny - py, nx - px)));
+      graph.set(uid, {
+        forward:
+          i < positions.length - 1
+            ? [
+                {
+                  nodeUid: uid + 1n,
+                  distance: distance([x, y], [nx, ny]),
+                  direction: 'forward',
+                  dlcGuard: 0,
+                },
+              ]
+            : [],
+        backward: [],
+      });
+    });
+    const company: CompanyItem = {
+      uid: 1000000n,
+      type: ItemType.Company,
+      token: 'pet_oil_well',
+      cityToken: 'san_angelo',
+      prefabUid: 0n,
+      nodeUid: BigInt(positions.length),
+      x: 0,
+      y: 0,
+      sectorX: 0,
+      sectorY: 0,
+    };
+
+    return createNavigationData(
+      {
+        nodes,
+        prefabs: new Map(),
+        prefabDescriptions: new Map(),
+        companies: new Map([[company.uid, company]]),
+        ferries: new Map(),
+        pois: [],
+        roads: new Map(),
+      },
+      graph,
+    );
+  }
+
+  function createListener() {
+    const events = {
+      routeUpdated: [] as RouteUpdate[],
+      progress: [] as RouteProgress[],
+      offRoute: [] as OffRoute[],
+      alert: [] as NavigationAlert[],
+    };
+    const listener: NavigationSessionListener = {
+      routeUpdated: r => events.routeUpdated.push(r),
+      progress: p => events.progress.push(p),
+      offRoute: o => events.offRoute.push(o),
+      alert: a => events.alert.push(a),
+    };
+    return { events, listener };
+  }
+
+  const toLngLat = (pos: Position) => pos;
+
+  it('tracks progress along a recorded route', () => {
+    const { events, listener } = createListener();
+    const session = new NavigationSession(
+      createRecordedRoadData(),
+      listener,
+      toLngLat,
+    );
+
+    recording.forEach(t => session.update(t));
+
+    expect(events.routeUpdated).toHaveLength(1);
+    expect(events.offRoute).toHaveLength(0);
+    expect(events.alert).toHaveLength(0);
+    expect(events.progress.length).toBeGreaterThan(recording.length / 2);
+
+    const [route] = events.routeUpdated;
+    expect(route.maneuvers.at(0)?.type).toBe('depart');
+    expect(route.maneuvers.at(-1)?.type).toBe('arrive');
+    expect(route.stops).toEqual([]);
+
+    const first = events.progress[0];
+    const last = events.progress.at(-1)!;
+    expect(first.distanceRemaining).toBeGreaterThan(route.distance * 0.9);
+    expect(last.distanceRemaining).toBeLessThan(200);
+    expect(last.durationRemaining).toBeLessThan(first.durationRemaining);
+    expect(last.nextManeuver?.type).toBe('arrive');
+  });
+
+  it('re-routes when the truck leaves the route', () => {
+    const { events, listener } = createListener();
+    const session = new NavigationSession(
+      createRecordedRoadData(),
+      listener,
+      toLngLat,
+    );
+
+    // drive the first half of the route, with a short detour at its end.
+    const half = Math.floor(recording.length / 2);
+    const isDetour = (i: number) => half - 20 <= i && i < half - 10;
+    recording
+      .slice(0, half)
+      .forEach((t, i) =>
+        session.update(
+          isDetour(i)
+            ? { ...t, position: { X: t.position.X + 250, Z: t.position.Z } }
+            : t,
+        ),
+      );
+
+    expect(events.offRoute.length).toBeGreaterThan(0);
+    expect(events.offRoute[0].distanceFromRoute).toBeGreaterThan(50);
+    // one route for the start of the job, plus one per re-route.
+    expect(events.routeUpdated).toHaveLength(events.offRoute.length + 1);
+    expect(events.routeUpdated[1].distance).toBeLessThan(
+      events.routeUpdated[0].distance,
+    );
+    // back on the (re-routed) route after the detour.
+    expect(events.progress.at(-1)!.distanceRemaining).toBeLessThan(
+      events.routeUpdated[1].distance,
+    );
+  });
+
+  it('retries routing until a route is found', () => {
+    const { events, listener } = createListener();
+    const session = new NavigationSession(
+      createRecordedRoadData(),
+      listener,
+      toLngLat,
+    );
+
+    // start the job far away from the road.
+    const [first] = recording;
+    const offGraph = {
+      ...first,
+      position: { X: first.position.X + 100_000, Z: first.position.Z },
+    };
+    for (let i = 0; i < 5; i++) {
+      session.update(offGraph);
+    }
+    expect(events.routeUpdated).toHaveLength(0);
+
+    recording.slice(0, 10).forEach(t => session.update(t));
+
+    expect(events.routeUpdated).toHaveLength(1);
+    expect(events.progress.length).toBeGreaterThan(0);
+  });
+
+  it('raises fuel and deadline alerts', () => {
+    const { events, listener } = createListener();
+    const session = new NavigationSession(
+      createRecordedRoadData(),
+      listener,
+      toLngLat,
+    );
+
+    const [first] = recording;
+    const withStatus = (t: Telemetry, fuelRange: number, deadline: number) => ({
+      ...t,
+      scale: 20,
+      gameTime: 600,
+      fuel: { value: 100, capacity: 500, range: fuelRange },
+      job: { income: 1000, deadline, cargo: 'oil' },
+    });
+
+    // plenty of fuel and time.
+    session.update(withStatus(first, 10_000, 100_000));
+    expect(events.alert).toHaveLength(0);
+
+    // alerts are raised once while their conditions hold.
+    session.update(withStatus(first, 1, 601));
+    session.update(withStatus(first, 1, 601));
+    expect(events.alert).toEqual([
+      expect.objectContaining({ type: 'fuelStopNeeded', range: 1000 }),
+      expect.objectContaining({ type: 'deadlineAtRisk' }),
+    ]);
+    const deadlineAlert = events.alert[1] as Extract<
+      NavigationAlert,
+      { type: 'deadlineAtRisk' }
+    >;
+    expect(deadlineAlert.minutesLate).toBeGreaterThan(0);
+
+    // ...and raised again after their conditions stop holding.
+    session.update(withStatus(first, 10_000, 601));
+    session.update(withStatus(first, 1, 601));
+    expect(events.alert.map(a => a.type)).toEqual([
+      'fuelStopNeeded',
+      'deadlineAtRisk',
+      'fuelStopNeeded',
+    ]);
+  });
+});
+
+function aNode(uid: bigint, x: number, y: number, rotation: number): Node {
+  return {
+    uid,
+    x,
+    y,
+    z: 0,
+    rotation,
+    rotationQuat: [0, 0, 0, 0],
+    forwardItemUid: 0n,
+    backwardItemUid: 0n,
+    sectorX: 0,
+    sectorY: 0,
+    forwardCountryId: 0,
+    backwardCountryId: 0,
+  };
+}
@@ -1,23 +1,38 @@
 import type {
+  PlaybackState,
   Telemetry,
+  TelemetryClientToServerEvents,
   TelemetryServerToClientEvents,
   TruckSimTelemetry,
 } from '@truckermudgeon/api/types';
 import express from 'express';
-import fs from 'fs';
 import { createServer } from 'http';
 import path from 'path';
+import process from 'process';
 import { Server } from 'socket.io';
 import url from 'url';
+import { TelemetryPlayer } from './player';
+import {
+  listRecordings,
+  readRecording,
+  TelemetryRecorder,
+  toTelemetry,
+} from './recording';
 
 const __filename = url.fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 const serverName = path.basename(__dirname);
+const recordingsDir = path.join(__dirname, 'recordings');
 const app = express();
 const server = createServer(app);
-const io = new Server<never, TelemetryServerToClientEvents>(server);
+const io = new Server<
+  TelemetryClientToServerEvents,
+  TelemetryServerToClientEvents
+>(server);
 
-let getTelemetry: () => Telemetry | undefined;
+let getTelemetry: (() => Telemetry | undefined) | undefined;
+let getData: (() => TruckSimTelemetry | undefined) | undefined;
+let replay: Replay | undefined;
 
 try {
   // can't install trucksim-telemetry on macOS because it's Windows-only.
@@ -28,29 +43,20 @@ try {
   const tst = (await import('trucksim-telemetry')).default;
   console.log('real telemetry mode');
 
-  getTelemetry = () => {
-    // eslint-disable-next-line
-    const data = tst.getData() as TruckSimTelemetry | undefined;
-    return data ? toTelemetry(data) : undefined;
-  };
+  getData = () => tst.getData() as TruckSimTelemetry | undefined;
 } catch {
   console.log('fake telemetry mode');
+}
 
-  const recordingPath = path.join(
-    __dirname,
-    'recordings',
-    'hays-to-san-angelo.json',
-  );
-  const fakeEntries = JSON.parse(
-    fs.readFileSync(recordingPath, 'utf-8'),
-  ) as Telemetry[];
-  let entryIndex = 0;
+if (getData) {
+  const getRealData = getData;
   getTelemetry = () => {
-    if (entryIndex === fakeEntries.length) {
-      entryIndex = 0;
-    }
-    return fakeEntries[entryIndex++];
+    const data = getRealData();
+    return data ? toTelemetry(data) : undefined;
   };
+  startRecording(getRealData);
+} else {
+  startReplay();
 }
 
 io.on('connection', socket => {
@@ -60,8 +66,19 @@ io.on('connection', socket => {
     clearInterval(intervalId);
   });
 
+  if (replay) {
+    const { controls } = replay;
+    socket.on('pause', () => controls.pause());
+    socket.on('resume', () => controls.resume());
+    socket.on('seek', position => controls.seek(position));
+    socket.on('setSpeed', speed => controls.setSpeed(speed));
+    socket.on('load', recording => controls.load(recording));
+    socket.emit('playbackUpdated', replay.getState());
+  }
+
+  // replayed samples are broadcast as they're played; real samples are polled.
   const intervalId = setInterval(() => {
-    const telemetry = getTelemetry();
+    const telemetry = getTelemetry?.();
     if (telemetry) {
       socket.emit('update', telemetry);
     }
@@ -72,16 +89,138 @@ server.listen(3000, () => {
   console.log(`${serverName} listening on 3000`);
 });
 
-function toTelemetry(data: TruckSimTelemetry): Telemetry {
-  const { truck, job, navigation, game } = data;
-  return {
-    position: truck.position,
-    heading: truck.orientation.heading,
-    speed: truck.speed,
-    source: job.source,
-    destination: job.destination,
-    speedLimit: navigation.speedLimit,
-    timestamp: game.timestamp,
-    scale: game.scale,
+/**
+ * Records real telemetry samples to a timestamped file in the dir specified by
+ * the `TELEMETRY_RECORDING_DIR` env var, if it's set.
+ */
+function startRecording(getData: () => TruckSimTelemetry | undefined) {
+  const recordingDir = process.env['TELEMETRY_RECORDING_DIR'];
+  if (!recordingDir) {
+    return;
+  }
+
+  const recorder = new TelemetryRecorder(recordingDir);
+  console.log(`${serverName} recording telemetry to ${recorder.file}`);
+  setInterval(() => {
+    const data = getData();
+    if (data) {
+      recorder.record(data);
+    }
+  }, 100);
+  process.on('SIGINT', () => {
+    void recorder.close().then(() => process.exit());
+  });
+}
+
+interface Replay {
+  controls: {
+    [K in keyof TelemetryClientToServerEvents]: (
+      ...args: Parameters<TelemetryClientToServerEvents[K]>
+    ) => boolean;
   };
+  getState: () => PlaybackState;
+}
+
+/**
+ * Replays a recording, configured by the following env vars:
+ *   - `TELEMETRY_REPLAY_FILE`: the path to the recording file. Defaults to
+ *     `recordings/hays-to-san-angelo.json`.
+ *   - `TELEMETRY_REPLAY_SPEED`: the playback speed multiplier. Defaults to 1.
+ *   - `TELEMETRY_REPLAY_OFFSET`: the position, in seconds, to start playback
+ *     at. Defaults to 0.
+ *
+ * Playback can be controlled with socket events (see
+ * `TelemetryClientToServerEvents`) or with HTTP endpoints under `/playback`.
+ */
+function startReplay() {
+  let recordingFile =
+    process.env['TELEMETRY_REPLAY_FILE'] ??
+    path.join(recordingsDir, 'hays-to-san-angelo.json');
+  const speed = Number(process.env['TELEMETRY_REPLAY_SPEED'] ?? 1);
+  const offset = Number(process.env['TELEMETRY_REPLAY_OFFSET'] ?? 0) * 1000;
+
+  const createPlayer = (file: string, options = { speed, offset }) => {
+    console.log(`${serverName} replaying ${file}`);
+    const player = new TelemetryPlayer(
+      readRecording(file),
+      t => io.emit('update', t),
+      options,
+    );
+    player.start();
+    return player;
+  };
+  let player = createPlayer(recordingFile);
+
+  const getState = () => ({
+    recording: path.basename(recordingFile),
+    ...player.state,
+  });
+  const update = (isValid: boolean, apply: () => void) => {
+    if (isValid) {
+      apply();
+      io.emit('playbackUpdated', getState());
+    }
+    return isValid;
+  };
+  replay = {
+    getState,
+    controls: {
+      pause: () => update(true, () => player.pause()),
+      resume: () => update(true, () => player.resume()),
+      seek: position =>
+        update(Number.isFinite(position), () => player.seek(position)),
+      setSpeed: speed =>
+        update(Number.isFinite(speed) && speed > 0, () =>
+          player.setSpeed(speed),
+        ),
+      load: recording =>
+        // only allow recordings in the recordings dir.
+        update(listRecordings(recordingsDir).includes(recording), () => {
+          player.pause();
+          recordingFile = path.join(recordingsDir, recording);
+          player = createPlayer(recordingFile, {
+            speed: player.state.speed,
+            offset: 0,
+          });
+        }),
+    },
+  };
+
+  const { controls } = replay;
+  app.get('/recordings', (_, res) => {
+    res.json(listRecordings(recordingsDir));
+  });
+  app.get('/playback', (_, res) => {
+    res.json(getState());
+  });
+  app.post('/playback/:action', (req, res) => {
+    const { action } = req.params;
+    const { position, speed, recording } = req.query;
+    let ok: boolean;
+    switch (action) {
+      case 'pause':
+        ok = controls.pause();
+        break;
+      case 'resume':
+        ok = controls.resume();
+        break;
+      case 'seek':
+        ok = controls.seek(Number(position));
+        break;
+      case 'speed':
+        ok = controls.setSpeed(Number(speed));
+        break;
+      case 'load':
+        ok = controls.load(typeof recording === 'string' ? recording : '');
+        break;
+      default:
+        res.sendStatus(404);
+        return;
+    }
+    if (ok) {
+      res.json(getState());
+    } else {
+      res.sendStatus(400);
+    }
+  });
 }
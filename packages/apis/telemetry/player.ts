@@ -0,0 +1,181 @@
+import type { Telemetry } from '@truckermudgeon/api/types';
+import { Preconditions } from '@truckermudgeon/base/precon';
+
+export interface PlayerOptions {
+  /** Playback speed multiplier. Defaults to 1. */
+  speed?: number;
+  /** Position to start playback at, in ms. Defaults to 0. */
+  offset?: number;
+  /** Whether to restart playback at the end of the samples. Defaults to true. */
+  loop?: boolean;
+}
+
+/**
+ * Gap, in ms, assumed between samples whose timestamps go backwards or jump
+ * ahead (e.g., after a game load).
+ */
+const defaultSampleInterval = 500;
+/** Max gap, in ms, between consecutive samples. */
+const maxSampleInterval = 5_000;
+
+/**
+ * Replays recorded telemetry samples, with timing taken from the samples'
+ * game timestamps.
+ */
+export class TelemetryPlayer {
+  /** Sample times, in ms from the first sample. */
+  private readonly times: number[];
+  private readonly offset: number;
+  private readonly loop: boolean;
+  private speed: number;
+  private paused = true;
+  /** The index of the next sample to play. */
+  private index = 0;
+  /** Playback position, in ms, as of `positionUpdatedAt`. */
+  private position = 0;
+  private positionUpdatedAt = 0;
+  private timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(
+    private readonly samples: readonly Telemetry[],
+    private readonly onSample: (t: Telemetry) => void,
+    options: PlayerOptions = {},
+  ) {
+    this.times = toSampleTimes(samples);
+    this.speed = options.speed ?? 1;
+    this.offset = options.offset ?? 0;
+    this.loop = options.loop ?? true;
+    Preconditions.checkArgument(this.speed > 0, 'speed must be positive');
+  }
+
+  get duration(): number {
+    return this.times.at(-1) ?? 0;
+  }
+
+  get state() {
+    return {
+      position: this.getPosition(),
+      duration: this.duration,
+      speed: this.speed,
+      paused: this.paused,
+    };
+  }
+
+  /** Starts playback at the configured offset. */
+  start() {
+    this.paused = false;
+    this.seek(this.offset);
+  }
+
+  pause() {
+    this.position = this.getPosition();
+    this.paused = true;
+    this.cancel();
+  }
+
+  resume() {
+    if (!this.paused) {
+      return;
+    }
+    this.paused = false;
+    this.positionUpdatedAt = Date.now();
+    this.schedule();
+  }
+
+  /**
+   * Seeks to `position`, in ms, immediately playing the latest sample at or
+   * before `position`.
+   */
+  seek(position: number) {
+    this.cancel();
+    this.position = Math.max(0, Math.min(position, this.duration));
+    this.positionUpdatedAt = Date.now();
+    const latest = upperBound(this.times, this.position) - 1;
+    if (latest >= 0) {
+      this.onSample(this.samples[latest]);
+    }
+    this.index = latest + 1;
+    this.schedule();
+  }
+
+  setSpeed(speed: number) {
+    Preconditions.checkArgument(speed > 0, 'speed must be positive');
+    this.position = this.getPosition();
+    this.positionUpdatedAt = Date.now();
+    this.speed = speed;
+    this.cancel();
+    this.schedule();
+  }
+
+  private getPosition(): number {
+    return this.paused
+      ? this.position
+      : Math.min(
+          this.duration,
+          this.position + (Date.now() - this.positionUpdatedAt) * this.speed,
+        );
+  }
+
+  private schedule() {
+    if (this.paused || this.samples.length === 0) {
+      return;
+    }
+    if (this.index === this.samples.length) {
+      if (!this.loop) {
+        return;
+      }
+      this.index = 0;
+      this.position = 0;
+      this.positionUpdatedAt = Date.now();
+    }
+
+    const delay = Math.max(
+      0,
+      (this.times[this.index] - this.getPosition()) / this.speed,
+    );
+    this.timeoutId = setTimeout(() => {
+      this.position = this.times[this.index];
+      this.positionUpdatedAt = Date.now();
+      this.onSample(this.samples[this.index]);
+      this.index++;
+      this.schedule();
+    }, delay);
+  }
+
+  private cancel() {
+    clearTimeout(this.timeoutId);
+    this.timeoutId = undefined;
+  }
+}
+
+function toSampleTimes(samples: readonly Telemetry[]): number[] {
+  const times: number[] = [];
+  for (let i = 0; i < samples.length; i++) {
+    if (i === 0) {
+      times.push(0);
+      continue;
+    }
+    // game timestamps are in microseconds.
+    const gap =
+      (samples[i].timestamp.value - samples[i - 1].timestamp.value) / 1000;
+    times.push(
+      times[i - 1] +
+        (gap >= 0 && gap <= maxSampleInterval ? gap : defaultSampleInterval),
+    );
+  }
+  return times;
+}
+
+/** Returns the index of the first element in `sorted` greater than `value`. */
+function upperBound(sorted: readonly number[], value: number): number {
+  let [lo, hi] = [0, sorted.length];
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (sorted[mid] <= value) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
+}
@@ -0,0 +1,97 @@
+import type { Telemetry, TruckSimTelemetry } from '@truckermudgeon/api/types';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Records `TruckSimTelemetry` samples to a JSON Lines file in `dir`, named
+ * after the time recording started. Samples are only written when the game's
+ * timestamp changes, so that a paused game doesn't bloat the recording.
+ */
+export class TelemetryRecorder {
+  readonly file: string;
+  private readonly stream: fs.WriteStream;
+  private lastTimestamp: number | undefined;
+
+  constructor(dir: string, now = new Date()) {
+    fs.mkdirSync(dir, { recursive: true });
+    // colons aren't allowed in Windows filenames.
+    const name = now.toISOString().replaceAll(':', '-').replace(/\..*$/, '');
+    this.file = path.join(dir, `${name}.jsonl`);
+    this.stream = fs.createWriteStream(this.file, { flags: 'a' });
+  }
+
+  record(data: TruckSimTelemetry) {
+    if (data.game.timestamp.value === this.lastTimestamp) {
+      return;
+    }
+    this.lastTimestamp = data.game.timestamp.value;
+    this.stream.write(JSON.stringify(data) + '\n');
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.stream.end(resolve));
+  }
+}
+
+/**
+ * Reads a recording file: either a JSON Lines file of `TruckSimTelemetry`
+ * samples written by `TelemetryRecorder`, or a JSON array of `Telemetry`.
+ */
+export function readRecording(file: string): Telemetry[] {
+  const contents = fs.readFileSync(file, 'utf-8');
+  if (path.extname(file) === '.jsonl') {
+    return contents
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => toTelemetry(JSON.parse(line) as TruckSimTelemetry));
+  }
+  return JSON.parse(contents) as Telemetry[];
+}
+
+/** Returns the names of the recording files in `dir`, sorted by name. */
+export function listRecordings(dir: string): string[] {
+  return fs
+    .readdirSync(dir)
+    .filter(f => f.endsWith('.json') || f.endsWith('.jsonl'))
+    .sort();
+}
+
+export function toTelemetry(data: TruckSimTelemetry): Telemetry {
+  const { truck, trailer, job, navigation, game } = data;
+  return {
+    position: truck.position,
+    heading: truck.orientation.heading,
+    speed: truck.speed,
+    source: job.source,
+    destination: job.destination,
+    speedLimit: navigation.speedLimit,
+    timestamp: game.timestamp,
+    scale: game.scale,
+    gameTime: game.time.value,
+    nextRestStop: navigation.nextRestStop,
+    fuel: {
+      value: truck.fuel.value,
+      capacity: truck.fuel.capacity,
+      range: truck.fuel.range,
+    },
+    cruiseControl: truck.cruiseControl,
+    engine: {
+      gear: truck.transmission.gear.displayed,
+      rpm: truck.engine.rpm.value,
+    },
+    trailer: {
+      attached: trailer.attached,
+      cargoMass: job.cargo.mass,
+    },
+    job: {
+      income: job.income,
+      deadline: job.expectedDeliveryTimestamp.value,
+      cargo: job.cargo.name,
+    },
+    damage: {
+      truck: truck.damage.total,
+      trailer: trailer.damage.total,
+      cargo: job.cargo.damage,
+    },
+  };
+}
@@ -0,0 +1,110 @@
+import type { Telemetry } from '@truckermudgeon/api/types';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TelemetryPlayer } from '../player';
+
+describe('TelemetryPlayer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Creates samples with game timestamps at the given times, in ms.
+  function aRecording(...times: number[]): Telemetry[] {
+    return times.map(
+      (t, i) =>
+        ({
+          position: { X: i, Z: 0 },
+          timestamp: { value: 1_000_000 + t * 1000 },
+        }) as Telemetry,
+    );
+  }
+
+  function createPlayer(
+    samples: Telemetry[],
+    options?: ConstructorParameters<typeof TelemetryPlayer>[2],
+  ) {
+    const played: number[] = [];
+    const player = new TelemetryPlayer(
+      samples,
+      t => played.push(t.position.X),
+      options,
+    );
+    return { player, played };
+  }
+
+  it('plays samples with timing from their timestamps', () => {
+    const { player, played } = createPlayer(aRecording(0, 500, 1500), {
+      loop: false,
+    });
+    player.start();
+    expect(played).toEqual([0]);
+
+    vi.advanceTimersByTime(499);
+    expect(played).toEqual([0]);
+    vi.advanceTimersByTime(1);
+    expect(played).toEqual([0, 1]);
+    vi.advanceTimersByTime(1000);
+    expect(played).toEqual([0, 1, 2]);
+
+    vi.advanceTimersByTime(10_000);
+    expect(played).toEqual([0, 1, 2]);
+    expect(player.state).toEqual({
+      position: 1500,
+      duration: 1500,
+      speed: 1,
+      paused: false,
+    });
+  });
+
+  it('supports playback speeds and start offsets', () => {
+    const { player, played } = createPlayer(aRecording(0, 1000, 2000, 3000), {
+      speed: 2,
+      offset: 1200,
+    });
+    player.start();
+    expect(played).toEqual([1]);
+
+    vi.advanceTimersByTime(400);
+    expect(played).toEqual([1, 2]);
+
+    player.setSpeed(0.5);
+    vi.advanceTimersByTime(1999);
+    expect(played).toEqual([1, 2]);
+    vi.advanceTimersByTime(1);
+    expect(played).toEqual([1, 2, 3]);
+
+    // loops back to the start.
+    vi.advanceTimersByTime(1);
+    expect(played).toEqual([1, 2, 3, 0]);
+  });
+
+  it('pauses and seeks', () => {
+    const { player, played } = createPlayer(aRecording(0, 1000, 2000, 3000));
+    player.start();
+    vi.advanceTimersByTime(500);
+    player.pause();
+    expect(player.state).toMatchObject({ position: 500, paused: true });
+
+    vi.advanceTimersByTime(5000);
+    expect(played).toEqual([0]);
+
+    player.seek(2500);
+    expect(played).toEqual([0, 2]);
+    expect(player.state).toMatchObject({ position: 2500, paused: true });
+
+    player.resume();
+    vi.advanceTimersByTime(500);
+    expect(played).toEqual([0, 2, 3]);
+  });
+
+  it('spaces out samples with unusable timestamps', () => {
+    const samples = aRecording(0, 100_000, 100_200);
+    samples[1].timestamp.value = 0;
+    const { player } = createPlayer(samples);
+    // one default gap for the backwards timestamp, and one for the big gap.
+    expect(player.duration).toBe(1000);
+  });
+});
@@ -0,0 +1,81 @@
+import type { TruckSimTelemetry } from '@truckermudgeon/api/types';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { listRecordings, readRecording, TelemetryRecorder } from '../recording';
+
+describe('TelemetryRecorder', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'recordings-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  function aSample(timestamp: number, x: number): TruckSimTelemetry {
+    const location = {
+      city: { id: 'hays', name: 'Hays' },
+      company: { id: 'pet_oil_well', name: 'Pioneer' },
+    };
+    const speed = { value: 10, kph: 36, mph: 22 };
+    return {
+      navigation: { speedLimit: speed, nextRestStop: 300 },
+      truck: {
+        position: { X: x, Z: 0 },
+        speed,
+        orientation: { heading: 0.25 },
+        fuel: { value: 200, capacity: 400, range: 600 },
+        cruiseControl: { ...speed, enabled: true },
+        transmission: { gear: { displayed: 10 } },
+        engine: { rpm: { value: 1200 } },
+        damage: { total: 0.01 },
+      },
+      trailer: { attached: true, damage: { total: 0.02 } },
+      job: {
+        source: location,
+        destination: location,
+        income: 5000,
+        expectedDeliveryTimestamp: { value: 900 },
+        cargo: { name: 'Oil', mass: 20_000, damage: 0.03 },
+      },
+      game: { time: { value: 600 }, timestamp: { value: timestamp }, scale: 3 },
+    };
+  }
+
+  it('records samples that can be replayed', async () => {
+    const recorder = new TelemetryRecorder(
+      dir,
+      new Date('2024-05-06T07:08:09.123Z'),
+    );
+    recorder.record(aSample(1000, 1));
+    // samples taken while the game is paused are skipped.
+    recorder.record(aSample(1000, 1));
+    recorder.record(aSample(2000, 2));
+    await recorder.close();
+
+    expect(listRecordings(dir)).toEqual(['2024-05-06T07-08-09.jsonl']);
+    const samples = readRecording(recorder.file);
+    expect(samples.map(s => s.position.X)).toEqual([1, 2]);
+    expect(samples[1]).toEqual({
+      position: { X: 2, Z: 0 },
+      heading: 0.25,
+      speed: { value: 10, kph: 36, mph: 22 },
+      source: aSample(0, 0).job.source,
+      destination: aSample(0, 0).job.destination,
+      speedLimit: { value: 10, kph: 36, mph: 22 },
+      timestamp: { value: 2000 },
+      scale: 3,
+      gameTime: 600,
+      nextRestStop: 300,
+      fuel: { value: 200, capacity: 400, range: 600 },
+      cruiseControl: { value: 10, kph: 36, mph: 22, enabled: true },
+      engine: { gear: 10, rpm: 1200 },
+      trailer: { attached: true, cargoMass: 20_000 },
+      job: { income: 5000, deadline: 900, cargo: 'Oil' },
+      damage: { truck: 0.01, trailer: 0.02, cargo: 0.03 },
+    });
+  });
+});
@@ -1,5 +1,9 @@
+import { Add, Close } from '@mui/icons-material';
 import {
   Autocomplete,
+  Button,
+  Checkbox,
+  IconButton,
   List,
   ListDivider,
   Typography,
@@ -8,19 +12,33 @@ import {
 import type { AutocompleteRenderGroupParams } from '@mui/joy/Autocomplete/AutocompleteProps';
 import { assertExists } from '@truckermudgeon/base/assert';
 import { getExtent } from '@truckermudgeon/base/geom';
+import { readGraph } from '@truckermudgeon/map/binary-graph';
 import type { AtsDlcGuard } from '@truckermudgeon/map/constants';
 import {
   AtsSelectableDlcs,
   toAtsDlcGuards,
   type AtsSelectableDlc,
 } from '@truckermudgeon/map/constants';
-import type { Context, Mode, PartialNode } from '@truckermudgeon/map/routing';
-import { findRoute } from '@truckermudgeon/map/routing';
+import type { Landmarks } from '@truckermudgeon/map/landmarks';
+import { hashGraph, readLandmarks } from '@truckermudgeon/map/landmarks';
+import { fromAtsCoordsToWgs84 } from '@truckermudgeon/map/projections';
 import type {
+  AvoidanceOptions,
+  Context,
+  Mode,
+  PartialNode,
+} from '@truckermudgeon/map/routing';
+import { findMultiStopRoute } from '@truckermudgeon/map/routing';
+import { findSpecialTransportRoute } from '@truckermudgeon/map/special-transport';
+import type { StopCandidate, StopPlanOptions } from '@truckermudgeon/map/stops';
+import { joinLegs, planRoute } from '@truckermudgeon/map/stops';
+import type {
+  DemoCargoFlow,
+  DemoCargoFlowsData,
   DemoCompany,
-  DemoNeighbor,
   DemoRoutesData,
-  Neighbor,
+  DemoSpecialTransportRoute,
+  DemoStop,
   Neighbors,
 } from '@truckermudgeon/map/types';
 import {
@@ -33,7 +51,7 @@ import {
 } from '@truckermudgeon/ui';
 import type { GeoJSONSource } from 'maplibre-gl';
 import 'maplibre-gl/dist/maplibre-gl.css';
-import { useCallback, useEffect, useState } from 'react';
+import { Fragment, useCallback, useEffect, useRef, useState } from 'react';
 import type { MapRef } from 'react-map-gl/maplibre';
 import MapGl, {
   AttributionControl,
@@ -111,6 +129,26 @@ const RoutesDemo = (props: { tileRootUrl: string }) => {
         enableAutoHide={autoHide}
         enabledStates={visibleStates}
       />
+      <Source
+        id={'specialTransport'}
+        type={'geojson'}
+        data={
+          {
+            type: 'FeatureCollection',
+            features: [],
+          } as GeoJSON.FeatureCollection
+        }
+      >
+        <Layer
+          type={'line'}
+          paint={{
+            'line-color': '#fa0',
+            'line-width': 6,
+            'line-opacity': 0.5,
+            'line-dasharray': [2, 1],
+          }}
+        />
+      </Source>
       <Source
         id={'route1'}
         type={'geojson'}
@@ -123,6 +161,7 @@ const RoutesDemo = (props: { tileRootUrl: string }) => {
       >
         <Layer
           type={'line'}
+          filter={['==', ['geometry-type'], 'LineString']}
           paint={{
             'line-color': [
               'match',
@@ -131,12 +170,24 @@ const RoutesDemo = (props: { tileRootUrl: string }) => {
               '#f00',
               'smallRoads',
               '#0f0',
+              'fastest',
+              '#00f',
               '#f0f',
             ],
             'line-width': 3,
             'line-opacity': 0.7,
           }}
         />
+        <Layer
+          type={'circle'}
+          filter={['==', ['geometry-type'], 'Point']}
+          paint={{
+            'circle-color': '#f0f',
+            'circle-radius': 6,
+            'circle-stroke-color': '#fff',
+            'circle-stroke-width': 2,
+          }}
+        />
       </Source>
       <NavigationControl visualizePitch={true} />
       <FullscreenControl />
@@ -174,12 +225,63 @@ export default RoutesDemo;
 ℹ ignoring gal_oil_gst evanston
  */
 
+/**
+ * Stop planning options for the demo: a truck that starts with a full tank
+ * that's good for 1,000 km, and that rests every 11 in-game hours (at ATS's
+ * default time scale of 20).
+ */
+const demoStopPlanOptions: StopPlanOptions = {
+  mode: 'fastest',
+  fuelRange: 1_000_000,
+  fullTankRange: 1_000_000,
+  timeUntilBreak: (11 * 3600) / 20,
+  breakInterval: (11 * 3600) / 20,
+};
+
+/**
+ * The max number of stops between the start and end of a route. Keeps stop
+ * order optimization fast.
+ */
+const maxVias = 10;
+
+const avoidanceOptions: {
+  option: keyof AvoidanceOptions;
+  label: string;
+}[] = [
+  { option: 'ferries', label: 'Avoid ferries' },
+  { option: 'trains', label: 'Avoid trains' },
+  { option: 'tolls', label: 'Avoid tolls' },
+  { option: 'borders', label: 'Avoid border crossings' },
+  { option: 'preferHighways', label: 'Prefer highways' },
+];
+
+interface RouteOptions {
+  optimizeOrder: boolean;
+  avoid: AvoidanceOptions;
+  /** Whether routes should follow special transport routes. */
+  specialTransport: boolean;
+}
+
+interface CargoOption {
+  // cargo name, with destination info
+  label: string;
+  // cargo token
+  value: string;
+}
+
+/** A stop between the start and end of a route. */
+interface Via {
+  id: number;
+  // hex node uid
+  value: string | undefined;
+}
+
 export interface CompanyOption {
   // company token
   label: string;
   // city token
   city: string;
-  // base36 node uid
+  // hex node uid
   value: string;
 }
 
@@ -192,19 +294,44 @@ const RouteControl = (props: { dlcs: ReadonlySet<AtsSelectableDlc> }) => {
   const [context, setContext] = useState<
     Omit<Context, 'enabledDlcGuards'> | undefined
   >(undefined);
+  const [stopCandidates, setStopCandidates] = useState<StopCandidate[]>([]);
+  const [planStops, setPlanStops] = useState(false);
+  const [vias, setVias] = useState<Via[]>([]);
+  const nextViaId = useRef(0);
+  const [optimizeOrder, setOptimizeOrder] = useState(false);
+  const [avoid, setAvoid] = useState<AvoidanceOptions>({});
+  const [specialTransport, setSpecialTransport] = useState(false);
+  const routeOptions: RouteOptions = { optimizeOrder, avoid, specialTransport };
   const [startCompanies, setStartCompanies] = useState<CompanyOption[]>([]);
   const [endCompanies, setEndCompanies] = useState<CompanyOption[]>([]);
+  const [cargoFlows, setCargoFlows] = useState<DemoCargoFlowsData | undefined>(
+    undefined,
+  );
+  const [cargo, setCargo] = useState<string | undefined>(undefined);
   useEffect(() => {
-    fetch('usa-graph-demo.json')
-      .then(r => r.json() as Promise<DemoRoutesData>)
-      .then(
-        data => {
-          setStartCompanies(data.demoCompanies.map(toCompanyOption));
-          setContext(toContext(data));
-          setDemoData(data);
-        },
-        () => console.error('could not load usa-graph-demo.json'),
-      );
+    Promise.all([
+      fetch('usa-graph.bin')
+        .then(r => r.arrayBuffer())
+        .then(buffer => readGraph(new Uint8Array(buffer))),
+      fetch('usa-graph-demo.json').then(
+        r => r.json() as Promise<DemoRoutesData>,
+      ),
+      fetchLandmarks('usa-landmarks.bin'),
+      fetchCargoFlows('usa-cargo-flows-demo.json'),
+    ]).then(
+      ([graphData, data, landmarks, cargoFlows]) => {
+        setStartCompanies(data.demoCompanies.map(toCompanyOption));
+        setContext({
+          ...graphData,
+          landmarks: matchesGraph(landmarks, graphData.graph),
+        });
+        setStopCandidates(data.demoStops.map(toStopCandidate));
+        setDemoData(data);
+        setCargoFlows(cargoFlows);
+      },
+      () =>
+        console.error('could not load usa-graph.bin or usa-graph-demo.json'),
+    );
   }, []);
 
   const [start, setStart] = useState<string | undefined>(undefined);
@@ -213,6 +340,7 @@ const RouteControl = (props: { dlcs: ReadonlySet<AtsSelectableDlc> }) => {
     (option: CompanyOption) => {
       option = assertExists(option);
       setStart(option.value);
+      setCargo(undefined);
       let matchingCompany: DemoCompany | undefined;
       if (demoData != null) {
         matchingCompany = assertExists(
@@ -245,42 +373,155 @@ const RouteControl = (props: { dlcs: ReadonlySet<AtsSelectableDlc> }) => {
 
       if (matchingCompany) {
         const matchingNode = assertExists(
-          context.nodeLUT.get(BigInt(parseInt(matchingCompany.n, 36))),
+          context.nodeLUT.get(toNodeUid(matchingCompany.n)),
         );
         map.flyTo({
           curve: 1,
           zoom: 9,
-          center: [matchingNode.x, matchingNode.y],
+          center: toLngLat(matchingNode),
         });
       }
     },
     [map, end, context, demoData],
   );
+  const updateRoute = (
+    end: string | undefined,
+    vias: readonly Via[],
+    options: RouteOptions,
+  ) => {
+    if (map == null || context == null || start == null || end == null) {
+      return;
+    }
+    const viaNodeUids = vias.flatMap(via => (via.value ? [via.value] : []));
+    const stops = [start, ...viaNodeUids, end];
+    let specialTransportRoute: DemoSpecialTransportRoute | undefined;
+    // special transport routes are only followed for routes without vias.
+    if (options.specialTransport && stops.length === 2) {
+      specialTransportRoute = findDemoSpecialTransportRoute(
+        start,
+        end,
+        assertExists(demoData),
+      );
+      if (specialTransportRoute == null) {
+        alert('No special transport route between these cities 🙁');
+        return;
+      }
+    }
+    fetchRoute(stops, options.optimizeOrder, specialTransportRoute, map, {
+      ...context,
+      enabledDlcGuards,
+      avoid: options.avoid,
+    });
+  };
   const onSelectEnd = useCallback(
     (option: CompanyOption) => {
       option = assertExists(option);
       setEnd(option.value);
-      if (map == null || context == null) {
-        return;
-      }
-      fetchRoute(assertExists(start), option.value, map, {
-        ...context,
-        enabledDlcGuards,
-      });
+      updateRoute(option.value, vias, routeOptions);
     },
-    [map, start, context, props.dlcs],
+    [
+      map,
+      start,
+      context,
+      props.dlcs,
+      planStops,
+      stopCandidates,
+      vias,
+      optimizeOrder,
+      avoid,
+      specialTransport,
+    ],
   );
+  const onSelectCargo = (option: CargoOption | null) => {
+    setCargo(option?.value);
+    if (map != null && end != null) {
+      const routeSource = assertExists(map.getSource<GeoJSONSource>('route1'));
+      routeSource.setData({
+        type: 'FeatureCollection',
+        features: [],
+      } as GeoJSON.FeatureCollection);
+      setEnd(undefined);
+    }
+  };
+  const onAddVia = () =>
+    setVias([...vias, { id: nextViaId.current++, value: undefined }]);
+  const onSelectVia = (id: number, option: CompanyOption) => {
+    const newVias = vias.map(via =>
+      via.id === id ? { ...via, value: option.value } : via,
+    );
+    setVias(newVias);
+    updateRoute(end, newVias, routeOptions);
+  };
+  const onRemoveVia = (id: number) => {
+    const newVias = vias.filter(via => via.id !== id);
+    setVias(newVias);
+    updateRoute(end, newVias, routeOptions);
+  };
+  const onToggleOptimizeOrder = (checked: boolean) => {
+    setOptimizeOrder(checked);
+    updateRoute(end, vias, { ...routeOptions, optimizeOrder: checked });
+  };
+  const onToggleAvoid = (option: keyof AvoidanceOptions, checked: boolean) => {
+    const newAvoid = { ...avoid, [option]: checked };
+    setAvoid(newAvoid);
+    updateRoute(end, vias, { ...routeOptions, avoid: newAvoid });
+  };
+  const onToggleSpecialTransport = (checked: boolean) => {
+    setSpecialTransport(checked);
+    if (map != null && demoData != null) {
+      const overlaySource = assertExists(
+        map.getSource<GeoJSONSource>('specialTransport'),
+      );
+      overlaySource.setData({
+        type: 'FeatureCollection',
+        features: checked
+          ? demoData.demoSpecialTransportRoutes.map(toSpecialTransportFeature)
+          : [],
+      });
+    }
+    updateRoute(end, vias, { ...routeOptions, specialTransport: checked });
+  };
   const fetchRoute = (
-    startNodeUid: string,
-    endNodeUid: string,
+    stops: string[],
+    optimizeOrder: boolean,
+    specialTransportRoute: DemoSpecialTransportRoute | undefined,
     map: MapRef,
     context: Context,
   ) => {
+    const [startNodeUid, endNodeUid] = [stops[0], stops[stops.length - 1]];
+    const viaFeatures = stops.slice(1, -1).map(
+      (nodeUid): GeoJSON.Feature => ({
+        type: 'Feature',
+        geometry: {
+          type: 'Point',
+          coordinates: toLngLat(
+            assertExists(context.nodeLUT.get(toNodeUid(nodeUid))),
+          ),
+        },
+        properties: { types: ['via'] },
+      }),
+    );
+    const find = (mode: Mode) =>
+      specialTransportRoute
+        ? fakeFindSpecialTransport(
+            startNodeUid,
+            endNodeUid,
+            mode,
+            specialTransportRoute,
+            context,
+          )
+        : fakeFind(stops, mode, optimizeOrder, context);
     Promise.all([
-      fakeFind(startNodeUid, endNodeUid, 'shortest', context),
-      fakeFind(startNodeUid, endNodeUid, 'smallRoads', context),
+      find('shortest'),
+      find('smallRoads'),
+      find('fastest'),
+      // stops are only planned for routes without vias.
+      planStops && stops.length === 2
+        ? fakePlan(startNodeUid, endNodeUid, stopCandidates, context)
+        : Promise.resolve([]),
     ]).then(
-      maybeLineStrings => {
+      ([shortest, smallRoads, fastest, stopFeatures]) => {
+        const maybeLineStrings = [shortest, smallRoads, fastest];
         const routeSource = assertExists(
           map.getSource<GeoJSONSource>('route1'),
         );
@@ -296,7 +537,7 @@ const RouteControl = (props: { dlcs: ReadonlySet<AtsSelectableDlc> }) => {
           maybeLineStrings as GeoJSON.Feature<GeoJSON.LineString>[];
         routeSource.setData({
           type: 'FeatureCollection',
-          features: lineStrings,
+          features: [...lineStrings, ...stopFeatures, ...viaFeatures],
         } as GeoJSON.FeatureCollection);
         map.fitBounds(
           getExtent(
@@ -317,16 +558,17 @@ const RouteControl = (props: { dlcs: ReadonlySet<AtsSelectableDlc> }) => {
     );
   };
 
-  // base36 node UID to dlc guard
+  // hex node UID to dlc guard
   const dlcGuards = new Map<string, number>();
-  if (demoData) {
-    for (const [, neighbors] of demoData.demoGraph) {
-      for (const neighbor of [...(neighbors.b ?? []), ...(neighbors.f ?? [])]) {
+  if (context) {
+    for (const neighbors of context.graph.values()) {
+      for (const neighbor of [...neighbors.backward, ...neighbors.forward]) {
         // Note: for some unknown reason, neighbors representing the same node
         // may have different dlcGuard values set. When such a neighbor is
         // encountered, prefer the non-zero dlcGuard value.
-        const currGuard = dlcGuards.get(neighbor.n) ?? 0;
-        dlcGuards.set(neighbor.n, currGuard || neighbor.g);
+        const key = neighbor.nodeUid.toString(16);
+        const currGuard = dlcGuards.get(key) ?? 0;
+        dlcGuards.set(key, currGuard || neighbor.dlcGuard);
       }
     }
   }
@@ -346,9 +588,24 @@ const RouteControl = (props: { dlcs: ReadonlySet<AtsSelectableDlc> }) => {
   const startOptions = startCompanies
     .filter(filterByDlcs)
     .sort(sortByCityThenLabel);
-  const endOptions = endCompanies
+  // the cargos that can be hauled from `start`, and how far.
+  const startCargoFlow =
+    start != null
+      ? cargoFlows?.demoCargoFlows.find(f => f.n === start)
+      : undefined;
+  const cargoOptions =
+    cargoFlows && startCargoFlow
+      ? toCargoOptions(startCargoFlow, cargoFlows)
+      : [];
+  const endOptions = (
+    cargo != null && startCargoFlow && demoData
+      ? toCargoDestinationOptions(cargo, startCargoFlow, demoData)
+      : endCompanies
+  )
     .filter(filterByDlcs)
     .sort(sortByCityThenLabel);
+  // any company can be a via stop.
+  const viaOptions = startOptions;
 
   return (
     <div
@@ -372,10 +629,48 @@ const RouteControl = (props: { dlcs: ReadonlySet<AtsSelectableDlc> }) => {
         disableClearable
         renderGroup={formatGroupLabel}
       />
+      {cargoOptions.length > 0 && (
+        <>
+          <h2>Cargo</h2>
+          <Autocomplete
+            // Hack to clear selection when `start` changes.
+            key={start}
+            options={cargoOptions}
+            onChange={(_, v) => onSelectCargo(v)}
+            placeholder={'Any'}
+            blurOnSelect
+            autoComplete
+          />
+        </>
+      )}
+      {vias.map(via => (
+        <Fragment key={via.id}>
+          <h2>Via</h2>
+          <Autocomplete
+            options={viaOptions}
+            onChange={(_, v) => v && onSelectVia(via.id, v)}
+            groupBy={option => option.city}
+            placeholder={'Select...'}
+            blurOnSelect
+            autoComplete
+            disableClearable
+            renderGroup={formatGroupLabel}
+            endDecorator={
+              <IconButton
+                size={'sm'}
+                title={'Remove stop'}
+                onClick={() => onRemoveVia(via.id)}
+              >
+                <Close />
+              </IconButton>
+            }
+          />
+        </Fragment>
+      ))}
       <h2>End</h2>
       <Autocomplete
-        // Hack to clear selection when `start` changes.
-        key={start}
+        // Hack to clear selection when `start` or `cargo` changes.
+        key={`${start}-${cargo}`}
         options={endOptions}
         onChange={(_, v) => v && onSelectEnd(v)}
         groupBy={option => option.city}
@@ -386,6 +681,46 @@ const RouteControl = (props: { dlcs: ReadonlySet<AtsSelectableDlc> }) => {
         disabled={start == null}
         renderGroup={formatGroupLabel}
       />
+      <Button
+        sx={{ gridColumn: 'span 2', mt: 1, justifySelf: 'start' }}
+        variant={'plain'}
+        startDecorator={<Add />}
+        disabled={vias.length >= maxVias}
+        onClick={onAddVia}
+      >
+        Add stop
+      </Button>
+      {vias.length > 1 && (
+        <Checkbox
+          sx={{ gridColumn: 'span 2', mt: 2 }}
+          label={'Optimize stop order'}
+          checked={optimizeOrder}
+          onChange={e => onToggleOptimizeOrder(e.target.checked)}
+        />
+      )}
+      <Checkbox
+        sx={{ gridColumn: 'span 2', mt: 2 }}
+        label={'Plan fuel and rest stops'}
+        checked={planStops}
+        disabled={vias.length > 0}
+        onChange={e => setPlanStops(e.target.checked)}
+      />
+      <Checkbox
+        sx={{ gridColumn: 'span 2', mt: 1 }}
+        label={'Follow special transport route'}
+        checked={specialTransport}
+        disabled={vias.length > 0}
+        onChange={e => onToggleSpecialTransport(e.target.checked)}
+      />
+      {avoidanceOptions.map(({ option, label }) => (
+        <Checkbox
+          key={option}
+          sx={{ gridColumn: 'span 2', mt: 1 }}
+          label={label}
+          checked={avoid[option] ?? false}
+          onChange={e => onToggleAvoid(option, e.target.checked)}
+        />
+      ))}
     </div>
   );
 };
@@ -402,32 +737,60 @@ function formatGroupLabel(params: AutocompleteRenderGroupParams) {
   );
 }
 
-function toContext(data: DemoRoutesData): Omit<Context, 'enabledDlcGuards'> {
-  const graph = new Map<bigint, Neighbors>();
-  const nodeLUT = new Map<bigint, PartialNode>();
-  for (const [id, dns] of data.demoGraph) {
-    graph.set(BigInt(parseInt(id, 36)), {
-      forward: (dns.f ?? []).map(toNeighbor),
-      backward: (dns.b ?? []).map(toNeighbor),
+/**
+ * Fetches precomputed landmarks. Landmarks only speed up route queries, so
+ * resolves to `undefined` if they can't be fetched.
+ */
+function fetchLandmarks(url: string): Promise<Landmarks | undefined> {
+  return fetch(url)
+    .then(r => (r.ok ? r.arrayBuffer() : undefined))
+    .then(buffer => buffer && readLandmarks(new Uint8Array(buffer)))
+    .catch(() => {
+      console.info('could not load', url);
+      return undefined;
     });
+}
+
+/**
+ * Returns `landmarks` if they were computed from `graph`. Landmarks computed
+ * from other graphs can give inadmissible bounds, and so are ignored.
+ */
+function matchesGraph(
+  landmarks: Landmarks | undefined,
+  graph: ReadonlyMap<bigint, Neighbors>,
+): Landmarks | undefined {
+  if (landmarks && landmarks.graphHash !== hashGraph(graph)) {
+    console.info('ignoring landmarks computed from a different graph');
+    return undefined;
   }
-  for (const [id, pos] of data.demoNodes) {
-    nodeLUT.set(BigInt(parseInt(id, 36)), { x: pos[0], y: pos[1] });
-  }
+  return landmarks;
+}
 
-  return {
-    graph,
-    nodeLUT,
-  };
+/**
+ * Fetches precomputed cargo flows. Cargo flows are optional, so resolves to
+ * `undefined` if they can't be fetched.
+ */
+function fetchCargoFlows(url: string): Promise<DemoCargoFlowsData | undefined> {
+  return fetch(url)
+    .then(r => (r.ok ? (r.json() as Promise<DemoCargoFlowsData>) : undefined))
+    .catch(() => {
+      console.info('could not load', url);
+      return undefined;
+    });
 }
 
-function toNeighbor(demoNeighbor: DemoNeighbor): Neighbor {
+function toNodeUid(hexNodeUid: string): bigint {
+  return BigInt('0x' + hexNodeUid);
+}
+
+function toLngLat(node: PartialNode): [number, number] {
+  return fromAtsCoordsToWgs84([node.x, node.y]);
+}
+
+function toStopCandidate(demoStop: DemoStop): StopCandidate {
   return {
-    nodeUid: BigInt(parseInt(demoNeighbor.n, 36)),
-    distance: demoNeighbor.l,
-    isOneLaneRoad: demoNeighbor.o,
-    direction: demoNeighbor.d === 'f' ? 'forward' : 'backward',
-    dlcGuard: demoNeighbor.g,
+    nodeUid: toNodeUid(demoStop.n),
+    types: demoStop.s.map(s => (s === 'f' ? 'fuel' : 'rest')),
   };
 }
 
@@ -439,38 +802,203 @@ function toCompanyOption(demoCompany: DemoCompany): CompanyOption {
   };
 }
 
+function toCargoOptions(
+  cargoFlow: DemoCargoFlow,
+  cargoFlows: DemoCargoFlowsData,
+): CargoOption[] {
+  return Object.entries(cargoFlow.c)
+    .map(([token, indices]) => {
+      const cargo = cargoFlows.demoCargos.find(c => c.t === token);
+      const maxKm = Math.max(...indices.map(i => cargoFlow.d[i][1])) / 1000;
+      const details = [
+        `${indices.length} destinations`,
+        `up to ${Math.round(maxKm).toLocaleString()} km`,
+        ...(cargo?.a != null ? [`ADR ${cargo.a}`] : []),
+      ];
+      return {
+        label: `${cargo?.n ?? token} (${details.join(', ')})`,
+        value: token,
+      };
+    })
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+function toCargoDestinationOptions(
+  cargo: string,
+  cargoFlow: DemoCargoFlow,
+  demoData: DemoRoutesData,
+): CompanyOption[] {
+  return (cargoFlow.c[cargo] ?? []).flatMap(i => {
+    const [nodeUid, distance] = cargoFlow.d[i];
+    const company = demoData.demoCompanies.find(c => c.n === nodeUid);
+    if (company == null) {
+      return [];
+    }
+    const km = Math.round(distance / 1000).toLocaleString();
+    return [{ ...toCompanyOption(company), label: `${company.t} (${km} km)` }];
+  });
+}
+
 function fakeFind(
+  stops: string[],
+  mode: Mode,
+  optimizeOrder: boolean,
+  context: Context,
+): Promise<GeoJSON.Feature | undefined> {
+  return new Promise(resolve => {
+    const multiStopRoute = findMultiStopRoute(
+      stops.map(toNodeUid),
+      'forward',
+      mode,
+      context,
+      { optimizeOrder },
+    );
+    if (!multiStopRoute.success) {
+      resolve(undefined);
+      return;
+    }
+
+    const { route } = joinLegs(multiStopRoute);
+    resolve({
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: route.route.map(neighbor =>
+          toLngLat(assertExists(context.nodeLUT.get(neighbor.nodeUid))),
+        ),
+      },
+      properties: {
+        distance: route.distance,
+        duration: route.duration,
+        mode: mode,
+      },
+    });
+  });
+}
+
+function fakeFindSpecialTransport(
   startNodeUid: string,
   endNodeUid: string,
   mode: Mode,
+  specialTransportRoute: DemoSpecialTransportRoute,
   context: Context,
 ): Promise<GeoJSON.Feature | undefined> {
   return new Promise(resolve => {
-    const route = findRoute(
-      BigInt(parseInt(startNodeUid, 36)),
-      BigInt(parseInt(endNodeUid, 36)),
+    const multiStopRoute = findSpecialTransportRoute(
+      toNodeUid(startNodeUid),
+      toNodeUid(endNodeUid),
       'forward',
       mode,
+      { nodeUids: specialTransportRoute.n.map(toNodeUid) },
       context,
     );
-    if (!route.success) {
+    if (!multiStopRoute.success) {
       resolve(undefined);
       return;
     }
 
+    const { route } = joinLegs(multiStopRoute);
     resolve({
       type: 'Feature',
       geometry: {
         type: 'LineString',
-        coordinates: route.route.map(neighbor => {
-          const node = assertExists(context.nodeLUT.get(neighbor.nodeUid));
-          return [node.x, node.y];
-        }),
+        coordinates: route.route.map(neighbor =>
+          toLngLat(assertExists(context.nodeLUT.get(neighbor.nodeUid))),
+        ),
       },
       properties: {
         distance: route.distance,
+        duration: route.duration,
         mode: mode,
       },
     });
   });
 }
+
+/**
+ * Returns the special transport route between the cities of the companies at
+ * `startNodeUid` and `endNodeUid`, if there is one.
+ */
+function findDemoSpecialTransportRoute(
+  startNodeUid: string,
+  endNodeUid: string,
+  demoData: DemoRoutesData,
+): DemoSpecialTransportRoute | undefined {
+  const toCity = (nodeUid: string) =>
+    demoData.demoCompanies.find(c => c.n === nodeUid)?.c;
+  const [startCity, endCity] = [toCity(startNodeUid), toCity(endNodeUid)];
+  return demoData.demoSpecialTransportRoutes.find(
+    r => r.f === startCity && r.d === endCity,
+  );
+}
+
+function toSpecialTransportFeature(
+  route: DemoSpecialTransportRoute,
+): GeoJSON.Feature {
+  return {
+    type: 'Feature',
+    geometry: {
+      type: 'MultiLineString',
+      coordinates: route.l.map(line =>
+        line.map(([x, y]) => toLngLat({ x, y })),
+      ),
+    },
+    properties: { token: route.t },
+  };
+}
+
+/**
+ * Plans a route with fuel and rest stops, resolving to a line feature for the
+ * route and point features for its stops. Resolves to an empty array if no
+ * route could be planned.
+ */
+function fakePlan(
+  startNodeUid: string,
+  endNodeUid: string,
+  candidates: readonly StopCandidate[],
+  context: Context,
+): Promise<GeoJSON.Feature[]> {
+  return new Promise(resolve => {
+    const plan = planRoute(
+      toNodeUid(startNodeUid),
+      toNodeUid(endNodeUid),
+      'forward',
+      candidates,
+      demoStopPlanOptions,
+      context,
+    );
+    if (!plan.success) {
+      console.warn('cannot plan stops:', plan.reason);
+      resolve([]);
+      return;
+    }
+
+    const toCoordinates = (nodeUid: bigint) =>
+      toLngLat(assertExists(context.nodeLUT.get(nodeUid)));
+    const { route } = joinLegs(plan);
+    resolve([
+      {
+        type: 'Feature',
+        geometry: {
+          type: 'LineString',
+          coordinates: route.route.map(n => toCoordinates(n.nodeUid)),
+        },
+        properties: {
+          distance: plan.distance,
+          duration: plan.duration,
+          mode: 'stops',
+        },
+      },
+      ...plan.stops.map(
+        (stop): GeoJSON.Feature => ({
+          type: 'Feature',
+          geometry: {
+            type: 'Point',
+            coordinates: toCoordinates(stop.nodeUid),
+          },
+          properties: { types: stop.types },
+        }),
+      ),
+    ]);
+  });
+}
@@ -1,4 +1,5 @@
-﻿import fs from 'fs';
+﻿import { writeGraph } from '@truckermudgeon/map/binary-graph';
+import fs from 'fs';
 import path from 'path';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
@@ -27,7 +28,7 @@ async function main() {
     })
     .option('outputDir', {
       alias: 'o',
-      describe: 'Path to dir graph.json file should be written to',
+      describe: 'Path to dir graph.bin file should be written to',
       type: 'string',
       coerce: untildify,
       demandOption: true,
@@ -40,7 +41,7 @@ async function main() {
     })
     .option('demo', {
       alias: 'd',
-      describe: 'Output a graph.json tailored for the demo-app',
+      describe: 'Also output a graph-demo.json for the demo-app',
       type: 'boolean',
       default: false,
     })
@@ -92,16 +93,15 @@ async function main() {
   }
 
   if (!args.dryRun) {
+    fs.writeFileSync(
+      path.join(args.outputDir, `${args.map}-graph.bin`),
+      writeGraph(graph, tsMapData.nodes),
+    );
     if (args.demo) {
       fs.writeFileSync(
         path.join(args.outputDir, `${args.map}-graph-demo.json`),
         JSON.stringify(toDemoGraph(graph, tsMapData)),
       );
-    } else {
-      fs.writeFileSync(
-        path.join(args.outputDir, `${args.map}-graph.json`),
-        JSON.stringify([...graph.entries()], null, 2),
-      );
     }
   }
   logger.success('done.');
@@ -0,0 +1,109 @@
+import { readGraph } from '@truckermudgeon/map/binary-graph';
+import fs from 'fs';
+import path from 'path';
+import type { Argv, BuilderArguments } from 'yargs';
+import { toCargoFlows, toDemoCargoFlows } from '../graph/cargo-flows';
+import { logger } from '../logger';
+import { readMapData } from '../mapped-data';
+import { maybeEnsureOutputDir, untildify } from './path-helpers';
+
+export const command = 'cargo-flows';
+export const describe =
+  'Generates the cargos each company ships, and the route distances to the companies that accept them';
+
+export const builder = (yargs: Argv) =>
+  yargs
+    .option('map', {
+      alias: 'm',
+      describe: 'Source map. Can only specify one.',
+      choices: ['usa', 'europe'] as const,
+      default: 'usa' as 'usa' | 'europe',
+      defaultDescription: 'usa',
+    })
+    .option('inputDir', {
+      alias: 'i',
+      describe: 'Path to dir containing parser-generated JSON files',
+      type: 'string',
+      coerce: untildify,
+      demandOption: true,
+    })
+    .option('graph', {
+      alias: 'g',
+      describe: 'Path to a graph.bin file generated by the `graph` command',
+      type: 'string',
+      coerce: untildify,
+      demandOption: true,
+    })
+    .option('outputDir', {
+      alias: 'o',
+      describe: 'Path to dir cargo-flows.json file should be written to',
+      type: 'string',
+      coerce: untildify,
+      demandOption: true,
+    })
+    .option('maxDistance', {
+      describe: 'Max route distance between companies, in kilometers',
+      type: 'number',
+      default: 3000,
+    })
+    .option('demo', {
+      alias: 'd',
+      describe: 'Also output a cargo-flows-demo.json for the demo-app',
+      type: 'boolean',
+      default: false,
+    })
+    .option('dryRun', {
+      describe: "Don't write out any files.",
+      type: 'boolean',
+      default: false,
+    })
+    .check(maybeEnsureOutputDir)
+    .check(argv => {
+      if (Array.isArray(argv.map)) {
+        throw new Error('Only one "map" option can be specified.');
+      }
+      if (!(argv.maxDistance > 0)) {
+        throw new Error('"maxDistance" must be a positive number.');
+      }
+      return true;
+    });
+
+export function handler(args: BuilderArguments<typeof builder>) {
+  const tsMapData = readMapData(args.inputDir, args.map, {
+    mapDataKeys: ['companies', 'companyDefs', 'cargos'],
+  });
+  const { graph, nodeLUT } = readGraph(fs.readFileSync(args.graph));
+
+  // all dlcs are enabled.
+  const enabledDlcGuards = new Set<number>();
+  for (const { forward, backward } of graph.values()) {
+    for (const neighbor of [...forward, ...backward]) {
+      enabledDlcGuards.add(neighbor.dlcGuard);
+    }
+  }
+
+  logger.start(
+    'finding cargo flows between',
+    tsMapData.companies.size,
+    'companies',
+  );
+  const cargoFlows = toCargoFlows(
+    tsMapData,
+    { graph, nodeLUT, enabledDlcGuards },
+    args.maxDistance * 1000,
+  );
+  logger.success(cargoFlows.length, 'companies with cargo flows');
+
+  if (!args.dryRun) {
+    const jsonPath = path.join(args.outputDir, `${args.map}-cargo-flows.json`);
+    logger.log('writing', jsonPath + '...');
+    fs.writeFileSync(jsonPath, JSON.stringify(cargoFlows));
+    if (args.demo) {
+      fs.writeFileSync(
+        path.join(args.outputDir, `${args.map}-cargo-flows-demo.json`),
+        JSON.stringify(toDemoCargoFlows(cargoFlows, tsMapData.cargos)),
+      );
+    }
+  }
+  logger.success('done.');
+}
@@ -8,6 +8,7 @@ import type {
 } from '@truckermudgeon/map/types';
 import path from 'path';
 import type { Argv, BuilderArguments } from 'yargs';
+import { getLocalizedName } from '../geo-json/localize';
 import { createNormalizeFeature } from '../geo-json/normalize';
 import { createIsoA2Map } from '../geo-json/populated-places';
 import { logger } from '../logger';
@@ -42,6 +43,13 @@ export const builder = (yargs: Argv) =>
       coerce: untildify,
       demandOption: true,
     })
+    .option('locale', {
+      alias: 'l',
+      describe:
+        'Locale of city and country names (e.g., de_de). Requires parser output generated with matching --locales.',
+      type: 'string',
+      default: 'en_us',
+    })
     .check(maybeEnsureOutputDir);
 
 export function handler(args: BuilderArguments<typeof builder>) {
@@ -75,11 +83,11 @@ export function handler(args: BuilderArguments<typeof builder>) {
       if (!country) {
         throw new Error(`no country found for token ${city.countryToken}`);
       }
-      return toCityFeature(map, country.code, city);
+      return toCityFeature(map, country.code, city, args.locale);
     });
     const countryFeatures = countries
       .values()
-      .map(country => toCountryFeature(map, country));
+      .map(country => toCountryFeature(map, country, args.locale));
 
     const normalizeFeature = createNormalizeFeature(map, 4);
     return [...cityFeatures, ...countryFeatures].map(normalizeFeature);
@@ -104,6 +112,7 @@ function toCityFeature(
   map: 'usa' | 'europe',
   countryCode: string,
   city: City,
+  locale: string,
 ): ScopedCityFeature {
   const toCoords = (c: City) => {
     const cityArea = assertExists(c.areas.find(a => !a.hidden));
@@ -120,7 +129,7 @@ function toCityFeature(
       type: 'city',
       map,
       countryCode,
-      name: city.name,
+      name: getLocalizedName(city, locale),
     },
   };
 }
@@ -128,6 +137,7 @@ function toCityFeature(
 function toCountryFeature(
   map: 'usa' | 'europe',
   country: Country,
+  locale: string,
 ): ScopedCountryFeature {
   return {
     type: 'Feature',
@@ -139,7 +149,7 @@ function toCountryFeature(
       type: 'country',
       map,
       code: country.code,
-      name: country.name,
+      name: getLocalizedName(country, locale),
     },
   };
 }
@@ -1,11 +1,19 @@
+import { readGraph, writeGraph } from '@truckermudgeon/map/binary-graph';
+import type { Landmarks } from '@truckermudgeon/map/landmarks';
+import {
+  computeLandmarks,
+  writeLandmarks,
+} from '@truckermudgeon/map/landmarks';
 import fs from 'fs';
 import path from 'path';
 import type { Argv, BuilderArguments } from 'yargs';
-import { checkGraph } from '../graph/check-graph';
+import { analyzeGraph, toAnalysisGeoJson } from '../graph/analyze-graph';
+import { checkGraph, toJUnitXml } from '../graph/check-graph';
 import { toDemoGraph } from '../graph/demo-graph';
 import { generateGraph, graphMapDataKeys } from '../graph/graph';
 import { logger } from '../logger';
 import { readMapData } from '../mapped-data';
+import { writeGeojsonFile } from '../write-geojson-file';
 import { maybeEnsureOutputDir, untildify } from './path-helpers';
 
 export const command = 'graph';
@@ -30,7 +38,7 @@ export const builder = (yargs: Argv) =>
     })
     .option('outputDir', {
       alias: 'o',
-      describe: 'Path to dir graph.json file should be written to',
+      describe: 'Path to dir graph.bin file should be written to',
       type: 'string',
       coerce: untildify,
       demandOption: true,
@@ -41,12 +49,64 @@ export const builder = (yargs: Argv) =>
       type: 'boolean',
       default: false,
     })
+    .option('checkSeed', {
+      describe: 'Seed for picking companies to check, for reproducible checks',
+      type: 'number',
+      implies: 'check',
+    })
+    .option('checkOrigins', {
+      describe:
+        'Companies to check routes to and from, as `token.cityToken` strings. Overrides random company selection.',
+      type: 'string',
+      array: true,
+      implies: 'check',
+    })
+    .option('checkCities', {
+      describe:
+        'Check routes between all pairs of this many cities, instead of routes to and from origin companies',
+      type: 'number',
+      implies: 'check',
+    })
+    .option('checkBaseline', {
+      describe:
+        'Path to a previously generated graph.bin file. Checked routes that regress compared to this graph are reported.',
+      type: 'string',
+      coerce: untildify,
+      implies: 'check',
+    })
+    .option('checkThreshold', {
+      describe:
+        'Relative change in route distance reported as a regression when using checkBaseline',
+      type: 'number',
+      default: 0.1,
+    })
+    .option('checkOutput', {
+      describe:
+        'Path to write check results to. Results are written as JUnit XML if the path ends in .xml, and as JSON otherwise. Written even if dryRun is set.',
+      type: 'string',
+      coerce: untildify,
+      implies: 'check',
+    })
+    .option('analyze', {
+      alias: 'a',
+      describe:
+        'Also output a connectivity report (graph-analysis.json) and a GeoJSON debug layer (graph-analysis.geojson)',
+      type: 'boolean',
+      default: false,
+    })
     .option('demo', {
       alias: 'd',
-      describe: 'Output a graph.json tailored for the demo-app',
+      describe: 'Also output a graph-demo.json for the demo-app',
       type: 'boolean',
       default: false,
     })
+    .option('landmarks', {
+      alias: 'l',
+      describe:
+        'Number of landmarks to precompute for faster route queries. Set to 0 to skip precomputation.',
+      type: 'number',
+      default: 0,
+    })
     .option('dryRun', {
       describe: "Don't write out any files.",
       type: 'boolean',
@@ -57,6 +117,15 @@ export const builder = (yargs: Argv) =>
       if (Array.isArray(argv.map)) {
         throw new Error('Only one "map" option can be specified.');
       }
+      if (!Number.isInteger(argv.landmarks) || argv.landmarks < 0) {
+        throw new Error('"landmarks" must be a non-negative integer.');
+      }
+      if (
+        argv.checkCities != null &&
+        (!Number.isInteger(argv.checkCities) || argv.checkCities < 2)
+      ) {
+        throw new Error('"checkCities" must be an integer greater than 1.');
+      }
       return true;
     });
 
@@ -66,25 +135,84 @@ export async function handler(args: BuilderArguments<typeof builder>) {
       ...graphMapDataKeys,
       // required for demo graph
       'companyDefs',
+      'trajectories',
+      'routes',
     ],
   });
 
-  const graph = generateGraph(tsMapData);
+  // round-trip the graph through the binary format, so that checks and
+  // landmarks use the same (single-precision) costs as consumers of the file.
+  const graphFile = writeGraph(generateGraph(tsMapData), tsMapData.nodes);
+  const { graph } = readGraph(graphFile);
+  let landmarks: Landmarks | undefined;
+  if (args.landmarks > 0) {
+    logger.start('computing', args.landmarks, 'landmarks');
+    landmarks = computeLandmarks(graph, tsMapData.nodes, args.landmarks);
+    logger.success('landmarks computed');
+  }
   if (args.check) {
-    await checkGraph(graph, tsMapData);
+    const results = await checkGraph(graph, tsMapData, {
+      seed: args.checkSeed,
+      origins: args.checkOrigins,
+      numCities: args.checkCities,
+      landmarks,
+      baseline: args.checkBaseline
+        ? readGraph(fs.readFileSync(args.checkBaseline))
+        : undefined,
+      regressionThreshold: args.checkThreshold,
+    });
+    if (args.checkOutput) {
+      fs.writeFileSync(
+        args.checkOutput,
+        args.checkOutput.endsWith('.xml')
+          ? toJUnitXml(results)
+          : JSON.stringify(results, null, 2),
+      );
+    }
+  }
+  const analysis = args.analyze ? analyzeGraph(graph, tsMapData) : undefined;
+  if (analysis) {
+    logger.info(
+      analysis.numMainComponentNodes,
+      'of',
+      analysis.numNodes,
+      'nodes in main component',
+    );
+    logger.info(analysis.components.length, 'disconnected sub-graphs');
+    logger.info(analysis.deadEnds.length, 'dead-end nodes');
+    logger.info(analysis.entryOnly.length, 'entry-only node directions');
+    logger.info(
+      analysis.unreachableCompanies.length,
+      'companies outside of main component',
+    );
   }
 
   if (!args.dryRun) {
+    fs.writeFileSync(
+      path.join(args.outputDir, `${args.map}-graph.bin`),
+      graphFile,
+    );
+    if (landmarks) {
+      fs.writeFileSync(
+        path.join(args.outputDir, `${args.map}-landmarks.bin`),
+        writeLandmarks(landmarks),
+      );
+    }
+    if (analysis) {
+      fs.writeFileSync(
+        path.join(args.outputDir, `${args.map}-graph-analysis.json`),
+        JSON.stringify(analysis, null, 2),
+      );
+      writeGeojsonFile(
+        path.join(args.outputDir, `${args.map}-graph-analysis.geojson`),
+        toAnalysisGeoJson(analysis, graph, tsMapData),
+      );
+    }
     if (args.demo) {
       fs.writeFileSync(
         path.join(args.outputDir, `${args.map}-graph-demo.json`),
         JSON.stringify(toDemoGraph(graph, tsMapData)),
       );
-    } else {
-      fs.writeFileSync(
-        path.join(args.outputDir, `${args.map}-graph.json`),
-        JSON.stringify([...graph.entries()], null, 2),
-      );
     }
   }
   logger.success('done.');
@@ -0,0 +1,140 @@
+import { readGraph } from '@truckermudgeon/map/binary-graph';
+import type { Stop } from '@truckermudgeon/map/routing';
+import { reachable, resolveStops } from '@truckermudgeon/map/routing';
+import fs from 'fs';
+import path from 'path';
+import type { Argv, BuilderArguments } from 'yargs';
+import { convertToIsochronesGeoJson } from '../geo-json/isochrones';
+import { logger } from '../logger';
+import { readMapData } from '../mapped-data';
+import { writeGeojsonFile } from '../write-geojson-file';
+import { maybeEnsureOutputDir, untildify } from './path-helpers';
+
+export const command = 'isochrones';
+export const describe =
+  'Generates isochrone polygons for the areas reachable from a company or city';
+
+// Default bands, in minutes for the 'duration' metric and in kilometers for
+// the 'distance' metric.
+const defaultBands = {
+  duration: [5, 10, 20],
+  distance: [50, 100, 200],
+};
+
+export const builder = (yargs: Argv) =>
+  yargs
+    .option('map', {
+      alias: 'm',
+      describe: 'Source map. Can only specify one.',
+      choices: ['usa', 'europe'] as const,
+      default: 'usa' as 'usa' | 'europe',
+      defaultDescription: 'usa',
+    })
+    .option('inputDir', {
+      alias: 'i',
+      describe: 'Path to dir containing parser-generated JSON files',
+      type: 'string',
+      coerce: untildify,
+      demandOption: true,
+    })
+    .option('graph', {
+      alias: 'g',
+      describe: 'Path to a graph.bin file generated by the `graph` command',
+      type: 'string',
+      coerce: untildify,
+      demandOption: true,
+    })
+    .option('outputDir', {
+      alias: 'o',
+      describe: 'Path to dir isochrones.geojson file should be written to',
+      type: 'string',
+      coerce: untildify,
+      demandOption: true,
+    })
+    .option('from', {
+      alias: 'f',
+      describe:
+        'Company (as a `token.cityToken` string) or city (as a `cityToken` string) to start from',
+      type: 'string',
+      demandOption: true,
+    })
+    .option('metric', {
+      describe: 'Whether bands are travel times or distances',
+      choices: ['duration', 'distance'] as const,
+      default: 'duration' as 'duration' | 'distance',
+    })
+    .option('bands', {
+      alias: 'b',
+      describe:
+        'Isochrone bands, in minutes (for durations) or kilometers (for distances)',
+      type: 'number',
+      array: true,
+      defaultDescription: '5 10 20 minutes, or 50 100 200 kilometers',
+    })
+    .option('dryRun', {
+      describe: "Don't write out any files.",
+      type: 'boolean',
+      default: false,
+    })
+    .check(maybeEnsureOutputDir)
+    .check(argv => {
+      if (Array.isArray(argv.map)) {
+        throw new Error('Only one "map" option can be specified.');
+      }
+      if (argv.bands?.some(band => !(band > 0))) {
+        throw new Error('"bands" must be positive numbers.');
+      }
+      return true;
+    });
+
+export function handler(args: BuilderArguments<typeof builder>) {
+  const tsMapData = readMapData(args.inputDir, args.map, {
+    mapDataKeys: ['companies', 'cities'],
+  });
+  const { graph, nodeLUT } = readGraph(fs.readFileSync(args.graph));
+
+  const [company, city] = args.from.split('.');
+  const stop: Stop = city != null ? { company, city } : { city: company };
+  const [startNodeUid] = resolveStops([stop], tsMapData);
+
+  // all dlcs are enabled.
+  const enabledDlcGuards = new Set<number>();
+  for (const { forward, backward } of graph.values()) {
+    for (const neighbor of [...forward, ...backward]) {
+      enabledDlcGuards.add(neighbor.dlcGuard);
+    }
+  }
+
+  const { metric } = args;
+  const toCost = metric === 'duration' ? 60 : 1000;
+  const limits = (args.bands ?? defaultBands[metric]).map(
+    band => band * toCost,
+  );
+  // search a bit past the largest limit, so that the largest isochrone's
+  // boundary can be interpolated.
+  const maxLimit = Math.max(...limits) * 1.25;
+  logger.start('finding nodes reachable from', args.from);
+  const costs = reachable(
+    startNodeUid,
+    metric === 'duration' ? { duration: maxLimit } : { distance: maxLimit },
+    { graph, nodeLUT, enabledDlcGuards },
+  );
+  logger.success(costs.size, 'reachable nodes');
+
+  const geoJson = convertToIsochronesGeoJson({
+    map: args.map,
+    nodeLUT,
+    costs,
+    metric,
+    limits,
+  });
+  if (!args.dryRun) {
+    const geoJsonPath = path.join(
+      args.outputDir,
+      `${args.map}-isochrones-${args.from}.geojson`,
+    );
+    logger.log('writing', geoJsonPath + '...');
+    writeGeojsonFile(geoJsonPath, geoJson);
+  }
+  logger.success('done.');
+}
@@ -62,6 +62,19 @@ export const builder = (yargs: Argv) =>
       type: 'boolean',
       default: false,
     })
+    .option('locale', {
+      alias: 'l',
+      describe:
+        'Locale of city, country, and ferry names (e.g., de_de). Requires parser output generated with matching --locales.',
+      type: 'string',
+      default: 'en_us',
+    })
+    .option('sourceMod', {
+      describe:
+        'Only include road, prefab, and city features from these mods (by id: a Steam Workshop item id, or a package name, e.g., "my_map"). Use "base" for the base game.\nSpecify multiple mods with multiple --sourceMod arguments.',
+      type: 'string',
+      array: true,
+    })
     .option('inputDir', {
       alias: 'i',
       describe: 'Path to dir containing parser-generated JSON files',
@@ -139,6 +152,8 @@ export function handler(args: BuilderArguments<typeof builder>) {
   const geoJson = convertToMapGeoJson(tsMapData, {
     includeDebug: args.includeDebug,
     skipCoalescing: args.skipCoalescing,
+    locale: args.locale,
+    sourceMods: args.sourceMod,
   });
   let geoJsonPath: string | undefined;
   const gamePrefix = args.map === 'usa' ? 'ats' : 'ets2';
@@ -173,6 +188,8 @@ export function handler(args: BuilderArguments<typeof builder>) {
       'roadType',
       'color',
       'name',
+      // for styling features by source mod.
+      'sourceMod',
     ];
 
     for (const type of types.filter(t => t.endsWith('tiles'))) {
@@ -100,7 +100,13 @@ async function createSpritesheet(
     path.join(resourcesDir, 'roadwork.png'),
     path.join(resourcesDir, 'railcrossing.png'),
   ];
-  const poiPngPaths = [...new Set(pois.map(o => o.icon))].map(name =>
+  const icons = [...new Set(pois.map(o => o.icon))];
+  // icons provided by mods are namespaced by the parser, e.g., `acme@my_mod`.
+  const modIcons = icons.filter(name => name.includes('@'));
+  if (modIcons.length) {
+    logger.info(modIcons.length, 'mod icons:', modIcons.sort().join(' '));
+  }
+  const poiPngPaths = icons.map(name =>
     path.join(inputDir, 'icons', name + '.png'),
   );
   const origPngs = [...resourcesPaths, ...poiPngPaths];
@@ -0,0 +1,59 @@
+import type { PartialNode } from '@truckermudgeon/map/routing';
+import type { IsochroneFeature } from '@truckermudgeon/map/types';
+import { tricontour } from 'd3-tricontour';
+import { logger } from '../logger';
+import { createNormalizeFeature } from './normalize';
+
+/**
+ * Converts the costs of reachable nodes (e.g., as returned by `reachable`)
+ * into isochrone polygons, one for each of `limits`. Features are sorted by
+ * descending limit, so that smaller isochrones are drawn on top.
+ */
+export function convertToIsochronesGeoJson({
+  map,
+  nodeLUT,
+  costs,
+  metric,
+  limits,
+}: {
+  map: 'usa' | 'europe';
+  nodeLUT: ReadonlyMap<bigint, PartialNode>;
+  /** Reachable node uids, mapped to their distances or durations. */
+  costs: ReadonlyMap<bigint, number>;
+  metric: 'distance' | 'duration';
+  /** Limits, in meters or seconds. */
+  limits: readonly number[];
+}): GeoJSON.FeatureCollection<GeoJSON.MultiPolygon> {
+  const normalizeCoordinates = createNormalizeFeature(map, 4);
+  const points: [number, number, number][] = [];
+  for (const [nodeUid, cost] of costs) {
+    const node = nodeLUT.get(nodeUid);
+    if (node) {
+      // contours enclose values _above_ thresholds, so negate costs.
+      points.push([node.x, node.y, -cost]);
+    }
+  }
+  if (points.length < 3) {
+    logger.warn('not enough reachable nodes to calculate isochrones');
+    return { type: 'FeatureCollection', features: [] };
+  }
+
+  const sortedLimits = [...limits].sort((a, b) => b - a);
+  const tric = tricontour();
+  tric.thresholds(sortedLimits.map(limit => -limit));
+  const features: IsochroneFeature[] = [];
+  for (const { value, type, coordinates } of tric.contours(points)) {
+    features.push(
+      normalizeCoordinates({
+        type: 'Feature',
+        properties: { metric, limit: -value },
+        geometry: { type, coordinates },
+      }),
+    );
+  }
+
+  return {
+    type: 'FeatureCollection',
+    features,
+  };
+}
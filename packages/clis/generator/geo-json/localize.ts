@@ -0,0 +1,12 @@
+import type { LocalizedNames } from '@truckermudgeon/map/types';
+
+/**
+ * Returns `o`'s name in `locale`, falling back to `o.name` if `locale` is
+ * undefined or `o` has no name for it.
+ */
+export function getLocalizedName(
+  o: { name: string; names?: LocalizedNames },
+  locale: string | undefined,
+): string {
+  return (locale ? o.names?.[locale] : undefined) ?? o.name;
+}
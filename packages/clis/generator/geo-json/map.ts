@@ -50,6 +50,7 @@ import type { GeoJSON } from 'geojson';
 import { dlcGuardMapDataKeys, normalizeDlcGuards } from '../dlc-guards';
 import { logger } from '../logger';
 import type { MapDataKeys, MappedDataForKeys } from '../mapped-data';
+import { getLocalizedName } from './localize';
 import { createNormalizeFeature } from './normalize';
 import { ets2IsoA2, getCitiesByCountryIsoA2 } from './populated-places';
 
@@ -92,6 +93,14 @@ export function convertToMapGeoJson(
   options: {
     includeDebug: boolean;
     skipCoalescing: boolean;
+    /** Locale of city, country, and ferry names. Defaults to `en_us`. */
+    locale?: string;
+    /**
+     * Archive filenames of the mods whose road, prefab, and city features
+     * should be included, with `base` standing in for the base game. All
+     * features are included if undefined.
+     */
+    sourceMods?: readonly string[];
   },
 ): AtsGeoJson {
   logger.log('normalizing dlcGuard values...');
@@ -193,7 +202,15 @@ export function convertToMapGeoJson(
     countriesByCityName.set('Lixouri', gr);
   }
   const ferryFeatures: FerryFeature[] = uniqFerries.map(f =>
-    ferryToFeature(map, f, cities, countries, countriesByCityName),
+    ferryToFeature(
+      map,
+      f,
+      ferries,
+      cities,
+      countries,
+      countriesByCityName,
+      options.locale,
+    ),
   );
 
   logger.log('creating dividers...');
@@ -568,10 +585,12 @@ export function convertToMapGeoJson(
       };
     });
   }
-  const cityFeatures = rankedCities.map(cityToFeature);
+  const cityFeatures = rankedCities.map(c => cityToFeature(c, options.locale));
 
   logger.log('creating states/countries...');
-  const countryFeatures = countries.values().map(countryToFeature);
+  const countryFeatures = countries
+    .values()
+    .map(c => countryToFeature(c, options.locale));
 
   logger.log('creating pois...');
   const poiFeatures = pois.map(p => poiToFeature(p));
@@ -607,12 +626,18 @@ export function convertToMapGeoJson(
     }
   }
 
+  const { sourceMods } = options;
+  const isFromSourceMods = (f: { properties: { sourceMod?: string } }) =>
+    sourceMods == null || sourceMods.includes(f.properties.sourceMod ?? 'base');
+
   const features = [
     ...debugCityAreaFeatures,
     ...mapAreaFeatures,
-    ...prefabFeatures,
-    ...processedRoadFeatures,
-    ...cityFeatures.map(c => withDlcGuard(c, dlcGuardQuadTree)),
+    ...prefabFeatures.filter(isFromSourceMods),
+    ...processedRoadFeatures.filter(isFromSourceMods),
+    ...cityFeatures
+      .filter(isFromSourceMods)
+      .map(c => withDlcGuard(c, dlcGuardQuadTree)),
     ...countryFeatures,
     ...poiFeatures.map(p => withDlcGuard(p, dlcGuardQuadTree)),
     ...trafficFeatures,
@@ -916,12 +941,15 @@ function areaToFeature(
 function ferryToFeature(
   map: 'usa' | 'europe',
   ferry: Ferry,
+  // ferries by token
+  ferries: ReadonlyMap<string, Ferry>,
   // cities by token
   cities: ReadonlyMap<string, City>,
   // countries by token
   countries: ReadonlyMap<string, Country>,
   // city-name-to-country fallback
   countriesFallback: ReadonlyMap<string, Country>,
+  locale: string | undefined,
 ): FerryFeature {
   Preconditions.checkArgument(ferry.connections.length === 1);
   const conn = ferry.connections[0];
@@ -961,7 +989,8 @@ function ferryToFeature(
       const isoA2 = country
         ? (ets2IsoA2.get(country.code) ?? country.code)
         : undefined;
-      return isoA2 ? `${ferry.name}, ${isoA2}` : ferry.name;
+      const name = getLocalizedName(ferries.get(ferry.token) ?? ferry, locale);
+      return isoA2 ? `${name}, ${isoA2}` : name;
     })
     .join(' – ');
 
@@ -1067,15 +1096,19 @@ type CityWithScaleRank = City & {
   capital: 0 | 1 | 2; // 0 = not a capital; 1 = state/province capital; 2 = country capital
 };
 
-function cityToFeature(city: CityWithScaleRank): CityFeature {
+function cityToFeature(
+  city: CityWithScaleRank,
+  locale: string | undefined,
+): CityFeature {
   const cityArea = assertExists(city.areas.find(a => !a.hidden));
   return {
     type: 'Feature',
     properties: {
       type: 'city',
-      name: city.name,
+      name: getLocalizedName(city, locale),
       scaleRank: city.scaleRank,
       capital: city.capital,
+      sourceMod: city.sourceMod,
     },
     geometry: {
       type: 'Point',
@@ -1105,12 +1138,15 @@ function cityToAreaFeatures(city: CityWithScaleRank): DebugFeature[] {
   }));
 }
 
-function countryToFeature(country: Country): CountryFeature {
+function countryToFeature(
+  country: Country,
+  locale: string | undefined,
+): CountryFeature {
   return {
     type: 'Feature',
     properties: {
       type: 'country',
-      name: country.name,
+      name: getLocalizedName(country, locale),
     },
     geometry: {
       type: 'Point',
@@ -1159,6 +1195,7 @@ function prefabToFeatures(
         properties: {
           type: 'prefab',
           dlcGuard: prefab.dlcGuard,
+          sourceMod: prefab.sourceMod,
           zIndex: polygon.zIndex,
           color: polygon.color,
         },
@@ -1246,6 +1283,7 @@ function prefabToFeatures(
         properties: {
           type: 'road',
           dlcGuard: prefab.dlcGuard,
+          sourceMod: prefab.sourceMod,
           prefab: prefab.token,
           roadType: nearestRoadType,
           offset: road.offset,
@@ -1286,6 +1324,7 @@ function roadToFeature(
     ...roadLookToProperties(roadLook, !!road.hidden),
     lookToken: road.roadLookToken,
     dlcGuard: road.dlcGuard,
+    sourceMod: road.sourceMod,
     startNodeUid: road.startNodeUid,
     endNodeUid: road.endNodeUid,
   };
@@ -1436,12 +1475,16 @@ function roadLookToProperties(
 }
 
 function arePropsConnectable(
-  a: RoadLookProperties & { dlcGuard: number },
-  b: RoadLookProperties & { dlcGuard: number },
+  a: RoadLookProperties & { dlcGuard: number; sourceMod?: string },
+  b: RoadLookProperties & { dlcGuard: number; sourceMod?: string },
 ) {
   if (a.dlcGuard !== b.dlcGuard) {
     return false;
   }
+  // keep roads from different mods apart, so they can be styled by source mod.
+  if (a.sourceMod !== b.sourceMod) {
+    return false;
+  }
 
   // we don't care about hidden roads; they can be joined all the time since they're
   // currently rendered the same, regardless of roadType.
@@ -0,0 +1,47 @@
+import { convertToIsochronesGeoJson } from '../isochrones';
+
+describe('convertToIsochronesGeoJson', () => {
+  // a 21x21 grid of nodes, 100m apart, whose costs are their distances from
+  // the center of the grid.
+  const nodeLUT = new Map<bigint, { x: number; y: number }>();
+  const costs = new Map<bigint, number>();
+  for (let i = 0; i <= 20; i++) {
+    for (let j = 0; j <= 20; j++) {
+      const uid = BigInt(i * 21 + j);
+      const [x, y] = [(i - 10) * 100, (j - 10) * 100];
+      nodeLUT.set(uid, { x, y });
+      costs.set(uid, Math.hypot(x, y));
+    }
+  }
+
+  it('creates one polygon per limit, largest first', () => {
+    const { features } = convertToIsochronesGeoJson({
+      map: 'usa',
+      nodeLUT,
+      costs,
+      metric: 'distance',
+      limits: [300, 600],
+    });
+
+    expect(features.map(f => f.properties)).toEqual([
+      { metric: 'distance', limit: 600 },
+      { metric: 'distance', limit: 300 },
+    ]);
+    for (const feature of features) {
+      expect(feature.geometry.type).toBe('MultiPolygon');
+      expect(feature.geometry.coordinates).toHaveLength(1);
+    }
+  });
+
+  it('requires at least three reachable nodes', () => {
+    expect(
+      convertToIsochronesGeoJson({
+        map: 'usa',
+        nodeLUT,
+        costs: new Map([[0n, 0]]),
+        metric: 'duration',
+        limits: [300],
+      }).features,
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,367 @@
+import { assertExists } from '@truckermudgeon/base/assert';
+import type { Direction } from '@truckermudgeon/map/routing';
+import type { Neighbors } from '@truckermudgeon/map/types';
+import type { GeoJSON } from 'geojson';
+import { createNormalizeFeature } from '../geo-json/normalize';
+import type { MappedDataForKeys } from '../mapped-data';
+
+type AnalyzeGraphMappedData = MappedDataForKeys<
+  ['nodes', 'companies', 'prefabs', 'cities']
+>;
+
+/** A node, and the direction it's being traveled in. */
+interface NodeState {
+  nodeUid: bigint;
+  direction: Direction;
+}
+
+export interface GraphAnalysis {
+  numNodes: number;
+  numEdges: number;
+  /**
+   * The number of nodes in the main (i.e., the largest) strongly connected
+   * component. Any node in the main component can be routed to from any other.
+   */
+  numMainComponentNodes: number;
+  /**
+   * Strongly connected components other than the main one that contain at
+   * least one edge, largest first. These are usually disconnected sub-graphs.
+   */
+  components: {
+    nodeUids: bigint[];
+  }[];
+  /** Nodes that can't be exited in either direction. */
+  deadEnds: bigint[];
+  /**
+   * Node states that can be entered, but not exited, for nodes that can be
+   * exited in the opposite direction.
+   */
+  entryOnly: NodeState[];
+  /** Companies whose nodes aren't in the main component. */
+  unreachableCompanies: {
+    company: string;
+    city: string;
+    nodeUid: bigint;
+    /** True if the company can be reached from the main component. */
+    canEnter: boolean;
+    /** True if the main component can be reached from the company. */
+    canExit: boolean;
+  }[];
+}
+
+type AnalysisFeature = GeoJSON.Feature<
+  GeoJSON.Point | GeoJSON.MultiLineString,
+  | { type: 'component'; numNodes: number }
+  | { type: 'deadEnd'; nodeUid: string }
+  | { type: 'entryOnly'; nodeUid: string; direction: Direction }
+  | {
+      type: 'unreachableCompany';
+      nodeUid: string;
+      company: string;
+      city: string;
+      canEnter: boolean;
+      canExit: boolean;
+    }
+>;
+
+/**
+ * Analyzes the connectivity of `graph`, looking for sub-graphs that aren't
+ * connected to the rest of the graph, nodes that can't be exited, and
+ * companies that can't be routed to or from.
+ */
+export function analyzeGraph(
+  graph: ReadonlyMap<bigint, Neighbors>,
+  tsMapData: AnalyzeGraphMappedData,
+): GraphAnalysis {
+  const { companies, cities, prefabs } = tsMapData;
+  const stateGraph = toStateGraph(graph);
+  const { nodeUids, outgoing, incoming } = stateGraph;
+  const numStates = outgoing.length;
+
+  const componentIds = findComponents(outgoing);
+  const componentSizes = new Array<number>(numStates).fill(0);
+  for (const id of componentIds) {
+    componentSizes[id]++;
+  }
+  let mainComponentId = 0;
+  for (let id = 1; id < numStates; id++) {
+    if (componentSizes[id] > componentSizes[mainComponentId]) {
+      mainComponentId = id;
+    }
+  }
+  const mainStates = componentIds.flatMap((id, state) =>
+    id === mainComponentId ? [state] : [],
+  );
+  const canEnter = markReachable(outgoing, mainStates);
+  const canExit = markReachable(incoming, mainStates);
+
+  const statesByComponent = new Map<number, number[]>();
+  for (let state = 0; state < numStates; state++) {
+    const id = componentIds[state];
+    const hasEdge = outgoing[state].some(to => componentIds[to] === id);
+    if (id !== mainComponentId && hasEdge) {
+      const states = statesByComponent.get(id) ?? [];
+      states.push(state);
+      statesByComponent.set(id, states);
+    }
+  }
+  const toNodeUids = (states: number[]) => [
+    ...new Set(states.map(s => nodeUids[s >> 1])),
+  ];
+
+  const deadEnds: bigint[] = [];
+  const entryOnly: NodeState[] = [];
+  for (let i = 0; i < nodeUids.length; i++) {
+    const [forward, backward] = [i * 2, i * 2 + 1];
+    if (!outgoing[forward].length && !outgoing[backward].length) {
+      deadEnds.push(nodeUids[i]);
+      continue;
+    }
+    for (const state of [forward, backward]) {
+      if (!outgoing[state].length && incoming[state].length) {
+        entryOnly.push(toNodeState(nodeUids, state));
+      }
+    }
+  }
+
+  const nodeIndices = new Map(nodeUids.map((uid, i) => [uid, i]));
+  const unreachableCompanies: GraphAnalysis['unreachableCompanies'] = [];
+  for (const company of companies.values()) {
+    if (!cities.has(company.cityToken) || !prefabs.has(company.prefabUid)) {
+      continue;
+    }
+    const index = nodeIndices.get(company.nodeUid);
+    const states = index != null ? [index * 2, index * 2 + 1] : [];
+    if (states.some(s => componentIds[s] === mainComponentId)) {
+      continue;
+    }
+    unreachableCompanies.push({
+      company: company.token,
+      city: company.cityToken,
+      nodeUid: company.nodeUid,
+      canEnter: states.some(s => canEnter[s]),
+      canExit: states.some(s => canExit[s]),
+    });
+  }
+
+  return {
+    numNodes: nodeUids.length,
+    numEdges: outgoing.reduce((sum, edges) => sum + edges.length, 0),
+    numMainComponentNodes: toNodeUids(mainStates).length,
+    components: [...statesByComponent.values()]
+      .map(toNodeUids)
+      .sort((a, b) => b.length - a.length)
+      .map(nodeUids => ({ nodeUids })),
+    deadEnds,
+    entryOnly,
+    unreachableCompanies,
+  };
+}
+
+/**
+ * Converts `analysis` into a GeoJSON debug layer, with features for each of
+ * the issues found in `graph`.
+ */
+export function toAnalysisGeoJson(
+  analysis: GraphAnalysis,
+  graph: ReadonlyMap<bigint, Neighbors>,
+  tsMapData: Pick<AnalyzeGraphMappedData, 'map' | 'nodes'>,
+): GeoJSON.FeatureCollection<
+  AnalysisFeature['geometry'],
+  AnalysisFeature['properties']
+> {
+  const { map, nodes } = tsMapData;
+  const normalizeFeature = createNormalizeFeature(map, 4);
+  const toPosition = (nodeUid: bigint): [number, number] => {
+    const node = assertExists(nodes.get(nodeUid));
+    return [node.x, node.y];
+  };
+  const toPoint = (nodeUid: bigint): GeoJSON.Point => ({
+    type: 'Point',
+    coordinates: toPosition(nodeUid),
+  });
+
+  const features: AnalysisFeature[] = [];
+  for (const { nodeUids } of analysis.components) {
+    const inComponent = new Set(nodeUids);
+    const lines: [number, number][][] = [];
+    for (const nodeUid of nodeUids) {
+      const { forward, backward } = graph.get(nodeUid) ?? {
+        forward: [],
+        backward: [],
+      };
+      for (const neighbor of [...forward, ...backward]) {
+        if (inComponent.has(neighbor.nodeUid)) {
+          lines.push([toPosition(nodeUid), toPosition(neighbor.nodeUid)]);
+        }
+      }
+    }
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'MultiLineString', coordinates: lines },
+      properties: { type: 'component', numNodes: nodeUids.length },
+    });
+  }
+  for (const nodeUid of analysis.deadEnds) {
+    features.push({
+      type: 'Feature',
+      geometry: toPoint(nodeUid),
+      properties: { type: 'deadEnd', nodeUid: nodeUid.toString(16) },
+    });
+  }
+  for (const { nodeUid, direction } of analysis.entryOnly) {
+    features.push({
+      type: 'Feature',
+      geometry: toPoint(nodeUid),
+      properties: {
+        type: 'entryOnly',
+        nodeUid: nodeUid.toString(16),
+        direction,
+      },
+    });
+  }
+  for (const { nodeUid, ...company } of analysis.unreachableCompanies) {
+    features.push({
+      type: 'Feature',
+      geometry: toPoint(nodeUid),
+      properties: {
+        type: 'unreachableCompany',
+        nodeUid: nodeUid.toString(16),
+        ...company,
+      },
+    });
+  }
+
+  return {
+    type: 'FeatureCollection',
+    features: features.map(normalizeFeature),
+  };
+}
+
+/**
+ * Converts `graph` into a graph of node states, where node `i`'s forward
+ * state has index `i * 2`, and its backward state has index `i * 2 + 1`.
+ */
+function toStateGraph(graph: ReadonlyMap<bigint, Neighbors>): {
+  nodeUids: bigint[];
+  outgoing: number[][];
+  incoming: number[][];
+} {
+  const nodeUids: bigint[] = [];
+  const nodeIndices = new Map<bigint, number>();
+  const outgoing: number[][] = [];
+  const incoming: number[][] = [];
+  const getIndex = (nodeUid: bigint) => {
+    let index = nodeIndices.get(nodeUid);
+    if (index == null) {
+      index = nodeUids.length;
+      nodeUids.push(nodeUid);
+      nodeIndices.set(nodeUid, index);
+      outgoing.push([], []);
+      incoming.push([], []);
+    }
+    return index;
+  };
+
+  for (const [nodeUid, neighbors] of graph) {
+    const index = getIndex(nodeUid);
+    for (const direction of ['forward', 'backward'] as const) {
+      const from = index * 2 + (direction === 'forward' ? 0 : 1);
+      for (const neighbor of neighbors[direction]) {
+        const to =
+          getIndex(neighbor.nodeUid) * 2 +
+          (neighbor.direction === 'forward' ? 0 : 1);
+        outgoing[from].push(to);
+        incoming[to].push(from);
+      }
+    }
+  }
+  return { nodeUids, outgoing, incoming };
+}
+
+function toNodeState(nodeUids: bigint[], state: number): NodeState {
+  return {
+    nodeUid: nodeUids[state >> 1],
+    direction: state % 2 === 0 ? 'forward' : 'backward',
+  };
+}
+
+/**
+ * Returns the id of the strongly connected component each state belongs to,
+ * using an iterative version of Tarjan's algorithm (graphs are too deep for a
+ * recursive version).
+ */
+function findComponents(outgoing: number[][]): number[] {
+  const numStates = outgoing.length;
+  const indices = new Array<number>(numStates).fill(-1);
+  const lowLinks = new Array<number>(numStates).fill(0);
+  const onStack = new Array<boolean>(numStates).fill(false);
+  const componentIds = new Array<number>(numStates).fill(-1);
+  const stack: number[] = [];
+  let nextIndex = 0;
+  let nextComponentId = 0;
+
+  for (let root = 0; root < numStates; root++) {
+    if (indices[root] !== -1) {
+      continue;
+    }
+    // [state, index of the next edge to visit]
+    const callStack: [number, number][] = [[root, 0]];
+    indices[root] = lowLinks[root] = nextIndex++;
+    stack.push(root);
+    onStack[root] = true;
+
+    while (callStack.length) {
+      const frame = callStack[callStack.length - 1];
+      const [state, edgeIndex] = frame;
+      if (edgeIndex < outgoing[state].length) {
+        frame[1]++;
+        const to = outgoing[state][edgeIndex];
+        if (indices[to] === -1) {
+          indices[to] = lowLinks[to] = nextIndex++;
+          stack.push(to);
+          onStack[to] = true;
+          callStack.push([to, 0]);
+        } else if (onStack[to]) {
+          lowLinks[state] = Math.min(lowLinks[state], indices[to]);
+        }
+        continue;
+      }
+
+      callStack.pop();
+      if (callStack.length) {
+        const [parent] = callStack[callStack.length - 1];
+        lowLinks[parent] = Math.min(lowLinks[parent], lowLinks[state]);
+      }
+      if (lowLinks[state] === indices[state]) {
+        let member: number;
+        do {
+          member = stack.pop()!;
+          onStack[member] = false;
+          componentIds[member] = nextComponentId;
+        } while (member !== state);
+        nextComponentId++;
+      }
+    }
+  }
+  return componentIds;
+}
+
+/** Returns whether each state is reachable from `sources` via `edges`. */
+function markReachable(edges: number[][], sources: number[]): boolean[] {
+  const reachable = new Array<boolean>(edges.length).fill(false);
+  const queue = [...sources];
+  for (const source of sources) {
+    reachable[source] = true;
+  }
+  while (queue.length) {
+    const state = queue.pop()!;
+    for (const to of edges[state]) {
+      if (!reachable[to]) {
+        reachable[to] = true;
+        queue.push(to);
+      }
+    }
+  }
+  return reachable;
+}
@@ -0,0 +1,150 @@
+import { putIfAbsent } from '@truckermudgeon/base/map';
+import type { Context } from '@truckermudgeon/map/routing';
+import { reachable } from '@truckermudgeon/map/routing';
+import type {
+  Cargo,
+  CargoFlow,
+  CompanyItem,
+  DemoCargoFlowsData,
+} from '@truckermudgeon/map/types';
+import * as cliProgress from 'cli-progress';
+import { logger } from '../logger';
+import type { MappedDataForKeys } from '../mapped-data';
+
+type CargoFlowsMappedData = MappedDataForKeys<
+  ['companies', 'companyDefs', 'cargos']
+>;
+
+/**
+ * Returns the cargo flows for the companies in `context`'s graph: the cargos
+ * each company ships, and the companies (within `maxDistance` meters by road)
+ * that accept them.
+ */
+export function toCargoFlows(
+  tsMapData: CargoFlowsMappedData,
+  context: Context,
+  maxDistance: number,
+): CargoFlow[] {
+  const { companies, companyDefs, cargos } = tsMapData;
+  const eligibleCompanies = [...companies.values()].filter(c =>
+    context.nodeLUT.has(c.nodeUid),
+  );
+
+  // company defs reference cargos by their `cargo.`-prefixed tokens.
+  const toCargoToken = (token: string) => token.replace(/^cargo\./, '');
+  const unknownCargos = new Set<string>();
+  const isKnownCargo = (token: string) => {
+    if (cargos.has(token)) {
+      return true;
+    }
+    if (!unknownCargos.has(token)) {
+      unknownCargos.add(token);
+      logger.warn('unknown cargo', token);
+    }
+    return false;
+  };
+
+  const companiesByCargoIn = new Map<string, CompanyItem[]>();
+  for (const company of eligibleCompanies) {
+    const cargoInTokens = companyDefs.get(company.token)?.cargoInTokens ?? [];
+    for (const cargoIn of cargoInTokens.map(toCargoToken)) {
+      putIfAbsent(cargoIn, [], companiesByCargoIn).push(company);
+    }
+  }
+
+  const bar = new cliProgress.SingleBar(
+    {
+      format: `[{bar}] | {value} of {total}`,
+      stopOnComplete: true,
+      clearOnComplete: true,
+    },
+    cliProgress.Presets.rect,
+  );
+  bar.start(eligibleCompanies.length, 0);
+
+  const cargoFlows: CargoFlow[] = [];
+  for (const company of eligibleCompanies) {
+    bar.increment();
+    const cargoOutTokens = (
+      companyDefs.get(company.token)?.cargoOutTokens ?? []
+    )
+      .map(toCargoToken)
+      .filter(isKnownCargo);
+    if (cargoOutTokens.length === 0) {
+      continue;
+    }
+
+    const distances = reachable(
+      company.nodeUid,
+      { distance: maxDistance },
+      context,
+    );
+    const destinationsByCargo = new Map<string, CompanyItem[]>();
+    for (const cargo of cargoOutTokens) {
+      const destinations = (companiesByCargoIn.get(cargo) ?? []).filter(
+        dest => dest.uid !== company.uid && distances.has(dest.nodeUid),
+      );
+      if (destinations.length) {
+        destinationsByCargo.set(cargo, destinations);
+      }
+    }
+    if (destinationsByCargo.size === 0) {
+      continue;
+    }
+
+    const destinations = [
+      ...new Set([...destinationsByCargo.values()].flat()),
+    ].sort((a, b) => distances.get(a.nodeUid)! - distances.get(b.nodeUid)!);
+    const indices = new Map(destinations.map((dest, i) => [dest, i]));
+    cargoFlows.push({
+      company: company.token,
+      city: company.cityToken,
+      nodeUid: company.nodeUid,
+      destinations: destinations.map(dest => ({
+        company: dest.token,
+        city: dest.cityToken,
+        nodeUid: dest.nodeUid,
+        distance: Math.round(distances.get(dest.nodeUid)!),
+      })),
+      cargos: Object.fromEntries(
+        [...destinationsByCargo].map(([cargo, dests]) => [
+          cargo,
+          dests.map(dest => indices.get(dest)!).sort((a, b) => a - b),
+        ]),
+      ),
+    });
+  }
+
+  return cargoFlows;
+}
+
+/** Converts cargo flows into the compact form used by the demo app. */
+export function toDemoCargoFlows(
+  cargoFlows: readonly CargoFlow[],
+  cargos: ReadonlyMap<string, Cargo>,
+): DemoCargoFlowsData {
+  const toHex = (nodeUid: bigint) => nodeUid.toString(16);
+  const cargoTokens = new Set(cargoFlows.flatMap(f => Object.keys(f.cargos)));
+  return {
+    demoCargos: [...cargoTokens].flatMap(token => {
+      const cargo = cargos.get(token);
+      return cargo
+        ? [
+            {
+              t: cargo.token,
+              n: cargo.name,
+              m: cargo.mass,
+              v: cargo.value,
+              a: cargo.adrClass,
+              f: cargo.fragility,
+            },
+          ]
+        : [];
+    }),
+    demoCargoFlows: cargoFlows.map(flow => ({
+      n: toHex(flow.nodeUid),
+      d: flow.destinations.map(dest => [toHex(dest.nodeUid), dest.distance]),
+      c: flow.cargos,
+    })),
+  };
+}
@@ -1,12 +1,15 @@
+import { Preconditions } from '@truckermudgeon/base/precon';
+import type { GraphData } from '@truckermudgeon/map/binary-graph';
 import {
   AtsSelectableDlcs,
   toAtsDlcGuards,
 } from '@truckermudgeon/map/constants';
+import type { Landmarks } from '@truckermudgeon/map/landmarks';
 import {
   fromAtsCoordsToWgs84,
   fromEts2CoordsToWgs84,
 } from '@truckermudgeon/map/projections';
-import type { Route } from '@truckermudgeon/map/routing';
+import type { Context, PartialNode, Route } from '@truckermudgeon/map/routing';
 import type { CompanyItem, Neighbors } from '@truckermudgeon/map/types';
 import * as cliProgress from 'cli-progress';
 import Tinypool from 'tinypool';
@@ -19,12 +22,74 @@ interface CompanySummary {
   latLng: string;
 }
 
-interface Unrouteable {
-  numIters: number;
+export interface RouteCheck {
   start: CompanySummary;
   end: CompanySummary;
+  success: boolean;
+  /** Route distance, in meters. Only set for successful routes. */
+  distance?: number;
+  /** Only set for unsuccessful routes. */
+  numIters?: number;
 }
 
+export interface Regression {
+  start: CompanySummary;
+  end: CompanySummary;
+  /**
+   * 'unrouteable' if a route could be found in the baseline graph but not in
+   * the checked graph; 'distance' if a route's length changed by more than the
+   * allowed threshold.
+   */
+  type: 'unrouteable' | 'distance';
+  /** Baseline route distance, in meters. */
+  before: number;
+  /** Checked route distance, in meters. Only set for 'distance' regressions. */
+  after?: number;
+}
+
+export interface CheckGraphResults {
+  map: 'usa' | 'europe';
+  /** The seed used to pick companies, so that checks can be reproduced. */
+  seed: number;
+  checks: RouteCheck[];
+  /** Only set if a baseline graph was checked. */
+  regressions?: Regression[];
+}
+
+export interface CheckGraphOptions {
+  /**
+   * Seed used to pick companies. If not set, a random seed is picked (and
+   * included in the results).
+   */
+  seed?: number;
+  /**
+   * Companies to check routes to and from, in `token.cityToken` format. If not
+   * set, a single company is picked using `seed`.
+   */
+  origins?: readonly string[];
+  /**
+   * If set, routes between all pairs of `numCities` cities picked using
+   * `seed` are checked instead of routes to and from `origins`. Each city is
+   * represented by one of its companies.
+   */
+  numCities?: number;
+  landmarks?: Landmarks;
+  /**
+   * A graph (e.g., one built before a game update) to check the same routes
+   * against, for reporting regressions.
+   */
+  baseline?: GraphData;
+  /**
+   * The relative change in route distance that's reported as a regression.
+   * Defaults to 0.1 (10%).
+   */
+  regressionThreshold?: number;
+}
+
+type CheckContext = Omit<Context, 'nodeLUT'> & {
+  nodeLUT: ReadonlyMap<bigint, PartialNode>;
+};
+
 type CheckGraphMappedData = MappedDataForKeys<
   ['nodes', 'companies', 'prefabs', 'cities']
 >;
@@ -32,23 +97,176 @@ type CheckGraphMappedData = MappedDataForKeys<
 export async function checkGraph(
   graph: Map<bigint, Neighbors>,
   tsMapData: CheckGraphMappedData,
-) {
-  const { map, nodes, companies, prefabs, cities } = tsMapData;
+  options: CheckGraphOptions = {},
+): Promise<CheckGraphResults> {
+  const { map, nodes } = tsMapData;
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 32);
+  const pairs = planChecks(tsMapData, { ...options, seed });
+
+  logger.start('checking', pairs.length, `routes using seed ${seed}`);
+  const startTime = Date.now();
+  const checks = await runChecks(pairs, map, {
+    graph,
+    nodeLUT: nodes,
+    enabledDlcGuards: toAtsDlcGuards(AtsSelectableDlcs),
+    landmarks: options.landmarks,
+  });
+  const endTime = Date.now();
+  logger.info(
+    pairs.length,
+    'routes checked in',
+    `${((endTime - startTime) / 1000).toFixed(1)}s`,
+  );
+  const unrouteable = checks.filter(c => !c.success);
+  logger.warn(unrouteable.length, 'unrouteable trips\n', unrouteable);
+
+  const results: CheckGraphResults = { map, seed, checks };
+  if (options.baseline) {
+    logger.start('checking', pairs.length, 'routes against baseline graph');
+    const baselineChecks = await runChecks(pairs, map, {
+      ...options.baseline,
+      enabledDlcGuards: toAtsDlcGuards(AtsSelectableDlcs),
+    });
+    results.regressions = compareChecks(
+      baselineChecks,
+      checks,
+      options.regressionThreshold,
+    );
+    logger.warn(
+      results.regressions.length,
+      'regressions\n',
+      results.regressions,
+    );
+  }
+  return results;
+}
 
-  // check that all companies in known cities can be reached from some
-  // random company.
+/**
+ * Returns the [start, end] company pairs to check routes between. The same
+ * pairs are returned for the same map data and options.
+ */
+export function planChecks(
+  tsMapData: Pick<CheckGraphMappedData, 'companies' | 'prefabs' | 'cities'>,
+  options: Pick<CheckGraphOptions, 'origins' | 'numCities'> & { seed: number },
+): [CompanyItem, CompanyItem][] {
+  const { companies, prefabs, cities } = tsMapData;
+  const random = createRandom(options.seed);
   const allCompanies = [...companies.values()].filter(
     company => cities.has(company.cityToken) && prefabs.has(company.prefabUid),
   );
-  const originCompany =
-    allCompanies[Math.floor(Math.random() * allCompanies.length)];
+  Preconditions.checkState(allCompanies.length > 0, 'no companies to check');
 
-  logger.start(
-    'checking',
-    allCompanies.length * 2,
-    `routes against ${toString(originCompany)}`,
+  if (options.numCities != null) {
+    Preconditions.checkArgument(options.numCities > 0);
+    const companiesByCity = new Map<string, CompanyItem[]>();
+    for (const company of allCompanies) {
+      const cityCompanies = companiesByCity.get(company.cityToken) ?? [];
+      cityCompanies.push(company);
+      companiesByCity.set(company.cityToken, cityCompanies);
+    }
+    const representatives = shuffle([...companiesByCity.keys()].sort(), random)
+      .slice(0, options.numCities)
+      .map(city => pick(companiesByCity.get(city)!, random));
+    return representatives.flatMap(start =>
+      representatives
+        .filter(end => end !== start)
+        .map((end): [CompanyItem, CompanyItem] => [start, end]),
+    );
+  }
+
+  const origins = options.origins?.length
+    ? options.origins.map(origin =>
+        Preconditions.checkExists(
+          allCompanies.find(c => toString(c) === origin),
+          `unknown origin company: ${origin}`,
+        ),
+      )
+    : [pick(allCompanies, random)];
+  return origins.flatMap(origin =>
+    allCompanies.flatMap((company): [CompanyItem, CompanyItem][] => [
+      [origin, company],
+      [company, origin],
+    ]),
   );
-  const startTime = Date.now();
+}
+
+/**
+ * Compares `checks` against `baselineChecks` for the same routes, returning
+ * routes that became unrouteable, or whose distance changed by more than
+ * `threshold` (relative to the baseline distance).
+ */
+export function compareChecks(
+  baselineChecks: readonly RouteCheck[],
+  checks: readonly RouteCheck[],
+  threshold = 0.1,
+): Regression[] {
+  const toKey = (c: RouteCheck) => `${c.start.nodeUid}-${c.end.nodeUid}`;
+  const baselineByKey = new Map(baselineChecks.map(c => [toKey(c), c]));
+  const regressions: Regression[] = [];
+  for (const check of checks) {
+    const baseline = baselineByKey.get(toKey(check));
+    if (!baseline?.success) {
+      continue;
+    }
+    const { start, end } = check;
+    const before = baseline.distance!;
+    if (!check.success) {
+      regressions.push({ start, end, type: 'unrouteable', before });
+    } else if (Math.abs(check.distance! - before) > before * threshold) {
+      regressions.push({
+        start,
+        end,
+        type: 'distance',
+        before,
+        after: check.distance,
+      });
+    }
+  }
+  return regressions;
+}
+
+/** Converts `results` into a JUnit XML report. */
+export function toJUnitXml(results: CheckGraphResults): string {
+  const regressionsByKey = new Map(
+    (results.regressions ?? []).map(r => [
+      `${r.start.company} => ${r.end.company}`,
+      r,
+    ]),
+  );
+  const testCases = results.checks.map(check => {
+    const name = `${check.start.company} => ${check.end.company}`;
+    const regression = regressionsByKey.get(name);
+    let failure: string | undefined;
+    if (!check.success) {
+      failure = `unrouteable after ${check.numIters} iterations`;
+    } else if (regression) {
+      failure = `distance changed from ${regression.before.toFixed(0)}m to ${check.distance!.toFixed(0)}m`;
+    }
+    const attrs = `classname="${results.map}" name="${escapeXml(name)}"`;
+    return failure
+      ? `    <testcase ${attrs}>\n      <failure message="${escapeXml(failure)}"/>\n    </testcase>`
+      : `    <testcase ${attrs}/>`;
+  });
+  const numFailures = testCases.filter(t => t.includes('<failure')).length;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="checkGraph" tests="${testCases.length}" failures="${numFailures}">`,
+    `  <testsuite name="${results.map}-routes" tests="${testCases.length}" failures="${numFailures}">`,
+    '    <properties>',
+    `      <property name="seed" value="${results.seed}"/>`,
+    '    </properties>',
+    ...testCases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+async function runChecks(
+  pairs: readonly [CompanyItem, CompanyItem][],
+  map: 'usa' | 'europe',
+  routeContext: CheckContext,
+): Promise<RouteCheck[]> {
   const bar = new cliProgress.SingleBar(
     {
       format: `[{bar}] | {start} => {end}`,
@@ -57,57 +275,71 @@ export async function checkGraph(
     },
     cliProgress.Presets.rect,
   );
-  bar.start(allCompanies.length * 2, 0);
+  bar.start(pairs.length, 0);
 
   const pool = new Tinypool({
     filename: new URL('./find-route-worker-wrapper.js', import.meta.url).href,
-    workerData: {
-      routeContext: {
-        graph,
-        nodeLUT: nodes,
-        enabledDlcGuards: toAtsDlcGuards(AtsSelectableDlcs),
-      },
-    },
+    workerData: { routeContext },
   });
-  const promises: Promise<unknown>[] = [];
-  const unrouteable: Unrouteable[] = [];
-  for (const company of allCompanies) {
-    const pairings = [
-      [originCompany, company],
-      [company, originCompany],
-    ];
-    for (const [start, end] of pairings) {
-      promises.push(
-        pool
-          .run({
-            startNodeUid: start.nodeUid,
-            endNodeUid: end.nodeUid,
-          })
-          .then((route: Route) => {
-            if (!route.success) {
-              unrouteable.push({
-                numIters: route.numIters,
-                start: toSummary(start, map),
-                end: toSummary(end, map),
-              });
-            }
-          })
-          .finally(() => {
-            bar.increment({ start: toString(start), end: toString(end) });
-          }),
-      );
-    }
-  }
-  await Promise.all(promises);
+  const checks = await Promise.all(
+    pairs.map(async ([start, end]): Promise<RouteCheck> => {
+      const summaries = {
+        start: toSummary(start, map),
+        end: toSummary(end, map),
+      };
+      // baseline graphs may not contain nodes for newer companies.
+      if (
+        !routeContext.nodeLUT.has(start.nodeUid) ||
+        !routeContext.nodeLUT.has(end.nodeUid)
+      ) {
+        bar.increment({ start: toString(start), end: toString(end) });
+        return { ...summaries, success: false, numIters: 0 };
+      }
+      const route = (await pool
+        .run({ startNodeUid: start.nodeUid, endNodeUid: end.nodeUid })
+        .finally(() => {
+          bar.increment({ start: toString(start), end: toString(end) });
+        })) as Route;
+      return route.success
+        ? { ...summaries, success: true, distance: route.distance }
+        : { ...summaries, success: false, numIters: route.numIters };
+    }),
+  );
   await pool.destroy();
+  return checks;
+}
 
-  const endTime = Date.now();
-  logger.info(
-    allCompanies.length * 2,
-    'routes checked in',
-    `${((endTime - startTime) / 1000).toFixed(1)}s`,
-  );
-  logger.warn(unrouteable.length, 'unrouteable trips\n', unrouteable);
+/** Returns a seeded pseudo-random number generator (mulberry32). */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+}
+
+function pick<T>(array: readonly T[], random: () => number): T {
+  return array[Math.floor(random() * array.length)];
+}
+
+/** Fisher-Yates shuffles `array` in place. */
+function shuffle<T>(array: T[], random: () => number): T[] {
+  for (let i = array.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [array[i], array[j]] = [array[j], array[i]];
+  }
+  return array;
+}
+
+function escapeXml(str: string): string {
+  return str
+    .replaceAll('&', '&amp;')
+    .replaceAll('"', '&quot;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;');
 }
 
 function toSummary(c: CompanyItem, map: 'usa' | 'europe'): CompanySummary {
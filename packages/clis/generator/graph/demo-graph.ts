@@ -1,26 +1,36 @@
 import { assertExists } from '@truckermudgeon/base/assert';
 import { mapValues, putIfAbsent } from '@truckermudgeon/base/map';
-import { fromAtsCoordsToWgs84 } from '@truckermudgeon/map/projections';
+import { toStopCandidates } from '@truckermudgeon/map/stops';
 import type {
   Company,
   DemoCompany,
   DemoCompanyDef,
-  DemoNeighbor,
-  DemoNeighbors,
   DemoRoutesData,
-  Neighbor,
+  DemoSpecialTransportRoute,
+  DemoStop,
   Neighbors,
 } from '@truckermudgeon/map/types';
 import type { MappedDataForKeys } from '../mapped-data';
+import { toSpecialTransportRoutes } from './special-transport';
 
 type DemoGraphMappedData = MappedDataForKeys<
-  ['nodes', 'companies', 'companyDefs']
+  [
+    'companies',
+    'companyDefs',
+    'pois',
+    'prefabs',
+    'nodes',
+    'trajectories',
+    'routes',
+  ]
 >;
 
 export function toDemoGraph(
   graph: Map<bigint, Neighbors>,
   tsMapData: DemoGraphMappedData,
 ): DemoRoutesData {
+  const { companies, companyDefs, pois, prefabs } = tsMapData;
+  const toHex = (nodeUid: bigint) => nodeUid.toString(16);
   const allNodeUids = new Set<bigint>();
   for (const [nodeUid, neighbors] of graph.entries()) {
     allNodeUids.add(nodeUid);
@@ -29,36 +39,9 @@ export function toDemoGraph(
     }
   }
 
-  // Re-map node uids to shorter base36 numbers.
-  let idCount = 0;
-  const nodeUidMap = new Map(
-    [...allNodeUids].map(nodeUid => [nodeUid, (idCount++).toString(36)]),
-  );
-
-  const { companies, companyDefs, nodes } = tsMapData;
-
   // the demo app needs:
-  // * graph with re-mapped node uids, and minimized data (shorter prop keys, elided props)
-  const demoGraph = new Map<string, DemoNeighbors>();
-  for (const [nodeUid, neighbors] of graph.entries()) {
-    demoGraph.set(
-      assertExists(nodeUidMap.get(nodeUid)),
-      toDemoNeighbors(neighbors, nodeUidMap),
-    );
-  }
-
-  // * nodes with re-mapped node uids and position info
-  const demoNodes = new Map<string, [number, number]>();
-  for (const uid of allNodeUids) {
-    const node = assertExists(nodes.get(uid));
-    const remappedId = assertExists(nodeUidMap.get(uid));
-    const [x, y] = fromAtsCoordsToWgs84([node.x, node.y]).map(n =>
-      Number(n.toFixed(3)),
-    );
-    demoNodes.set(remappedId, [x, y]);
-  }
-
-  // * companies with re-mapped node uids, and node uids of other companies they can deliver to
+  // * companies whose nodes are in the graph, and node uids of other
+  //   companies they can deliver to
   const eligibleCompanies = [...companies.values()].filter(c =>
     allNodeUids.has(c.nodeUid),
   );
@@ -71,7 +54,7 @@ export function toDemoGraph(
   }
 
   const demoCompanies: DemoCompany[] = eligibleCompanies.map(company => ({
-    n: assertExists(nodeUidMap.get(company.nodeUid)),
+    n: toHex(company.nodeUid),
     t: company.token,
     c: company.cityToken,
   }));
@@ -89,36 +72,30 @@ export function toDemoGraph(
     }),
   );
 
-  return {
-    demoGraph: [...demoGraph.entries()],
-    demoNodes: [...demoNodes.entries()],
-    demoCompanies,
-    demoCompanyDefs: [...demoCompanyDefs.values()],
-  };
-}
+  // * fuel and rest stops
+  const demoStops: DemoStop[] = toStopCandidates(pois, prefabs, graph).map(
+    stop => ({
+      n: toHex(stop.nodeUid),
+      s: stop.types.map(type => (type === 'fuel' ? 'f' : 'r')),
+    }),
+  );
 
-function toDemoNeighbors(
-  neighbors: Neighbors,
-  nodeUidMap: Map<bigint, string>,
-): DemoNeighbors {
-  const { forward, backward } = neighbors;
-  const toNeighbor = (n: Neighbor): DemoNeighbor =>
-    toDemoNeighbor(n, nodeUidMap);
-  return {
-    f: forward.length ? forward.map(toNeighbor) : undefined,
-    b: backward.length ? backward.map(toNeighbor) : undefined,
-  };
-}
+  // * special transport routes, with lines rounded to the nearest meter.
+  const demoSpecialTransportRoutes: DemoSpecialTransportRoute[] =
+    toSpecialTransportRoutes(graph, tsMapData).map(route => ({
+      t: route.token,
+      f: route.fromCity,
+      d: route.toCity,
+      n: route.nodeUids.map(toHex),
+      l: route.lines.map(line =>
+        line.map(([x, y]) => [Math.round(x), Math.round(y)]),
+      ),
+    }));
 
-function toDemoNeighbor(
-  neighbor: Neighbor,
-  nodeUidMap: Map<bigint, string>,
-): DemoNeighbor {
   return {
-    n: assertExists(nodeUidMap.get(neighbor.nodeUid)),
-    l: Math.round(neighbor.distance),
-    o: neighbor.isOneLaneRoad,
-    d: neighbor.direction[0] as 'f' | 'b',
-    g: neighbor.dlcGuard,
+    demoCompanies,
+    demoCompanyDefs: [...demoCompanyDefs.values()],
+    demoStops,
+    demoSpecialTransportRoutes,
   };
 }
@@ -3,18 +3,29 @@ import { distance } from '@truckermudgeon/base/geom';
 import { mapValues, putIfAbsent } from '@truckermudgeon/base/map';
 import { Preconditions, UnreachableError } from '@truckermudgeon/base/precon';
 import { ItemType } from '@truckermudgeon/map/constants';
-import { calculateNodeConnections } from '@truckermudgeon/map/prefabs';
+import { toBaseIconName } from '@truckermudgeon/map/icons';
+import type { NodeConnection } from '@truckermudgeon/map/prefabs';
+import { calculateNodeConnectionPaths } from '@truckermudgeon/map/prefabs';
 import type { Direction } from '@truckermudgeon/map/routing';
 import type {
   CompanyItem,
   Neighbor,
   Node,
+  Poi,
   Prefab,
 } from '@truckermudgeon/map/types';
 import { quadtree } from 'd3-quadtree';
 import { dlcGuardMapDataKeys, normalizeDlcGuards } from '../dlc-guards';
 import { logger } from '../logger';
 import type { MapDataKeys, MappedDataForKeys } from '../mapped-data';
+import type { SpeedLimitLookup } from './speed-limits';
+import {
+  companySpeedLimit,
+  createSpeedLimitLookup,
+  getLaneSpeedClass,
+  isHighwaySpeedClass,
+  toDuration,
+} from './speed-limits';
 
 type GraphContextMappedData = MappedDataForKeys<
   [
@@ -29,9 +40,12 @@ type GraphContextMappedData = MappedDataForKeys<
 >;
 
 type Context = GraphContextMappedData & {
-  prefabConnections: Map<string, Map<number, number[]>>;
+  prefabConnections: Map<string, Map<number, NodeConnection[]>>;
   companiesByPrefabItemId: Map<bigint, CompanyItem>;
+  /** Uids of prefabs with toll gates. */
+  tollPrefabUids: ReadonlySet<bigint>;
   getDlcGuard: (node: Node) => number;
+  getSpeedLimit: SpeedLimitLookup;
 };
 
 export const graphMapDataKeys = [
@@ -41,6 +55,7 @@ export const graphMapDataKeys = [
   'prefabDescriptions',
   'roadLooks',
   'cities',
+  'countries',
 ] satisfies MapDataKeys;
 
 type GraphMappedData = MappedDataForKeys<typeof graphMapDataKeys>;
@@ -53,6 +68,7 @@ export function generateGraph(tsMapData: GraphMappedData) {
     prefabs: _prefabs,
     companies: _companies,
     ferries,
+    pois,
     prefabDescriptions,
     roadLooks,
     dlcGuardQuadTree,
@@ -159,12 +175,17 @@ export function generateGraph(tsMapData: GraphMappedData) {
     prefabs,
     prefabDescriptions,
     prefabConnections: mapValues(prefabDescriptions, prefabDesc =>
-      calculateNodeConnections(prefabDesc),
+      calculateNodeConnectionPaths(prefabDesc),
     ),
     companies,
     companiesByPrefabItemId,
+    tollPrefabUids: findTollPrefabs(pois, prefabs),
     ferries,
     getDlcGuard,
+    getSpeedLimit: createSpeedLimitLookup(
+      tsMapData.countries,
+      tsMapData.cities,
+    ),
   };
 
   logger.log('building graph...');
@@ -301,20 +322,56 @@ export function generateGraph(tsMapData: GraphMappedData) {
     // establish edges from company node to closest node
     graph.set(companyNode.uid, {
       forward: [
-        createNeighbor(companyNode, closest, 'forward', getDlcGuard),
-        createNeighbor(companyNode, closest, 'backward', getDlcGuard),
+        createNeighbor(
+          companyNode,
+          closest,
+          'forward',
+          getDlcGuard,
+          () => companySpeedLimit,
+        ),
+        createNeighbor(
+          companyNode,
+          closest,
+          'backward',
+          getDlcGuard,
+          () => companySpeedLimit,
+        ),
       ],
       backward: [],
     });
     // establish edges from closest node to company node
     const neighbors = graph.get(closest.uid)!;
     neighbors.forward.push(
-      createNeighbor(closest, companyNode, 'forward', getDlcGuard),
-      createNeighbor(closest, companyNode, 'backward', getDlcGuard),
+      createNeighbor(
+        closest,
+        companyNode,
+        'forward',
+        getDlcGuard,
+        () => companySpeedLimit,
+      ),
+      createNeighbor(
+        closest,
+        companyNode,
+        'backward',
+        getDlcGuard,
+        () => companySpeedLimit,
+      ),
     );
     neighbors.backward.push(
-      createNeighbor(closest, companyNode, 'forward', getDlcGuard),
-      createNeighbor(closest, companyNode, 'backward', getDlcGuard),
+      createNeighbor(
+        closest,
+        companyNode,
+        'forward',
+        getDlcGuard,
+        () => companySpeedLimit,
+      ),
+      createNeighbor(
+        closest,
+        companyNode,
+        'backward',
+        getDlcGuard,
+        () => companySpeedLimit,
+      ),
     );
   }
 
@@ -331,6 +388,7 @@ export function generateGraph(tsMapData: GraphMappedData) {
       hackNeighbors.forward.push({
         nodeUid: 0x3301e888b6855e83n,
         distance: 32,
+        duration: toDuration(32, companySpeedLimit),
         direction: 'forward',
         dlcGuard: 13, // The DLC Guard value for Colorado, which is where Lamar is.
       });
@@ -363,8 +421,16 @@ function updateGraphWithFerries(
   >,
   context: Context,
 ) {
-  const { nodes, roads, prefabs, prefabDescriptions, ferries, getDlcGuard } =
-    context;
+  const {
+    nodes,
+    roads,
+    prefabs,
+    prefabDescriptions,
+    ferries,
+    getDlcGuard,
+    getSpeedLimit,
+  } = context;
+  const getLocalSpeedLimit = (node: Node) => getSpeedLimit(node, 'localRoad');
   const roadQuadtree = quadtree<{
     x: number;
     y: number;
@@ -425,8 +491,20 @@ function updateGraphWithFerries(
     // establish edges from closest road to ferry
     // TODO look into simplying graph by only having one direction to/from ferry
     const roadToFerryEdges: readonly Neighbor[] = [
-      createNeighbor(road, ferryNode, 'forward', getDlcGuard),
-      createNeighbor(road, ferryNode, 'backward', getDlcGuard),
+      createNeighbor(
+        road,
+        ferryNode,
+        'forward',
+        getDlcGuard,
+        getLocalSpeedLimit,
+      ),
+      createNeighbor(
+        road,
+        ferryNode,
+        'backward',
+        getDlcGuard,
+        getLocalSpeedLimit,
+      ),
     ];
     const roadNeighbors = graph.get(road.nodeUid);
     if (!roadNeighbors) {
@@ -453,8 +531,20 @@ function updateGraphWithFerries(
 
     // establish edges from origin ferry to closet road
     const ferryToRoadEdges: readonly Neighbor[] = [
-      createNeighbor(ferryNode, roadNode, 'forward', getDlcGuard),
-      createNeighbor(ferryNode, roadNode, 'backward', getDlcGuard),
+      createNeighbor(
+        ferryNode,
+        roadNode,
+        'forward',
+        getDlcGuard,
+        getLocalSpeedLimit,
+      ),
+      createNeighbor(
+        ferryNode,
+        roadNode,
+        'backward',
+        getDlcGuard,
+        getLocalSpeedLimit,
+      ),
     ];
     ferryNeighbors.forward.push(...ferryToRoadEdges);
     ferryNeighbors.backward.push(...ferryToRoadEdges);
@@ -468,18 +558,22 @@ function updateGraphWithFerries(
       }
 
       // establish edges from origin ferry to destination ferry
-      const ferryToFerryEdges: readonly Neighbor[] = [
-        {
-          ...createNeighbor(ferryNode, otherFerryNode, 'forward', getDlcGuard),
-          distance: connection.distance,
-          isFerry: true,
-        },
-        {
-          ...createNeighbor(ferryNode, otherFerryNode, 'backward', getDlcGuard),
-          distance: connection.distance,
-          isFerry: true,
-        },
-      ];
+      const ferryToFerryEdges: readonly Neighbor[] = (
+        ['forward', 'backward'] as const
+      ).map(direction => ({
+        ...createNeighbor(
+          ferryNode,
+          otherFerryNode,
+          direction,
+          getDlcGuard,
+          getLocalSpeedLimit,
+        ),
+        distance: connection.distance,
+        // connection times are in minutes.
+        duration: connection.time * 60,
+        isFerry: true,
+        ...(ferry.train ? { isTrain: true } : {}),
+      }));
       ferryNeighbors.forward.push(...ferryToFerryEdges);
       ferryNeighbors.backward.push(...ferryToFerryEdges);
     }
@@ -503,23 +597,46 @@ function getNeighborsInDirection(
     return [];
   }
 
+  // a node with different countries on either side is on a border, so edges
+  // that leave it (in either direction) cross that border.
+  const crossesBorder =
+    node.forwardCountryId !== 0 &&
+    node.backwardCountryId !== 0 &&
+    node.forwardCountryId !== node.backwardCountryId;
   const toNeighbor = (
     nextNode: Node,
     options: {
       distance?: number;
       direction?: 'forward' | 'backward';
       isOneLaneRoad?: true;
+      isHighway?: true;
+      isToll?: true;
+      // in km/h
+      speedLimit?: number;
+      connection?: NodeConnection;
     } = {},
   ): Neighbor => {
     const dist =
       options.distance ?? distance([nextNode.x, nextNode.y], [node.x, node.y]);
     const dir = options.direction ?? direction;
+    const speedLimit =
+      options.speedLimit ?? context.getSpeedLimit(node, 'localRoad');
     return {
       nodeUid: nextNode.uid,
       distance: dist,
+      duration: toDuration(dist, speedLimit),
       direction: dir,
       isOneLaneRoad: options.isOneLaneRoad,
       dlcGuard: context.getDlcGuard(nextNode),
+      ...(options.isHighway ? { isHighway: true } : {}),
+      ...(options.isToll ? { isToll: true } : {}),
+      ...(crossesBorder ? { crossesBorder: true } : {}),
+      ...(options.connection
+        ? {
+            lanes: options.connection.lanes,
+            navCurves: options.connection.navCurves,
+          }
+        : {}),
     };
   };
 
@@ -539,10 +656,9 @@ function getNeighborsInDirection(
         // Skip if road look doesn't exist
         return [];
       }
-      const lanesInDirection =
-        direction === 'forward'
-          ? roadLook.lanesRight.length
-          : roadLook.lanesLeft.length;
+      const lanes =
+        direction === 'forward' ? roadLook.lanesRight : roadLook.lanesLeft;
+      const lanesInDirection = lanes.length;
       if (lanesInDirection === 0) {
         // can't go in direction.
         return [];
@@ -553,10 +669,13 @@ function getNeighborsInDirection(
         // Skip if destination node doesn't exist
         return [];
       }
+      const speedClass = getLaneSpeedClass(lanes);
       return [
         toNeighbor(nextNode, {
           distance: item.length,
           isOneLaneRoad: lanesInDirection === 1 ? true : undefined,
+          isHighway: isHighwaySpeedClass(speedClass) ? true : undefined,
+          speedLimit: context.getSpeedLimit(node, speedClass),
         }),
       ];
     }
@@ -566,23 +685,25 @@ function getNeighborsInDirection(
       if (companyItem) {
         const nextNode = context.nodes.get(companyItem.nodeUid);
         if (nextNode) {
-          neighbors.push(toNeighbor(nextNode));
+          neighbors.push(
+            toNeighbor(nextNode, { speedLimit: companySpeedLimit }),
+          );
         }
       }
 
-      const connectionIndices = context.prefabConnections.get(item.token);
-      if (!connectionIndices) {
+      const prefabConnections = context.prefabConnections.get(item.token);
+      if (!prefabConnections) {
         // prefab has no connection data, possibly due to missing prefab description
         return neighbors;
       }
-      if (!connectionIndices.size) {
+      if (!prefabConnections.size) {
         // prefab has no internal roads connecting its nodes,
         // e.g., in company depots.
         return neighbors;
       }
 
       const connectionNodes = convertToNodeMap(
-        connectionIndices,
+        prefabConnections,
         item,
         context.nodes,
       );
@@ -597,9 +718,11 @@ function getNeighborsInDirection(
       }
       return [
         ...neighbors,
-        // TODO calculate lengths based on navCurves
-        ...connections.map(nextNode =>
+        ...connections.map(({ nextNode, connection }) =>
           toNeighbor(nextNode, {
+            distance: connection.length,
+            connection,
+            isToll: context.tollPrefabUids.has(item.uid) ? true : undefined,
             direction:
               getNeighborItemId(node) === getNeighborItemId(nextNode)
                 ? direction === 'forward'
@@ -637,8 +760,11 @@ function getNeighborsInDirection(
             ),
         );
       return prefabNodes.flatMap(nextNode => [
-        toNeighbor(nextNode),
-        toNeighbor(nextNode, { direction: 'backward' }),
+        toNeighbor(nextNode, { speedLimit: companySpeedLimit }),
+        toNeighbor(nextNode, {
+          direction: 'backward',
+          speedLimit: companySpeedLimit,
+        }),
       ]);
     }
     default:
@@ -646,12 +772,42 @@ function getNeighborsInDirection(
   }
 }
 
+// Max distance, in meters, between a toll gate's map icon and its prefab.
+const tollIconRadius = 50;
+
+/** Returns the uids of the prefabs closest to toll gate map icons. */
+function findTollPrefabs(
+  pois: readonly Poi[],
+  prefabs: ReadonlyMap<bigint, Prefab>,
+): Set<bigint> {
+  const prefabQuadtree = quadtree<Prefab>()
+    .x(p => p.x)
+    .y(p => p.y)
+    .addAll([...prefabs.values()]);
+  const tollPrefabUids = new Set<bigint>();
+  for (const poi of pois) {
+    if (poi.type !== 'road' || toBaseIconName(poi.icon) !== 'toll_ico') {
+      continue;
+    }
+    const prefab = prefabQuadtree.find(poi.x, poi.y, tollIconRadius);
+    if (prefab) {
+      tollPrefabUids.add(prefab.uid);
+    } else {
+      logger.warn('no prefab found for toll gate at', poi.x, poi.y);
+    }
+  }
+  return tollPrefabUids;
+}
+
 function convertToNodeMap(
-  connectionIndices: Map<number, number[]>,
+  prefabConnections: Map<number, NodeConnection[]>,
   item: Prefab,
   nodes: ReadonlyMap<bigint, Node>,
-): Map<Node, Node[]> {
-  const nodeMap = new Map<Node, Node[]>();
+): Map<Node, { nextNode: Node; connection: NodeConnection }[]> {
+  const nodeMap = new Map<
+    Node,
+    { nextNode: Node; connection: NodeConnection }[]
+  >();
   // Filter out undefined nodes before rotating
   const nodeArray = item.nodeUids
     .map(id => nodes.get(id))
@@ -663,7 +819,7 @@ function convertToNodeMap(
     nodeArray,
     item.originNodeIndex % nodeArray.length, // Ensure the index is within bounds
   );
-  for (const [nodeIdx, cnxIdxs] of connectionIndices) {
+  for (const [nodeIdx, connections] of prefabConnections) {
     // Check if the node exists before accessing it
     if (
       nodeIdx >= destinationNodes.length ||
@@ -672,18 +828,17 @@ function convertToNodeMap(
       continue;
     }
     const node = destinationNodes[nodeIdx];
-    const neighbors = cnxIdxs
-      .map(idx => {
-        // Check if the neighbor node exists before accessing it
-        if (
-          idx >= destinationNodes.length ||
-          destinationNodes[idx] === undefined
-        ) {
-          return undefined;
-        }
-        return destinationNodes[idx];
-      })
-      .filter((node): node is Node => node !== undefined);
+    const neighbors = connections.flatMap(connection => {
+      const idx = connection.endNodeIndex;
+      // Check if the neighbor node exists before accessing it
+      if (
+        idx >= destinationNodes.length ||
+        destinationNodes[idx] === undefined
+      ) {
+        return [];
+      }
+      return [{ nextNode: destinationNodes[idx], connection }];
+    });
 
     nodeMap.set(node, neighbors);
   }
@@ -705,10 +860,13 @@ function createNeighbor(
   toNode: Node,
   direction: Direction,
   getDlcGuard: (n: Node) => number,
+  getSpeedLimit: (n: Node) => number,
 ): Neighbor {
+  const dist = distance(from, toNode);
   return {
     nodeUid: toNode.uid,
-    distance: distance(from, toNode),
+    distance: dist,
+    duration: toDuration(dist, getSpeedLimit(toNode)),
     direction,
     dlcGuard: getDlcGuard(toNode),
   };
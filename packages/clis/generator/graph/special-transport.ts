@@ -0,0 +1,126 @@
+import { assertExists } from '@truckermudgeon/base/assert';
+import { putIfAbsent } from '@truckermudgeon/base/map';
+import type {
+  Neighbors,
+  SpecialTransportRoute,
+} from '@truckermudgeon/map/types';
+import { quadtree } from 'd3-quadtree';
+import { logger } from '../logger';
+import type { MappedDataForKeys } from '../mapped-data';
+
+type SpecialTransportMappedData = MappedDataForKeys<
+  ['nodes', 'trajectories', 'routes']
+>;
+
+// Max distance, in meters, between a trajectory and the graph nodes within its
+// corridor.
+const corridorRadius = 20;
+
+/**
+ * Returns the special transport routes described by `tsMapData`'s `routes`
+ * defs, with the graph nodes along the trajectory items whose checkpoints
+ * belong to each route.
+ */
+export function toSpecialTransportRoutes(
+  graph: ReadonlyMap<bigint, Neighbors>,
+  tsMapData: SpecialTransportMappedData,
+): SpecialTransportRoute[] {
+  const { nodes, trajectories, routes } = tsMapData;
+
+  const linesByRoute = new Map<string, [number, number][][]>();
+  for (const trajectory of trajectories.values()) {
+    const line = trajectory.nodeUids.flatMap(nodeUid => {
+      const node = nodes.get(nodeUid);
+      return node ? [[node.x, node.y] as [number, number]] : [];
+    });
+    if (line.length === 0) {
+      continue;
+    }
+    for (const route of new Set(trajectory.checkpoints.map(c => c.route))) {
+      if (!routes.has(route)) {
+        logger.warn('unknown special transport route', route);
+        continue;
+      }
+      putIfAbsent(route, [], linesByRoute).push(line);
+    }
+  }
+
+  const graphNodeUids = new Set<bigint>();
+  for (const [nodeUid, neighbors] of graph) {
+    graphNodeUids.add(nodeUid);
+    for (const neighbor of [...neighbors.forward, ...neighbors.backward]) {
+      graphNodeUids.add(neighbor.nodeUid);
+    }
+  }
+  const nodeQuadtree = quadtree<{ x: number; y: number; uid: bigint }>()
+    .x(n => n.x)
+    .y(n => n.y)
+    .addAll(
+      [...graphNodeUids].flatMap(uid => {
+        const node = nodes.get(uid);
+        return node ? [{ x: node.x, y: node.y, uid }] : [];
+      }),
+    );
+
+  const specialTransportRoutes: SpecialTransportRoute[] = [];
+  for (const [token, lines] of linesByRoute) {
+    const { fromCity, toCity } = assertExists(routes.get(token));
+    const nodeUids = new Set<bigint>();
+    for (const line of lines) {
+      // single-point lines are treated as zero-length segments.
+      for (let i = 0; i < Math.max(1, line.length - 1); i++) {
+        const a = line[i];
+        const b = line[Math.min(i + 1, line.length - 1)];
+        const x0 = Math.min(a[0], b[0]) - corridorRadius;
+        const y0 = Math.min(a[1], b[1]) - corridorRadius;
+        const x1 = Math.max(a[0], b[0]) + corridorRadius;
+        const y1 = Math.max(a[1], b[1]) + corridorRadius;
+        nodeQuadtree.visit((quad, qx0, qy0, qx1, qy1) => {
+          if (!quad.length) {
+            let leaf: typeof quad | undefined = quad;
+            do {
+              const node = leaf.data;
+              if (distanceToSegment([node.x, node.y], a, b) <= corridorRadius) {
+                nodeUids.add(node.uid);
+              }
+            } while ((leaf = leaf.next));
+          }
+          // skip quads that don't intersect the segment's bounds.
+          return qx0 > x1 || qy0 > y1 || qx1 < x0 || qy1 < y0;
+        });
+      }
+    }
+    if (nodeUids.size === 0) {
+      logger.warn('no graph nodes found for special transport route', token);
+      continue;
+    }
+    specialTransportRoutes.push({
+      token,
+      fromCity,
+      toCity,
+      nodeUids: [...nodeUids],
+      lines,
+    });
+  }
+  return specialTransportRoutes;
+}
+
+function distanceToSegment(
+  p: [number, number],
+  a: [number, number],
+  b: [number, number],
+): number {
+  const [dx, dy] = [b[0] - a[0], b[1] - a[1]];
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(
+          0,
+          Math.min(
+            1,
+            ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSquared,
+          ),
+        );
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+}
@@ -0,0 +1,128 @@
+import { putIfAbsent } from '@truckermudgeon/base/map';
+import type {
+  City,
+  CityArea,
+  Country,
+  LaneSpeedClass,
+  Node,
+} from '@truckermudgeon/map/types';
+
+/** A function that returns the truck speed limit at a node, in km/h. */
+export type SpeedLimitLookup = (
+  node: Node,
+  speedClass: LaneSpeedClass,
+) => number;
+
+interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Used for countries that don't define limits for a speed class (or for nodes
+// that aren't associated with a known country). Values are in km/h.
+const defaultSpeedLimits: Record<
+  LaneSpeedClass,
+  { limit: number; urbanLimit: number }
+> = {
+  localRoad: { limit: 80, urbanLimit: 50 },
+  dividedRoad: { limit: 90, urbanLimit: 60 },
+  freeway: { limit: 100, urbanLimit: 90 },
+  expressway: { limit: 90, urbanLimit: 70 },
+  motorway: { limit: 90, urbanLimit: 80 },
+  slowRoad: { limit: 40, urbanLimit: 30 },
+};
+
+/** Speed, in km/h, used for edges that enter or exit company depots. */
+export const companySpeedLimit = 20;
+
+/**
+ * Returns the speed class of the fastest lane in `lanes`, based on the lanes'
+ * `traffic_lane` tokens (e.g., `traffic_lane.road.divided`).
+ */
+export function getLaneSpeedClass(lanes: readonly string[]): LaneSpeedClass {
+  // prioritize classes. assumes road looks can contain multiple classes.
+  if (lanes.some(l => l.includes('motorway'))) {
+    return 'motorway';
+  } else if (lanes.some(l => l.includes('freeway'))) {
+    return 'freeway';
+  } else if (lanes.some(l => l.includes('expressway'))) {
+    return 'expressway';
+  } else if (lanes.some(l => l.includes('divided'))) {
+    return 'dividedRoad';
+  } else if (lanes.length && lanes.every(l => l.includes('slow_road'))) {
+    return 'slowRoad';
+  }
+  return 'localRoad';
+}
+
+/** Returns true if `speedClass` is the speed class of a divided road or freeway. */
+export function isHighwaySpeedClass(speedClass: LaneSpeedClass): boolean {
+  return speedClass !== 'localRoad' && speedClass !== 'slowRoad';
+}
+
+/**
+ * Returns a function that looks up the truck speed limit at a node, using the
+ * `truckSpeedLimits` of the node's country. Urban limits are used for nodes
+ * within the bounds of a city's areas.
+ */
+export function createSpeedLimitLookup(
+  countries: ReadonlyMap<string, Country>,
+  cities: ReadonlyMap<string, City>,
+): SpeedLimitLookup {
+  const countriesById = new Map(
+    countries.values().map(country => [country.id, country]),
+  );
+
+  const toSectorKey = (sx: number, sy: number) => `${sx},${sy}`;
+  const toSector = (n: number) => Math.floor(n / 4000);
+  const areasBySector = new Map<string, Bounds[]>();
+  for (const city of cities.values()) {
+    for (const area of city.areas) {
+      const bounds = toBounds(area);
+      for (let sx = toSector(bounds.minX); sx <= toSector(bounds.maxX); sx++) {
+        for (
+          let sy = toSector(bounds.minY);
+          sy <= toSector(bounds.maxY);
+          sy++
+        ) {
+          putIfAbsent(toSectorKey(sx, sy), [], areasBySector).push(bounds);
+        }
+      }
+    }
+  }
+  const isUrban = (node: Node) =>
+    (areasBySector.get(toSectorKey(toSector(node.x), toSector(node.y))) ?? [])
+      .values()
+      .some(
+        b =>
+          b.minX <= node.x &&
+          node.x <= b.maxX &&
+          b.minY <= node.y &&
+          node.y <= b.maxY,
+      );
+
+  return (node, speedClass) => {
+    const country =
+      countriesById.get(node.forwardCountryId) ??
+      countriesById.get(node.backwardCountryId);
+    const limits =
+      country?.truckSpeedLimits[speedClass] ?? defaultSpeedLimits[speedClass];
+    return isUrban(node) ? limits.urbanLimit : limits.limit;
+  };
+}
+
+/** Returns the time, in seconds, it takes to travel `distance` meters. */
+export function toDuration(distance: number, speedLimit: number): number {
+  return distance / (speedLimit / 3.6);
+}
+
+function toBounds(area: CityArea): Bounds {
+  return {
+    minX: area.x,
+    minY: area.y,
+    maxX: area.x + area.width,
+    maxY: area.y + area.height,
+  };
+}
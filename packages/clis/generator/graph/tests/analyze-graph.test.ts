@@ -0,0 +1,115 @@
+import type {
+  City,
+  CompanyItem,
+  Neighbor,
+  Node,
+  Prefab,
+} from '@truckermudgeon/map/types';
+import type { MappedDataForKeys } from '../../mapped-data';
+import { analyzeGraph, toAnalysisGeoJson } from '../analyze-graph';
+
+describe('analyzeGraph', () => {
+  // Graph with:
+  // - a main component: a one-way loop of nodes 1 → 2 → 3 → 1
+  // - a dead end: 3 → 4
+  // - an entry-only node direction: 2 → 5 (backward), with 5 (forward) → 1
+  // - a disconnected sub-graph: 10 ⇄ 11
+  const graph = new Map<bigint, { forward: Neighbor[]; backward: Neighbor[] }>([
+    [1n, { forward: [edge(2n)], backward: [] }],
+    [2n, { forward: [edge(3n), edge(5n, 'backward')], backward: [] }],
+    [3n, { forward: [edge(1n), edge(4n)], backward: [] }],
+    [4n, { forward: [], backward: [] }],
+    [5n, { forward: [edge(1n)], backward: [] }],
+    [10n, { forward: [edge(11n)], backward: [] }],
+    [11n, { forward: [edge(10n)], backward: [] }],
+  ]);
+  const tsMapData: MappedDataForKeys<
+    ['nodes', 'companies', 'prefabs', 'cities']
+  > = {
+    map: 'usa',
+    nodes: new Map(
+      [...graph.keys()].map(uid => [
+        uid,
+        { uid, x: Number(uid) * 100, y: 0 } as unknown as Node,
+      ]),
+    ),
+    companies: new Map(
+      [
+        aCompany(100n, 1n),
+        aCompany(101n, 4n),
+        aCompany(102n, 10n),
+        // filtered out: not in a known city
+        aCompany(103n, 10n, 'nowhere'),
+      ].map(c => [c.uid, c]),
+    ),
+    prefabs: new Map([[1000n, {} as Prefab]]),
+    cities: new Map([['city', {} as City]]),
+  };
+
+  it('finds connectivity issues', () => {
+    expect(analyzeGraph(graph, tsMapData)).toEqual({
+      numNodes: 7,
+      numEdges: 8,
+      numMainComponentNodes: 3,
+      components: [{ nodeUids: [10n, 11n] }],
+      deadEnds: [4n],
+      entryOnly: [{ nodeUid: 5n, direction: 'backward' }],
+      unreachableCompanies: [
+        {
+          company: 'company-101',
+          city: 'city',
+          nodeUid: 4n,
+          canEnter: true,
+          canExit: false,
+        },
+        {
+          company: 'company-102',
+          city: 'city',
+          nodeUid: 10n,
+          canEnter: false,
+          canExit: false,
+        },
+      ],
+    });
+  });
+
+  it('converts analyses to GeoJSON', () => {
+    const analysis = analyzeGraph(graph, tsMapData);
+    const { features } = toAnalysisGeoJson(analysis, graph, tsMapData);
+
+    expect(features.map(f => [f.geometry.type, f.properties.type])).toEqual([
+      ['MultiLineString', 'component'],
+      ['Point', 'deadEnd'],
+      ['Point', 'entryOnly'],
+      ['Point', 'unreachableCompany'],
+      ['Point', 'unreachableCompany'],
+    ]);
+    expect(features[0].geometry.coordinates).toHaveLength(2);
+    expect(features[1].properties).toEqual({ type: 'deadEnd', nodeUid: '4' });
+    // coordinates are projected into longitude/latitude pairs.
+    const [lon, lat] = features[1].geometry.coordinates as [number, number];
+    expect(Math.abs(lon)).toBeLessThanOrEqual(180);
+    expect(Math.abs(lat)).toBeLessThanOrEqual(90);
+  });
+});
+
+function edge(
+  nodeUid: bigint,
+  direction: Neighbor['direction'] = 'forward',
+): Neighbor {
+  return { nodeUid, distance: 100, direction, dlcGuard: 0 };
+}
+
+function aCompany(
+  uid: bigint,
+  nodeUid: bigint,
+  cityToken = 'city',
+): CompanyItem {
+  return {
+    uid,
+    nodeUid,
+    cityToken,
+    token: `company-${uid}`,
+    prefabUid: 1000n,
+  } as CompanyItem;
+}
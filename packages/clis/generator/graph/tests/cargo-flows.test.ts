@@ -0,0 +1,138 @@
+import { ItemType } from '@truckermudgeon/map/constants';
+import type { Context } from '@truckermudgeon/map/routing';
+import type {
+  Cargo,
+  Company,
+  CompanyItem,
+  Neighbors,
+} from '@truckermudgeon/map/types';
+import { toCargoFlows, toDemoCargoFlows } from '../cargo-flows';
+
+describe('toCargoFlows', () => {
+  // a one-way road through nodes 1 → 2 → 3 → 4, with 1km between nodes.
+  const nodeLUT = new Map<bigint, { x: number; y: number }>([
+    [1n, { x: 0, y: 0 }],
+    [2n, { x: 1000, y: 0 }],
+    [3n, { x: 2000, y: 0 }],
+    [4n, { x: 3000, y: 0 }],
+  ]);
+  const graph = new Map<bigint, Neighbors>([
+    [1n, { forward: [aNeighbor(2n)], backward: [] }],
+    [2n, { forward: [aNeighbor(3n)], backward: [] }],
+    [3n, { forward: [aNeighbor(4n)], backward: [] }],
+  ]);
+  const context: Context = { graph, nodeLUT, enabledDlcGuards: new Set([0]) };
+
+  const companies = new Map(
+    [
+      aCompany(10n, 'farm', 'a', 1n),
+      aCompany(11n, 'market', 'b', 3n),
+      aCompany(12n, 'cannery', 'b', 2n),
+      aCompany(13n, 'market', 'c', 4n),
+    ].map(c => [c.uid, c]),
+  );
+  const companyDefs = new Map(
+    [
+      aCompanyDef('farm', [], ['cargo.apples', 'cargo.unknown']),
+      aCompanyDef('market', ['cargo.apples'], []),
+      aCompanyDef('cannery', ['cargo.apples', 'cargo.pears'], ['cargo.cans']),
+    ].map(c => [c.token, c]),
+  );
+  const cargos = new Map(
+    [aCargo('apples'), aCargo('pears'), aCargo('cans')].map(c => [c.token, c]),
+  );
+
+  it('finds destinations within range, sorted by distance', () => {
+    const flows = toCargoFlows(
+      { map: 'usa', companies, companyDefs, cargos },
+      context,
+      2500,
+    );
+
+    expect(flows).toEqual([
+      {
+        company: 'farm',
+        city: 'a',
+        nodeUid: 1n,
+        destinations: [
+          { company: 'cannery', city: 'b', nodeUid: 2n, distance: 1000 },
+          { company: 'market', city: 'b', nodeUid: 3n, distance: 2000 },
+        ],
+        cargos: { apples: [0, 1] },
+      },
+    ]);
+  });
+
+  it('converts flows to demo data', () => {
+    const flows = toCargoFlows(
+      { map: 'usa', companies, companyDefs, cargos },
+      context,
+      2500,
+    );
+
+    expect(toDemoCargoFlows(flows, cargos)).toEqual({
+      demoCargos: [
+        { t: 'apples', n: 'Apples', m: 100, v: 1, a: undefined, f: 0.5 },
+      ],
+      demoCargoFlows: [
+        {
+          n: '1',
+          d: [
+            ['2', 1000],
+            ['3', 2000],
+          ],
+          c: { apples: [0, 1] },
+        },
+      ],
+    });
+  });
+});
+
+function aNeighbor(nodeUid: bigint) {
+  return {
+    nodeUid,
+    distance: 1000,
+    duration: 40,
+    direction: 'forward' as const,
+    dlcGuard: 0,
+  };
+}
+
+function aCompany(
+  uid: bigint,
+  token: string,
+  cityToken: string,
+  nodeUid: bigint,
+): CompanyItem {
+  return {
+    uid,
+    type: ItemType.Company,
+    x: 0,
+    y: 0,
+    sectorX: 0,
+    sectorY: 0,
+    token,
+    cityToken,
+    prefabUid: 0n,
+    nodeUid,
+  };
+}
+
+function aCompanyDef(
+  token: string,
+  cargoInTokens: string[],
+  cargoOutTokens: string[],
+): Company {
+  return { token, name: token, cityTokens: [], cargoInTokens, cargoOutTokens };
+}
+
+function aCargo(token: string): Cargo {
+  return {
+    token,
+    name: token[0].toUpperCase() + token.slice(1),
+    nameLocalized: undefined,
+    mass: 100,
+    value: 1,
+    fragility: 0.5,
+  };
+}
@@ -0,0 +1,158 @@
+import type { City, CompanyItem, Prefab } from '@truckermudgeon/map/types';
+import type { RouteCheck } from '../check-graph';
+import { compareChecks, planChecks, toJUnitXml } from '../check-graph';
+
+describe('planChecks', () => {
+  const cityTokens = ['a', 'b', 'c', 'd'];
+  const tsMapData = {
+    companies: new Map(
+      cityTokens
+        .flatMap((city, i) => [
+          aCompany(BigInt(i * 2 + 1), city),
+          aCompany(BigInt(i * 2 + 2), city),
+        ])
+        .concat(aCompany(100n, 'unknown-city'))
+        .map(c => [c.uid, c]),
+    ),
+    prefabs: new Map([[1000n, {} as Prefab]]),
+    cities: new Map(cityTokens.map(city => [city, {} as City])),
+  };
+  const toNames = (pairs: [CompanyItem, CompanyItem][]) =>
+    pairs.map(([start, end]) => `${start.token} => ${end.token}`);
+
+  it('picks the same origin for the same seed', () => {
+    const pairs = planChecks(tsMapData, { seed: 1234 });
+    expect(pairs).toHaveLength(16);
+    expect(toNames(planChecks(tsMapData, { seed: 1234 }))).toEqual(
+      toNames(pairs),
+    );
+
+    const origins = new Set(
+      [1, 2, 3, 4, 5, 6, 7, 8].map(
+        seed => planChecks(tsMapData, { seed })[0][0].token,
+      ),
+    );
+    expect(origins.size).toBeGreaterThan(1);
+  });
+
+  it('checks routes to and from fixed origins', () => {
+    const pairs = planChecks(tsMapData, {
+      seed: 0,
+      origins: ['company-1.a', 'company-8.d'],
+    });
+    expect(pairs).toHaveLength(32);
+    expect(toNames(pairs).slice(0, 4)).toEqual([
+      'company-1 => company-1',
+      'company-1 => company-1',
+      'company-1 => company-2',
+      'company-2 => company-1',
+    ]);
+    expect(() =>
+      planChecks(tsMapData, { seed: 0, origins: ['company-100.b'] }),
+    ).toThrow('unknown origin company: company-100.b');
+  });
+
+  it('checks routes between pairs of cities', () => {
+    const pairs = planChecks(tsMapData, { seed: 42, numCities: 3 });
+    expect(pairs).toHaveLength(6);
+    const cities = new Set(pairs.flat().map(c => c.cityToken));
+    expect(cities.size).toBe(3);
+    for (const [start, end] of pairs) {
+      expect(start.cityToken).not.toBe(end.cityToken);
+    }
+    expect(toNames(planChecks(tsMapData, { seed: 42, numCities: 3 }))).toEqual(
+      toNames(pairs),
+    );
+
+    expect(planChecks(tsMapData, { seed: 42, numCities: 10 })).toHaveLength(12);
+  });
+});
+
+describe('compareChecks', () => {
+  it('reports routes that became unrouteable or changed length', () => {
+    const baseline = [
+      aCheck(1n, 2n, 1000),
+      aCheck(1n, 3n, 1000),
+      aCheck(1n, 4n, 1000),
+      aCheck(1n, 5n, 1000),
+      aCheck(1n, 6n),
+    ];
+    const checks = [
+      aCheck(1n, 2n, 1050),
+      aCheck(1n, 3n, 1500),
+      aCheck(1n, 4n),
+      aCheck(1n, 5n, 500),
+      aCheck(1n, 6n),
+      // not in baseline
+      aCheck(1n, 7n),
+    ];
+
+    expect(
+      compareChecks(baseline, checks).map(({ type, before, after }) => ({
+        type,
+        before,
+        after,
+      })),
+    ).toEqual([
+      { type: 'distance', before: 1000, after: 1500 },
+      { type: 'unrouteable', before: 1000, after: undefined },
+      { type: 'distance', before: 1000, after: 500 },
+    ]);
+    expect(compareChecks(baseline, checks, 0.6)).toHaveLength(1);
+  });
+});
+
+describe('toJUnitXml', () => {
+  it('reports unrouteable routes and regressions as failures', () => {
+    const checks = [aCheck(1n, 2n, 1000), aCheck(1n, 3n), aCheck(1n, 4n, 2000)];
+    const xml = toJUnitXml({
+      map: 'usa',
+      seed: 7,
+      checks,
+      regressions: compareChecks(
+        [aCheck(1n, 2n, 1000), aCheck(1n, 4n, 1000)],
+        checks,
+      ),
+    });
+
+    expect(xml).toContain('tests="3" failures="2"');
+    expect(xml).toContain('<property name="seed" value="7"/>');
+    expect(xml).toContain(
+      '<testcase classname="usa" name="c1.city =&gt; c2.city"/>',
+    );
+    expect(xml).toContain(
+      '<failure message="unrouteable after 10 iterations"/>',
+    );
+    expect(xml).toContain(
+      '<failure message="distance changed from 1000m to 2000m"/>',
+    );
+  });
+});
+
+function aCompany(uid: bigint, cityToken: string): CompanyItem {
+  return {
+    uid,
+    nodeUid: uid,
+    cityToken,
+    token: `company-${uid}`,
+    prefabUid: 1000n,
+    x: 0,
+    y: 0,
+  } as CompanyItem;
+}
+
+function aCheck(start: bigint, end: bigint, distance?: number): RouteCheck {
+  const summary = (nodeUid: bigint) => ({
+    company: `c${nodeUid}.city`,
+    nodeUid,
+    latLng: '/0/0',
+  });
+  return distance != null
+    ? { start: summary(start), end: summary(end), success: true, distance }
+    : {
+        start: summary(start),
+        end: summary(end),
+        success: false,
+        numIters: 10,
+      };
+}
@@ -1,10 +1,13 @@
+import { mapValues } from '@truckermudgeon/base/map';
 import { Preconditions } from '@truckermudgeon/base/precon';
+import { readGraph, writeGraph } from '@truckermudgeon/map/binary-graph';
 import { ItemType } from '@truckermudgeon/map/constants';
 import type {
   City,
   CompanyItem,
   Country,
   MapData,
+  Neighbor,
   Node,
   Prefab,
   Road,
@@ -397,6 +400,126 @@ describe('generateGraph', () => {
       backward: [],
     });
   });
+
+  it('uses nav curve lengths for prefab edges', () => {
+    const fakeMapData = createFakeMapData(partialMapData);
+    const graph = generateGraph(fakeMapData);
+
+    const [toNode2, toNode4] = graph.get(1n)!.forward;
+    for (const neighbor of [toNode2, toNode4]) {
+      expect(neighbor.lanes?.length).toBeGreaterThan(0);
+      expect(neighbor.navCurves?.length).toBeGreaterThan(0);
+    }
+    // lengths are based on prefab_us_405's nav curves, not on the positions
+    // of the (fake) nodes: node-1 → node-2 is a straight line through the 45m
+    // wide prefab...
+    expect(toNode2.distance).toBeCloseTo(45, 1);
+    // ...and node-1 → node-4 turns right, which is longer than the
+    // straight-line distance between prefab nodes.
+    expect(toNode4.distance).toBeGreaterThan(Math.hypot(22.5, 22.5));
+    expect(toNode4.distance).toBeLessThan(45);
+  });
+
+  it('tags toll, border, and highway edges', () => {
+    // node-4 is on the border between two countries.
+    partialMapData.nodes[4] = {
+      ...partialMapData.nodes[4],
+      forwardCountryId: 1,
+      backwardCountryId: 2,
+    };
+    const fakeMapData = {
+      ...createFakeMapData(partialMapData),
+      // road-3 is a divided road.
+      roadLooks: new Map([
+        ['one-way', aRoadLook('one-way')],
+        [
+          'two-way',
+          {
+            ...aRoadLook('two-way'),
+            lanesLeft: ['traffic_lane.road.divided'],
+            lanesRight: ['traffic_lane.road.divided'],
+          },
+        ],
+      ]),
+      // a toll gate icon near prefab-4.
+      pois: [
+        {
+          type: 'road' as const,
+          icon: 'toll_ico',
+          x: 3,
+          y: 4,
+          sectorX: 0,
+          sectorY: 0,
+          dlcGuard: 0,
+          nodeUid: 100n,
+        },
+      ],
+    };
+    const graph = generateGraph(fakeMapData);
+
+    // prefab-4 edges go through the toll gate.
+    for (const neighbor of graph.get(1n)!.forward) {
+      expect(neighbor).toMatchObject({ isToll: true });
+      expect(neighbor.crossesBorder).toBeUndefined();
+    }
+    // edges leaving node-4 cross the border.
+    const node4 = graph.get(4n)!;
+    for (const neighbor of [...node4.forward, ...node4.backward]) {
+      expect(neighbor).toMatchObject({ crossesBorder: true });
+    }
+    // road-3 is a highway, road-1 isn't.
+    expect(graph.get(5n)!.forward[0]).toMatchObject({ isHighway: true });
+    expect(graph.get(0n)!.forward[0].isHighway).toBeUndefined();
+  });
+
+  it('tags toll edges for toll gate icons provided by mods', () => {
+    const fakeMapData = {
+      ...createFakeMapData(partialMapData),
+      // a toll gate icon, provided by a mod, near prefab-4.
+      pois: [
+        {
+          type: 'road' as const,
+          icon: 'toll_ico@some_mod',
+          x: 3,
+          y: 4,
+          sectorX: 0,
+          sectorY: 0,
+          dlcGuard: 0,
+          nodeUid: 100n,
+        },
+      ],
+    };
+    const graph = generateGraph(fakeMapData);
+
+    for (const neighbor of graph.get(1n)!.forward) {
+      expect(neighbor).toMatchObject({ isToll: true });
+    }
+  });
+
+  it('generates graphs that round-trip through the binary format', () => {
+    const fakeMapData = createFakeMapData(partialMapData);
+    const graph = generateGraph(fakeMapData);
+
+    const { graph: readBack, nodeLUT } = readGraph(
+      writeGraph(graph, fakeMapData.nodes),
+    );
+
+    // costs are stored with single precision.
+    const toSinglePrecision = (n: Neighbor): Neighbor => ({
+      ...n,
+      distance: Math.fround(n.distance),
+      ...(n.duration != null ? { duration: Math.fround(n.duration) } : {}),
+    });
+    expect(readBack).toEqual(
+      mapValues(graph, ({ forward, backward }) => ({
+        forward: forward.map(toSinglePrecision),
+        backward: backward.map(toSinglePrecision),
+      })),
+    );
+    // node-3 can only be navigated to, but its position is still needed.
+    expect(readBack.has(3n)).toBe(false);
+    expect(nodeLUT.get(3n)).toEqual({ x: 20, y: 0 });
+  });
 });
 
 function aNodeWith({
@@ -554,6 +677,8 @@ function createFakeMapData(arrays: PartialMapData): MappedData<'usa'> {
     prefabDescriptions: mapify(prefabDescriptions, p => String(p.token)),
     ferries: mapify(ferries, f => f.token),
     companyDefs: new Map(),
+    cargos: new Map(),
+    mods: new Map(),
     mapAreas: new Map(),
     roadLooks: new Map([
       ['one-way', aRoadLook('one-way')],
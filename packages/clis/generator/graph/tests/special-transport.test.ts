@@ -0,0 +1,91 @@
+import { ItemType } from '@truckermudgeon/map/constants';
+import type {
+  Neighbors,
+  Node,
+  Route,
+  TrajectoryItem,
+  WithToken,
+} from '@truckermudgeon/map/types';
+import { toSpecialTransportRoutes } from '../special-transport';
+
+describe('toSpecialTransportRoutes', () => {
+  // graph nodes 1 and 2 are along a trajectory for route `r1`; graph node 3
+  // isn't.
+  const nodes = new Map(
+    [
+      aNode(1n, 0, 0),
+      aNode(2n, 100, 0),
+      aNode(3n, 100, 50),
+      aNode(11n, 0, 5),
+      aNode(12n, 100, 5),
+      aNode(13n, 500, 500),
+    ].map(n => [n.uid, n]),
+  );
+  const graph = new Map<bigint, Neighbors>([
+    [1n, { forward: [aNeighbor(2n)], backward: [] }],
+    [2n, { forward: [aNeighbor(3n)], backward: [] }],
+  ]);
+  const routes = new Map<string, WithToken<Route>>([
+    ['r1', { token: 'r1', fromCity: 'a', toCity: 'b' }],
+    ['r2', { token: 'r2', fromCity: 'b', toCity: 'c' }],
+  ]);
+
+  it('finds graph nodes along trajectories', () => {
+    const trajectories = new Map([
+      [100n, aTrajectory(100n, [11n, 12n], ['r1', 'r1'])],
+      [101n, aTrajectory(101n, [13n], ['r2', 'unknown'])],
+    ]);
+
+    const res = toSpecialTransportRoutes(graph, {
+      map: 'usa',
+      nodes,
+      trajectories,
+      routes,
+    });
+    expect(res).toEqual([
+      {
+        token: 'r1',
+        fromCity: 'a',
+        toCity: 'b',
+        nodeUids: expect.arrayContaining([1n, 2n]) as unknown,
+        lines: [
+          [
+            [0, 5],
+            [100, 5],
+          ],
+        ],
+      },
+    ]);
+    expect(res[0].nodeUids).toHaveLength(2);
+  });
+});
+
+function aNode(uid: bigint, x: number, y: number): Node {
+  return { uid, x, y } as Node;
+}
+
+function aNeighbor(nodeUid: bigint) {
+  return {
+    nodeUid,
+    distance: 100,
+    direction: 'forward' as const,
+    dlcGuard: 0,
+  };
+}
+
+function aTrajectory(
+  uid: bigint,
+  nodeUids: bigint[],
+  routes: string[],
+): TrajectoryItem {
+  return {
+    uid,
+    type: ItemType.TrajectoryItem,
+    x: 0,
+    y: 0,
+    sectorX: 0,
+    sectorY: 0,
+    nodeUids,
+    checkpoints: routes.map((route, i) => ({ route, checkpoint: `c${i}` })),
+  };
+}
@@ -0,0 +1,97 @@
+import { ItemType } from '@truckermudgeon/map/constants';
+import type { City, Country, Node } from '@truckermudgeon/map/types';
+import { createSpeedLimitLookup, getLaneSpeedClass } from '../speed-limits';
+
+describe('getLaneSpeedClass', () => {
+  it('returns the fastest speed class', () => {
+    expect(
+      getLaneSpeedClass([
+        'traffic_lane.road.local',
+        'traffic_lane.road.freeway',
+        'traffic_lane.road.divided',
+      ]),
+    ).toBe('freeway');
+    expect(getLaneSpeedClass(['traffic_lane.road.expressway'])).toBe(
+      'expressway',
+    );
+    expect(getLaneSpeedClass(['traffic_lane.road.divided'])).toBe(
+      'dividedRoad',
+    );
+  });
+
+  it('defaults to localRoad', () => {
+    expect(getLaneSpeedClass([])).toBe('localRoad');
+    expect(getLaneSpeedClass(['traffic_lane.no_vehicles'])).toBe('localRoad');
+  });
+});
+
+describe('createSpeedLimitLookup', () => {
+  const country: Country = {
+    code: 'CO',
+    id: 1,
+    name: 'Country',
+    nameLocalized: 'Country',
+    token: 'country',
+    truckSpeedLimits: {
+      localRoad: { limit: 90, urbanLimit: 50, maxLimit: 90 },
+    },
+    x: 0,
+    y: 0,
+  };
+  const city: City = {
+    areas: [
+      {
+        uid: 1n,
+        type: ItemType.City,
+        token: 'city',
+        hidden: false,
+        width: 100,
+        height: 100,
+        x: 1000,
+        y: 1000,
+        sectorX: 0,
+        sectorY: 0,
+      },
+    ],
+    countryToken: 'country',
+    name: 'City',
+    nameLocalized: 'City',
+    population: 0,
+    token: 'city',
+    x: 1000,
+    y: 1000,
+  };
+  const getSpeedLimit = createSpeedLimitLookup(
+    new Map([['country', country]]),
+    new Map([['city', city]]),
+  );
+
+  it('uses urban limits within city areas', () => {
+    expect(getSpeedLimit(aNodeAt(1050, 1050), 'localRoad')).toBe(50);
+    expect(getSpeedLimit(aNodeAt(2000, 2000), 'localRoad')).toBe(90);
+  });
+
+  it('falls back to default limits', () => {
+    expect(getSpeedLimit(aNodeAt(2000, 2000), 'motorway')).toBeGreaterThan(0);
+    expect(
+      getSpeedLimit({ ...aNodeAt(0, 0), forwardCountryId: 2 }, 'localRoad'),
+    ).toBeGreaterThan(0);
+  });
+});
+
+function aNodeAt(x: number, y: number): Node {
+  return {
+    uid: 1n,
+    x,
+    y,
+    z: 0,
+    rotation: 0,
+    rotationQuat: [0, 0, 0, 0],
+    forwardItemUid: 0n,
+    backwardItemUid: 0n,
+    sectorX: 0,
+    sectorY: 0,
+    forwardCountryId: 1,
+    backwardCountryId: 1,
+  };
+}
@@ -4,12 +4,14 @@ import * as process from 'process';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
 import * as achievements from './commands/achievements';
+import * as cargoFlows from './commands/cargo-flows';
 import * as cities from './commands/cities';
 import * as contours from './commands/contours';
 import * as ets2Villages from './commands/ets2-villages';
 import * as extraLabels from './commands/extra-labels';
 import * as footprints from './commands/footprints';
 import * as graph from './commands/graph';
+import * as isochrones from './commands/isochrones';
 import * as map from './commands/map';
 import * as prefabCurves from './commands/prefab-curves';
 import * as spritesheet from './commands/spritesheet';
@@ -27,6 +29,8 @@ async function main() {
     .command(achievements)
     .command(spritesheet)
     .command(graph)
+    .command(isochrones)
+    .command(cargoFlows)
     .demandCommand()
     .check(argv => {
       if (argv._.length !== 1) {
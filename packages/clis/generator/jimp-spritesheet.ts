@@ -1,3 +1,4 @@
+import { assert } from '@truckermudgeon/base/assert';
 import { Jimp } from 'jimp';
 import path from 'path';
 import { logger } from './logger';
@@ -33,6 +34,11 @@ export async function createSpritesheetWithJimp(
     }),
   );
 
+  // sprites are keyed by name, so a duplicate name would drop a sprite (e.g.,
+  // a mod icon that wasn't given a namespaced name by the parser).
+  const names = new Set(images.map(({ name }) => name));
+  assert(names.size === images.length, 'duplicate sprite names');
+
   // 计算布局 - 使用网格布局优化空间
   const maxWidth = Math.max(...images.map(({ image }) => image.width));
   const maxHeight = Math.max(...images.map(({ image }) => image.height));
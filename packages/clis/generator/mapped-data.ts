@@ -8,6 +8,7 @@ import {
 import type {
   Achievement,
   Building,
+  Cargo,
   City,
   Company,
   CompanyItem,
@@ -18,6 +19,7 @@ import type {
   MapArea,
   MapData,
   MileageTarget,
+  Mod,
   Model,
   ModelDescription,
   Node,
@@ -46,6 +48,7 @@ type PickKey<
 
 interface MapDataKeyFields {
   achievements: PickKey<'achievements', 'token'>;
+  cargos: PickKey<'cargos', 'token'>;
   cities: PickKey<'cities', 'token'>;
   companies: PickKey<'companies', 'uid'>;
   companyDefs: PickKey<'companyDefs', 'token'>;
@@ -58,6 +61,7 @@ interface MapDataKeyFields {
   mileageTargets: PickKey<'mileageTargets', 'token'>;
   modelDescriptions: PickKey<'modelDescriptions', 'token'>;
   models: PickKey<'models', 'uid'>;
+  mods: PickKey<'mods', 'id'>;
   nodes: PickKey<'nodes', 'uid'>;
   pois: PickKey<'pois', never>;
   prefabDescriptions: PickKey<'prefabDescriptions', 'token'>;
@@ -290,6 +294,18 @@ export function readMapData<
           a => a.token,
         );
         break;
+      case 'mods':
+        mapData.mods = mapify(
+          readArrayFile<Mod>(toJsonFilePath(key)),
+          m => m.id,
+        );
+        break;
+      case 'cargos':
+        mapData.cargos = mapify(
+          readArrayFile<Cargo>(toJsonFilePath(key)),
+          c => c.token,
+        );
+        break;
       case 'trajectories':
         mapData.trajectories = mapify(
           readArrayFile<TrajectoryItem>(toJsonFilePath(key)),
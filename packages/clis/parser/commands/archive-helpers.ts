@@ -0,0 +1,313 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Argv } from 'yargs';
+import { CombinedEntries } from '../game-files/combined-entries';
+import {
+  parseVersionSii,
+  readModManifest,
+} from '../game-files/map-files-parser';
+import {
+  getLoadOrder,
+  getProfileLoadOrder,
+  isCompatibleVersion,
+  parseWorkshopPackageDir,
+} from '../game-files/mods-load-order';
+import { ScsArchive } from '../game-files/scs-archive';
+import { logger } from '../logger';
+
+const homeDirectory = os.homedir();
+
+export const untildify = (path: string) =>
+  homeDirectory ? path.replace(/^~(?=$|\/|\\)/, homeDirectory) : path;
+
+const requiredFiles = new Set([
+  'base.scs',
+  'base_map.scs',
+  'base_share.scs',
+  'core.scs',
+  'def.scs',
+  'locale.scs',
+  'version.scs',
+]);
+
+/** Options for locating game and mod archives. */
+export const gameOptions = (yargs: Argv) =>
+  yargs
+    .option('gameDir', {
+      alias: 'g',
+      describe: 'Path to ATS/ETS2 game dir (the one with all the .scs files)',
+      type: 'string',
+      coerce: untildify,
+    })
+    .option('modsDir', {
+      alias: 'm',
+      describe: 'Path to ATS/ETS2 mods dir (the one with all the mods files)',
+      type: 'string',
+      coerce: untildify,
+    })
+    .option('gameLog', {
+      alias: 'l',
+      describe: 'Path to game log file (game.log.txt)',
+      type: 'string',
+      coerce: untildify,
+    })
+    .option('profile', {
+      alias: 'p',
+      describe:
+        'Path to a profile dir (or its profile.sii file), used to read the active mods and their load order',
+      type: 'string',
+      coerce: untildify,
+      conflicts: 'gameLog',
+    })
+    .option('workshopDir', {
+      alias: 'w',
+      describe:
+        'Path to the Steam Workshop content dir for ATS/ETS2 (e.g., steamapps/workshop/content/270880), used to find active Workshop mods',
+      type: 'string',
+      coerce: untildify,
+    })
+    .option('includeDlc', {
+      describe: 'Include DLC files',
+      type: 'boolean',
+      default: true,
+    });
+
+/**
+ * Options for the archive-inspecting commands, which read from either a
+ * single archive or the combined game + mods archives.
+ */
+export const entriesOptions = (yargs: Argv) =>
+  gameOptions(yargs)
+    .option('archive', {
+      alias: 'a',
+      describe: 'Path to a single .scs or .zip archive',
+      type: 'string',
+      coerce: untildify,
+    })
+    .conflicts('archive', [
+      'gameDir',
+      'modsDir',
+      'gameLog',
+      'profile',
+      'workshopDir',
+    ])
+    .check(argv => {
+      if (argv.archive == null && argv.gameDir == null) {
+        throw new Error('One of "gameDir" or "archive" must be specified.');
+      }
+      return true;
+    });
+
+/**
+ * Returns the paths of the game archives in `gameDir` and the mod archives in
+ * `modsDir`. Mod archives are sorted by the load order in `gameLog`, if given.
+ *
+ * If `profile` is given, the mod archives are the profile's active mods
+ * instead, in `modsDir` or `workshopDir`, in the profile's load order.
+ */
+export function getArchivePaths(args: {
+  gameDir: string;
+  modsDir?: string;
+  gameLog?: string;
+  profile?: string;
+  workshopDir?: string;
+  includeDlc: boolean;
+}): { gameFilePaths: string[]; modFilePaths: string[] } {
+  const gameFilePaths = fs
+    .readdirSync(args.gameDir, { withFileTypes: true })
+    .filter(
+      e =>
+        (e.isFile() && e.name.endsWith('.scs') && requiredFiles.has(e.name)) ||
+        (args.includeDlc && e.name.startsWith('dlc')),
+    )
+    .map(e => {
+      return path.join(args.gameDir, e.name);
+    });
+
+  if (args.profile != null) {
+    return {
+      gameFilePaths,
+      modFilePaths: getProfileModPaths({ ...args, profile: args.profile }),
+    };
+  }
+
+  const modLoadOrder = args.gameLog ? getLoadOrder(args.gameLog) : [];
+
+  let modFilePaths: string[] = [];
+  if (args.modsDir) {
+    modFilePaths = fs
+      .readdirSync(args.modsDir, { withFileTypes: true })
+      .filter(
+        e => e.isFile() && (e.name.endsWith('.scs') || e.name.endsWith('.zip')),
+      )
+      .map(e => path.join(args.modsDir!, e.name));
+
+    if (modLoadOrder.length > 0) {
+      modFilePaths = modFilePaths
+        .filter(e => modLoadOrder.includes(path.parse(e).name))
+        .sort(
+          (a, b) =>
+            modLoadOrder.indexOf(path.parse(a).name) -
+            modLoadOrder.indexOf(path.parse(b).name),
+        );
+    }
+  }
+
+  return { gameFilePaths, modFilePaths };
+}
+
+/**
+ * Returns the paths of the mod archives that are active in `profile`, in load
+ * order. Mods that can't be found are skipped, and mods whose manifests say
+ * they're incompatible with the game's version are warned about.
+ */
+function getProfileModPaths(args: {
+  gameDir: string;
+  modsDir?: string;
+  profile: string;
+  workshopDir?: string;
+}): string[] {
+  const profileSii = fs.statSync(args.profile).isDirectory()
+    ? path.join(args.profile, 'profile.sii')
+    : args.profile;
+  const profileMods = getProfileLoadOrder(profileSii);
+  logger.log(profileMods.length, 'active mods in', profileSii);
+
+  const versionArchive = ScsArchive(path.join(args.gameDir, 'version.scs'));
+  let gameVersion: string;
+  try {
+    gameVersion = parseVersionSii(versionArchive.parseEntries()).version;
+  } finally {
+    versionArchive.dispose();
+  }
+
+  const modFilePaths: string[] = [];
+  for (const mod of profileMods) {
+    let archivePaths: string[];
+    if (mod.workshopId != null) {
+      const modDir =
+        args.workshopDir != null
+          ? getWorkshopPackageDir(
+              path.join(args.workshopDir, mod.workshopId),
+              gameVersion,
+            )
+          : undefined;
+      archivePaths =
+        modDir != null && fs.existsSync(modDir)
+          ? fs
+              .readdirSync(modDir, { withFileTypes: true })
+              .filter(e => e.isFile() && /\.(scs|zip)$/.test(e.name))
+              .map(e => path.join(modDir, e.name))
+              .sort()
+          : [];
+    } else {
+      archivePaths =
+        args.modsDir != null
+          ? ['.scs', '.zip']
+              .map(ext => path.join(args.modsDir!, mod.packageName + ext))
+              .filter(p => fs.existsSync(p))
+          : [];
+    }
+    if (archivePaths.length === 0) {
+      logger.warn(
+        'could not find archives for active mod',
+        `"${mod.displayName}"`,
+        `(${mod.packageName}). skipping.`,
+      );
+      continue;
+    }
+
+    const manifest = readModManifest(archivePaths[0]);
+    logger.info(
+      'active mod',
+      `"${manifest?.displayName ?? mod.displayName}"`,
+      manifest?.version ?? '',
+    );
+    if (
+      manifest &&
+      !isCompatibleVersion(manifest.compatibleVersions, gameVersion)
+    ) {
+      logger.warn(
+        `"${manifest.displayName ?? mod.displayName}" supports game versions`,
+        manifest.compatibleVersions.join(', '),
+        'but the game is version',
+        gameVersion,
+      );
+    }
+    modFilePaths.push(...archivePaths);
+  }
+  return modFilePaths;
+}
+
+/**
+ * Returns the dir containing the archives to load for the Steam Workshop mod
+ * in `modDir`. Mods that support multiple game versions list versioned
+ * subdirectories in a `versions.sii` file; the one compatible with
+ * `gameVersion` is used, falling back to `modDir` itself.
+ */
+function getWorkshopPackageDir(modDir: string, gameVersion: string): string {
+  const versionsPath = path.join(modDir, 'versions.sii');
+  if (!fs.existsSync(versionsPath)) {
+    return modDir;
+  }
+  const packageDir = parseWorkshopPackageDir(
+    fs.readFileSync(versionsPath),
+    versionsPath,
+    gameVersion,
+  );
+  if (packageDir == null) {
+    logger.warn(
+      'no package in',
+      versionsPath,
+      'supports game version',
+      gameVersion,
+    );
+    return modDir;
+  }
+  return path.join(modDir, packageDir);
+}
+
+/**
+ * Opens the archives selected by `args`. Callers are responsible for calling
+ * `dispose` when done with the returned entries.
+ */
+export function openEntries(args: {
+  archive?: string;
+  gameDir?: string;
+  modsDir?: string;
+  gameLog?: string;
+  profile?: string;
+  workshopDir?: string;
+  includeDlc: boolean;
+}): { entries: CombinedEntries; dispose: () => void } {
+  let archivePaths: string[];
+  if (args.archive != null) {
+    archivePaths = [args.archive];
+  } else {
+    const { gameFilePaths, modFilePaths } = getArchivePaths({
+      ...args,
+      gameDir: args.gameDir!,
+    });
+    archivePaths = [...gameFilePaths, ...modFilePaths];
+  }
+  const archives = archivePaths.map(p => ScsArchive(p));
+  return {
+    entries: new CombinedEntries(archives),
+    dispose: () => archives.forEach(a => a.dispose()),
+  };
+}
+
+/** Converts a user-provided path into an archive entry key. */
+export function toEntryKey(path: string): string {
+  return path.replace(/^\/+|\/+$/g, '');
+}
+
+export function joinEntryKey(dir: string, name: string): string {
+  return dir === '' ? name : `${dir}/${name}`;
+}
+
+/** Returns whether the file at `key` is a (possibly encrypted) .sii file. */
+export function isSii(key: string): boolean {
+  return /\.(sii|sui)$/.test(key);
+}
@@ -0,0 +1,38 @@
+import type { Argv, BuilderArguments } from 'yargs';
+import { decryptedSii } from '../game-files/convert-sii-to-json';
+import { logger } from '../logger';
+import {
+  entriesOptions,
+  isSii,
+  openEntries,
+  toEntryKey,
+} from './archive-helpers';
+
+export const command = 'cat <path>';
+export const describe =
+  'Prints a file in an archive, or in the combined game + mods archives. .sii files are decrypted.';
+
+export const builder = (yargs: Argv) =>
+  entriesOptions(yargs).positional('path', {
+    describe: 'File to print',
+    type: 'string',
+    demandOption: true,
+  });
+
+export function handler(args: BuilderArguments<typeof builder>) {
+  const { entries, dispose } = openEntries(args);
+  try {
+    const key = toEntryKey(args.path);
+    const file = entries.files.get(key);
+    if (!file) {
+      logger.error('no such file:', key);
+      process.exitCode = 1;
+      return;
+    }
+
+    const buffer = file.read();
+    process.stdout.write(isSii(key) ? decryptedSii(buffer) : buffer);
+  } finally {
+    dispose();
+  }
+}
@@ -0,0 +1,66 @@
+import fs from 'fs';
+import path from 'path';
+import type { Argv, BuilderArguments } from 'yargs';
+import { walkFiles } from '../game-files/combined-entries';
+import { decryptedSii } from '../game-files/convert-sii-to-json';
+import { logger } from '../logger';
+import {
+  entriesOptions,
+  isSii,
+  openEntries,
+  toEntryKey,
+  untildify,
+} from './archive-helpers';
+
+export const command = 'extract <path>';
+export const describe =
+  'Extracts a file or directory from an archive, or from the combined game + mods archives. .sii files are decrypted.';
+
+export const builder = (yargs: Argv) =>
+  entriesOptions(yargs)
+    .positional('path', {
+      describe: 'File or directory to extract',
+      type: 'string',
+      demandOption: true,
+    })
+    .option('outputDir', {
+      alias: 'o',
+      describe: 'Path to dir extracted files should be written to',
+      type: 'string',
+      coerce: untildify,
+      demandOption: true,
+    });
+
+export function handler(args: BuilderArguments<typeof builder>) {
+  const { entries, dispose } = openEntries(args);
+  try {
+    const key = toEntryKey(args.path);
+    const keys = entries.files.get(key) ? [key] : [...walkFiles(entries, key)];
+    if (keys.length === 0) {
+      logger.error('no such file or directory:', key);
+      process.exitCode = 1;
+      return;
+    }
+
+    logger.start('extracting', keys.length, 'files to', args.outputDir);
+    const outputDir = path.resolve(args.outputDir);
+    for (const fileKey of keys) {
+      // files are written relative to `outputDir`, using their full keys.
+      // keys come from (possibly malicious) archives, and can contain `..`s.
+      const filePath = path.resolve(outputDir, fileKey);
+      if (!filePath.startsWith(outputDir + path.sep)) {
+        logger.warn('skipping', fileKey, 'because it is outside of outputDir');
+        continue;
+      }
+      const buffer = entries.files.get(fileKey)!.read();
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(
+        filePath,
+        isSii(fileKey) ? decryptedSii(buffer) : buffer,
+      );
+    }
+    logger.success('done.');
+  } finally {
+    dispose();
+  }
+}
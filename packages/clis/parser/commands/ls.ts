@@ -0,0 +1,55 @@
+import type { Argv, BuilderArguments } from 'yargs';
+import { walkFiles } from '../game-files/combined-entries';
+import { logger } from '../logger';
+import {
+  entriesOptions,
+  joinEntryKey,
+  openEntries,
+  toEntryKey,
+} from './archive-helpers';
+
+export const command = 'ls [path]';
+export const describe =
+  'Lists the subdirectories and files of a directory in an archive, or in the combined game + mods archives';
+
+export const builder = (yargs: Argv) =>
+  entriesOptions(yargs)
+    .positional('path', {
+      describe: 'Directory to list. Defaults to the root directory.',
+      type: 'string',
+      default: '',
+    })
+    .option('recursive', {
+      alias: 'r',
+      describe: 'List all files in subdirectories, too',
+      type: 'boolean',
+      default: false,
+    });
+
+export function handler(args: BuilderArguments<typeof builder>) {
+  const { entries, dispose } = openEntries(args);
+  try {
+    const dir = toEntryKey(args.path);
+    const directory = entries.directories.get(dir);
+    if (!directory) {
+      logger.error('no such directory:', dir);
+      process.exitCode = 1;
+      return;
+    }
+
+    if (args.recursive) {
+      for (const file of walkFiles(entries, dir)) {
+        console.log(file);
+      }
+    } else {
+      for (const subdirectory of [...directory.subdirectories].sort()) {
+        console.log(joinEntryKey(dir, subdirectory) + '/');
+      }
+      for (const file of [...directory.files].sort()) {
+        console.log(joinEntryKey(dir, file));
+      }
+    }
+  } finally {
+    dispose();
+  }
+}
@@ -0,0 +1,169 @@
+import type { DefData, MapData } from '@truckermudgeon/map/types';
+import fs from 'fs';
+import path from 'path';
+import type { Argv, BuilderArguments } from 'yargs';
+import {
+  findMapConflicts,
+  parseMapFiles,
+} from '../game-files/map-files-parser';
+import { formatModConflicts } from '../game-files/mod-conflicts';
+import { logger } from '../logger';
+import { gameOptions, getArchivePaths, untildify } from './archive-helpers';
+
+export const command = '$0';
+export const describe =
+  'Parses ATS/ETS2 game data and mods data and outputs map JSON and PNG files';
+
+export const builder = (yargs: Argv) =>
+  gameOptions(yargs)
+    .demandOption('gameDir')
+    .option('outputDir', {
+      alias: 'o',
+      describe: 'Path to dir JSON and PNG files should be written to',
+      type: 'string',
+      coerce: untildify,
+      demandOption: true,
+    })
+    .option('locales', {
+      describe:
+        'Locales to include in localized names (e.g., de_de pl_pl). en_us is always included.',
+      type: 'string',
+      array: true,
+      default: ['en_us'],
+    })
+    .option('onlyDefs', {
+      describe: 'Parse data from /def files, only',
+      type: 'boolean',
+      default: false,
+    })
+    .option('conflicts', {
+      describe:
+        'Instead of parsing map data, report the files, sectors, def tokens, and icons that mods provide more than once',
+      type: 'boolean',
+      default: false,
+    })
+    .option('cache', {
+      describe:
+        'Cache parsed archive data in <outputDir>/.cache, and reuse it for unchanged archives',
+      type: 'boolean',
+      default: true,
+    })
+    .option('dryRun', {
+      describe: "Don't write out any files",
+      type: 'boolean',
+      default: false,
+    })
+    .option('debug', {
+      describe: 'Set debug mode to print more message',
+      type: 'boolean',
+      default: false,
+    });
+
+export function handler(args: BuilderArguments<typeof builder>) {
+  if (args.debug) logger.level = 4;
+
+  const { gameFilePaths, modFilePaths } = getArchivePaths(args);
+  if (args.conflicts) {
+    writeConflicts(gameFilePaths, modFilePaths, args);
+    return;
+  }
+
+  const { map, ...result } = parseMapFiles(gameFilePaths, modFilePaths, {
+    ...args,
+    // dry runs don't write out any files, including cache entries.
+    cacheDir:
+      args.cache && !args.dryRun
+        ? path.join(args.outputDir, '.cache')
+        : undefined,
+  });
+
+  if (args.dryRun) {
+    logger.success('dry run complete.');
+    return;
+  }
+
+  if (!fs.existsSync(args.outputDir)) {
+    fs.mkdirSync(args.outputDir, { recursive: true });
+  }
+
+  const data = result.onlyDefs ? result.defData : result.mapData;
+  for (const key of Object.keys(data)) {
+    const collection = data[key as keyof (MapData | DefData)];
+    const filename = `${map}-${key}.json`;
+    logger.log('writing', collection.length, `entries to ${filename}...`);
+
+    const filePath = path.join(args.outputDir, filename);
+    fs.rmSync(filePath, { recursive: true, force: true });
+    const ws = fs.createWriteStream(filePath, {
+      flags: 'a',
+    });
+    try {
+      for (let start = 0; start < collection.length; start += 32768) {
+        let str = JSON.stringify(
+          collection.slice(start, start + 32768),
+          null,
+          2,
+        );
+
+        if (start !== 0) str = ',' + str.substring(1);
+        if (start + 32768 < collection.length)
+          str = str.substring(0, str.length - 1);
+
+        ws.write(str);
+      }
+    } finally {
+      ws.end();
+    }
+  }
+
+  if (!result.onlyDefs && result.modChanges.length > 0) {
+    const filename = `${map}-modChanges.json`;
+    logger.log(
+      'writing',
+      result.modChanges.length,
+      `entries to ${filename}...`,
+    );
+    fs.writeFileSync(
+      path.join(args.outputDir, filename),
+      JSON.stringify(result.modChanges, null, 2),
+    );
+  }
+
+  const pngOutputDir = path.join(args.outputDir, 'icons');
+  if (!result.onlyDefs) {
+    const { icons } = result;
+    logger.log('writing', icons.size, `.png files to ${pngOutputDir}...`);
+    if (!fs.existsSync(pngOutputDir)) {
+      fs.mkdirSync(pngOutputDir);
+    }
+    for (const [name, buffer] of icons) {
+      fs.writeFileSync(path.join(pngOutputDir, name + '.png'), buffer);
+    }
+  }
+
+  logger.success('done.');
+}
+
+function writeConflicts(
+  gameFilePaths: string[],
+  modFilePaths: string[],
+  args: { outputDir: string; dryRun: boolean },
+) {
+  const { map, conflicts } = findMapConflicts(gameFilePaths, modFilePaths);
+  console.log(formatModConflicts(conflicts));
+  if (args.dryRun) {
+    logger.success('dry run complete.');
+    return;
+  }
+
+  if (!fs.existsSync(args.outputDir)) {
+    fs.mkdirSync(args.outputDir, { recursive: true });
+  }
+  const filename = `${map}-conflicts.json`;
+  logger.log('writing', filename + '...');
+  fs.writeFileSync(
+    path.join(args.outputDir, filename),
+    JSON.stringify(conflicts, null, 2),
+  );
+  logger.success('done.');
+}
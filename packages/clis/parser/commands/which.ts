@@ -0,0 +1,48 @@
+import path from 'path';
+import type { Argv, BuilderArguments } from 'yargs';
+import { logger } from '../logger';
+import { entriesOptions, openEntries, toEntryKey } from './archive-helpers';
+
+export const command = 'which <path>';
+export const describe =
+  'Lists the archives that provide a file or directory, in load order, and which archive wins';
+
+export const builder = (yargs: Argv) =>
+  entriesOptions(yargs).positional('path', {
+    describe: 'File or directory to look up',
+    type: 'string',
+    demandOption: true,
+  });
+
+export function handler(args: BuilderArguments<typeof builder>) {
+  const { entries, dispose } = openEntries(args);
+  try {
+    const key = toEntryKey(args.path);
+    const filePaths = entries.getArchivePaths(key);
+    if (filePaths.length) {
+      // the last archive with a file is the one whose file is used.
+      filePaths.forEach((archivePath, i) =>
+        console.log(
+          `${i + 1}. ${path.basename(archivePath)}`,
+          i === filePaths.length - 1 ? '(wins)' : '',
+        ),
+      );
+      return;
+    }
+
+    const directoryPaths = entries.getArchivePaths(key, 'directories');
+    if (directoryPaths.length) {
+      // directories are merged, so there is no winning archive.
+      logger.info(key, 'is a directory, merged from:');
+      directoryPaths.forEach((archivePath, i) =>
+        console.log(`${i + 1}. ${path.basename(archivePath)}`),
+      );
+      return;
+    }
+
+    logger.error('no such file or directory:', key);
+    process.exitCode = 1;
+  } finally {
+    dispose();
+  }
+}
@@ -0,0 +1,57 @@
+import { toModIconName } from '@truckermudgeon/map/icons';
+
+/**
+ * Icons parsed from game and mod archives, kept per-mod so that icons with the
+ * same name in different mods don't overwrite each other.
+ *
+ * Game icons keep their names. Mod icons are named `<name>@<mod>`, where
+ * `<mod>` is the mod's id (see `toModIds`), with characters that aren't safe
+ * in filenames replaced. A suffix is used instead of a prefix so that map
+ * styles that match icons by prefix (e.g., `us` road shields) keep working for
+ * mod icons. `toBaseIconName` strips the suffix, for code that matches icons
+ * by name.
+ */
+export class ArchiveIcons {
+  private readonly modIcons = new Map<string, ReadonlyMap<string, Buffer>>();
+
+  constructor(private readonly gameIcons: ReadonlyMap<string, Buffer>) {}
+
+  /**
+   * Adds the icons parsed from an archive of the mod with id `mod`. Archives
+   * must be added in load order.
+   */
+  addMod(mod: string, icons: ReadonlyMap<string, Buffer>) {
+    // a mod's later archives override its earlier ones.
+    const prev = this.modIcons.get(mod) ?? new Map<string, Buffer>();
+    this.modIcons.set(mod, new Map([...prev, ...icons]));
+  }
+
+  /**
+   * Returns the name of the `name` icon to use for an item defined by
+   * `source`, the id of a mod (or undefined, for items defined by the game).
+   * In order of preference, that's the icon provided by `source`, the icon
+   * provided by the game, or the icon provided by the last-loaded mod.
+   */
+  resolve(name: string, source?: string): string | undefined {
+    if (source != null && this.modIcons.get(source)?.has(name) === true) {
+      return toModIconName(name, source);
+    }
+    if (this.gameIcons.has(name)) {
+      return name;
+    }
+    const lastMod = [...this.modIcons]
+      .filter(([, icons]) => icons.has(name))
+      .map(([mod]) => mod)
+      .at(-1);
+    return lastMod != null ? toModIconName(name, lastMod) : undefined;
+  }
+
+  /** Returns the PNG buffers of all icons, keyed by resolved icon name. */
+  toPngs(): Map<string, Buffer> {
+    const pngs = new Map(this.gameIcons);
+    for (const [mod, icons] of this.modIcons) {
+      icons.forEach((png, name) => pngs.set(toModIconName(name, mod), png));
+    }
+    return pngs;
+  }
+}
@@ -56,6 +56,34 @@ export class CombinedEntries implements Entries {
       .map(a => a.parseEntries().files.get(key))
       .filter(e => e != null);
   }
+
+  /**
+   * Returns the paths of the archives that contain `key`, in load order. For
+   * files, the last path is the archive whose entry `files.get(key)` returns.
+   */
+  getArchivePaths(
+    key: string,
+    store: 'files' | 'directories' = 'files',
+  ): string[] {
+    return this.archives
+      .filter(a => a.parseEntries()[store].get(key) != null)
+      .map(a => a.path);
+  }
+}
+
+/** Yields the paths of all files in directory `dir` and its subdirectories. */
+export function* walkFiles(entries: Entries, dir: string): Generator<string> {
+  const directory = entries.directories.get(dir);
+  if (!directory) {
+    return;
+  }
+  const join = (name: string) => (dir === '' ? name : `${dir}/${name}`);
+  for (const file of directory.files) {
+    yield join(file);
+  }
+  for (const subdirectory of directory.subdirectories) {
+    yield* walkFiles(entries, join(subdirectory));
+  }
 }
 
 class CompositeDirectory implements DirectoryEntry {
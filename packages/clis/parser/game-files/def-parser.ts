@@ -2,6 +2,7 @@ import { assert, assertExists } from '@truckermudgeon/base/assert';
 import { isLaneSpeedClass } from '@truckermudgeon/map/constants';
 import type {
   Achievement,
+  Cargo,
   City,
   Company,
   Country,
@@ -25,6 +26,7 @@ import { parsePrefabPpd } from './prefab-ppd-parser';
 import type { Entries } from './scs-archive';
 import type {
   AchievementsSii,
+  CargoDataSii,
   CitySii,
   CompanySii,
   CountrySii,
@@ -38,6 +40,7 @@ import type {
 } from './sii-schemas';
 import {
   AchievementsSiiSchema,
+  CargoDataSiiSchema,
   CargoSiiSchema,
   CityCompanySiiSchema,
   CitySiiSchema,
@@ -70,6 +73,7 @@ export function parseDefFiles(
   >();
   const countries = new Map<string, Country>();
   const companies = new Map<string, Company>();
+  const cargos = new Map<string, Cargo>();
   const ferries = new Map<
     string,
     Omit<Ferry, 'nodeUid' | 'x' | 'y' | 'connections' | 'train'> & {
@@ -115,6 +119,7 @@ export function parseDefFiles(
       mileageTargets,
       countries,
       companies,
+      cargos,
       ferries,
       roadLooks,
       vegetation,
@@ -128,7 +133,7 @@ export function parseDefFiles(
     },
     cliProgress.Presets.rect,
   );
-  bar.start(10, 0, { filename: 'city' });
+  bar.start(11, 0, { filename: 'city' });
 
   const city = entries.directories.get('def/city');
   if (city) {
@@ -165,6 +170,22 @@ export function parseDefFiles(
     }
   }
 
+  bar.increment({ filename: 'cargo' });
+  const cargo = entries.directories.get('def/cargo');
+  if (cargo) {
+    const cargoFiles = cargo.files.filter(
+      f => f.endsWith('.sui') || f.endsWith('.sii'),
+    );
+    for (const cargoFile of cargoFiles) {
+      processAndAdd(
+        `def/cargo/${cargoFile}`,
+        CargoDataSiiSchema,
+        processCargoJson,
+        cargos,
+      );
+    }
+  }
+
   bar.increment({ filename: 'ferry' });
   const ferry = entries.directories.get('def/ferry');
   if (ferry) {
@@ -218,6 +239,7 @@ export function parseDefFiles(
   logger.info('parsed', cities.size, 'cities');
   logger.info('parsed', countries.size, 'states/countries');
   logger.info('parsed', companies.size, 'companies');
+  logger.info('parsed', cargos.size, 'cargos');
   logger.info('parsed', ferries.size, 'ferry/train terminals');
 
   bar.increment({ filename: 'dealers' });
@@ -413,6 +435,7 @@ export function parseDefFiles(
     cities,
     countries,
     companies,
+    cargos,
     ferries,
     prefabs,
     roadLooks,
@@ -558,6 +581,22 @@ function processCompanyJson(obj: CompanySii, entries: Entries): Company {
   };
 }
 
+function processCargoJson(obj: CargoDataSii): Cargo {
+  const [tokenPath, rawCargo] = Object.entries(obj.cargoData)[0];
+  const token = tokenPath.replace(/^cargo\./, '');
+  const isLocalized = rawCargo.name.startsWith('@@');
+  return {
+    token,
+    name: isLocalized ? token : rawCargo.name,
+    nameLocalized: isLocalized ? rawCargo.name : undefined,
+    mass: rawCargo.mass ?? 0,
+    value: rawCargo.unitRewardPerKm ?? 0,
+    // ADR class 0 means "not hazardous".
+    adrClass: rawCargo.adrClass !== 0 ? rawCargo.adrClass : undefined,
+    fragility: rawCargo.fragility ?? 0,
+  };
+}
+
 function processFerryJson(obj: FerrySii, entries: Entries) {
   const objEntries = Object.entries(obj.ferryData);
   const [tokenPath, rawFerry] = objEntries[0];
@@ -0,0 +1,124 @@
+import { putIfAbsent } from '@truckermudgeon/base/map';
+import { logger } from '../logger';
+import { convertSiiToJson } from './convert-sii-to-json';
+import type { Entries } from './scs-archive';
+import { LocalizationSiiSchema } from './sii-schemas';
+
+/** Returns `locales` with `en_us`, which is always parsed, prepended. */
+export function withDefaultLocale(locales: readonly string[]): string[] {
+  return [...new Set(['en_us', ...locales])];
+}
+
+/**
+ * Parses the localization files for `en_us` and `locales` into maps of
+ * localization keys to localized strings, keyed by locale.
+ */
+export function parseLocaleFiles(
+  entries: Entries,
+  locales: readonly string[] = [],
+): Map<string, Map<string, string>> {
+  const l10nStrings = new Map<string, Map<string, string>>();
+
+  let numKeys = 0;
+  const locale = entries.directories.get('locale');
+  if (!locale) return l10nStrings;
+
+  for (const localeName of withDefaultLocale(locales)) {
+    if (!locale.subdirectories.includes(localeName)) {
+      continue;
+    }
+
+    logger.log(`parsing ${localeName} locale files...`);
+    const localeSubdir = entries.directories.get(`locale/${localeName}`);
+    if (!localeSubdir) continue;
+
+    const localeMap = putIfAbsent(
+      localeName,
+      new Map<string, string>(),
+      l10nStrings,
+    );
+    for (const f of localeSubdir.files) {
+      if (!f.startsWith('local') && f !== 'photoalbum.sui') {
+        continue;
+      }
+      const json = convertSiiToJson(
+        `locale/${localeName}/${f}`,
+        entries,
+        LocalizationSiiSchema,
+      );
+      if (!json) continue;
+
+      const l10n = json.localizationDb['.localization'];
+      if (Object.keys(l10n).length === 0) {
+        continue;
+      }
+      const { key, val } = l10n;
+
+      for (let i = 0; i < key.length; i++) {
+        localeMap.set(key[i], val[i]);
+      }
+    }
+    // assumes all locales have the same number of entries.
+    numKeys = localeMap.size;
+  }
+
+  logger.info(l10nStrings.size, 'locales,', numKeys, 'strings each');
+  return l10nStrings;
+}
+
+export function createWithLocalizedName(
+  l10ns: ReadonlyMap<string, ReadonlyMap<string, string>>,
+) {
+  const l10n = l10ns.get('en_us') ?? new Map<string, string>();
+  return <T extends { name: string; nameLocalized: string | undefined }>(
+    o: T,
+  ) => {
+    const name = localize(l10n, o.nameLocalized) ?? o.name;
+    return {
+      ...o,
+      nameLocalized: undefined,
+      name,
+      names: toLocalizedNames(l10ns, o.nameLocalized, name),
+    };
+  };
+}
+
+export function createWithLocalizedCompanyName(
+  l10ns: ReadonlyMap<string, ReadonlyMap<string, string>>,
+) {
+  const l10n = l10ns.get('en_us') ?? new Map<string, string>();
+  return <T extends { name: string }>(o: T) => {
+    // company names are usually brand names, and are rarely localized.
+    const nameLocalized = o.name.startsWith('@@') ? o.name : undefined;
+    const name = localize(l10n, nameLocalized) ?? o.name;
+    return {
+      ...o,
+      name,
+      names: toLocalizedNames(l10ns, nameLocalized, name),
+    };
+  };
+}
+
+function toLocalizedNames(
+  l10ns: ReadonlyMap<string, ReadonlyMap<string, string>>,
+  nameLocalized: string | undefined,
+  fallback: string,
+): Record<string, string> {
+  return Object.fromEntries(
+    l10ns
+      .entries()
+      .map(([locale, l10n]) => [
+        locale,
+        localize(l10n, nameLocalized) ?? fallback,
+      ]),
+  );
+}
+
+function localize(
+  l10n: ReadonlyMap<string, string>,
+  nameLocalized: string | undefined,
+): string | undefined {
+  return nameLocalized
+    ? l10n.get(nameLocalized.replaceAll('@', ''))
+    : undefined;
+}
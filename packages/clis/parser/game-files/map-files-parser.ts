@@ -9,6 +9,7 @@ import {
 } from '@truckermudgeon/map/constants';
 import { toMapPosition } from '@truckermudgeon/map/prefabs';
 import type {
+  BaseItem,
   Building,
   City,
   CityArea,
@@ -23,6 +24,7 @@ import type {
   MapArea,
   MapData,
   MapOverlay,
+  Mod,
   Model,
   Node,
   Poi,
@@ -33,28 +35,46 @@ import type {
   Trigger,
 } from '@truckermudgeon/map/types';
 import * as cliProgress from 'cli-progress';
+import fs from 'fs';
 import path from 'path';
 import { logger } from '../logger';
+import { ArchiveIcons } from './archive-icons';
 import { CombinedEntries } from './combined-entries';
 import { convertSiiToJson } from './convert-sii-to-json';
 import { parseDds } from './dds-parser';
 import { parseDefFiles } from './def-parser';
+import {
+  createWithLocalizedCompanyName,
+  createWithLocalizedName,
+  parseLocaleFiles,
+  withDefaultLocale,
+} from './locales';
+import type { ModConflicts } from './mod-conflicts';
+import { findModConflicts } from './mod-conflicts';
+import type { ModManifest } from './mods-load-order';
+import { parseModManifest, toModIds, toPackageName } from './mods-load-order';
+import type { ArchiveKey } from './parser-cache';
+import { ParserCache, toArchiveKey, toModCacheName } from './parser-cache';
 import type { Entries } from './scs-archive';
 import { ScsArchive, ScsArchiveFileV2 } from './scs-archive';
+import type { ModSectorChanges } from './sector-merger';
+import { SectorMerger } from './sector-merger';
 import { parseSector } from './sector-parser';
-import {
-  IconMatSchema,
-  LocalizationSiiSchema,
-  VersionSiiSchema,
-} from './sii-schemas';
+import { IconMatSchema, VersionSiiSchema } from './sii-schemas';
 
 export function parseMapFiles(
   gameFilePaths: string[],
   modFilePaths: string[],
   {
     onlyDefs,
+    locales = [],
+    cacheDir,
   }: {
     onlyDefs: boolean;
+    /** Locales to parse, in addition to `en_us`. */
+    locales?: readonly string[];
+    /** Dir to cache parsed archive data in. Caching is disabled if undefined. */
+    cacheDir?: string;
   },
 ):
   | {
@@ -62,6 +82,7 @@ export function parseMapFiles(
       map: string;
       mapData: MapData;
       icons: Map<string, Buffer>;
+      modChanges: readonly ModSectorChanges[];
     }
   | {
       onlyDefs: true;
@@ -69,8 +90,12 @@ export function parseMapFiles(
       defData: DefData;
     } {
   let version: ReturnType<typeof parseVersionSii>;
-  let l10n = new Map<string, string>();
-  let icons: ReturnType<typeof parseIconMatFiles> = new Map<string, Buffer>();
+  const allLocales = withDefaultLocale(locales);
+  let l10ns = new Map<string, Map<string, string>>();
+  let gameIcons: ReturnType<typeof parseIconMatFiles> = new Map<
+    string,
+    Buffer
+  >();
   let sectorData: ReturnType<typeof parseSectorFiles> = {
     map: '',
     sectors: new Map<
@@ -89,46 +114,131 @@ export function parseMapFiles(
     return ScsArchive(p);
   });
 
+  const cache = cacheDir ? new ParserCache(cacheDir) : undefined;
+  const withCache = <T>(
+    name: string,
+    keys: readonly ArchiveKey[],
+    compute: () => T,
+    params?: object,
+  ) => (cache ? cache.getOrCompute(name, keys, compute, params) : compute());
+  const gameKeys = cache ? gameArchives.map(toArchiveKey) : [];
+  const modKeys = cache ? modArchives.map(toArchiveKey) : [];
+
   try {
     const gameEntries = new CombinedEntries(gameArchives);
     const entries = new CombinedEntries(gameArchives.concat(modArchives));
 
     version = parseVersionSii(gameEntries);
-    l10n = parseLocaleFiles(gameEntries).get('en_us') ?? l10n;
+    const application = version.application;
+    l10ns = withCache(
+      'game-locales',
+      gameKeys,
+      () => parseLocaleFiles(gameEntries, allLocales),
+      { locales: allLocales },
+    );
 
-    defData = parseDefFiles(entries, version.application);
+    defData = withCache('defs', gameKeys.concat(modKeys), () =>
+      parseDefFiles(entries, application),
+    );
 
     // parse game files
     if (!onlyDefs) {
-      // TODO: find a solution to handle icons with same name between different mods
-      icons = parseIconMatFiles(gameEntries);
+      gameIcons = withCache('game-icons', gameKeys, () =>
+        parseIconMatFiles(gameEntries),
+      );
 
-      sectorData = parseSectorFiles(gameEntries, version.application);
+      sectorData = withCache('game-sectors', gameKeys, () =>
+        parseSectorFiles(gameEntries, application),
+      );
     }
   } finally {
     gameArchives.forEach(a => a.dispose());
   }
 
   // parse mod files
+  const modIds = toModIds(modFilePaths);
+  const mods = new Map<string, Mod>();
+  // mods that contributed defs, locale strings, or icons to the output.
+  const nonItemMods = new Set<string>();
+  const icons = new ArchiveIcons(gameIcons);
+  const sectorMerger = new SectorMerger(sectorData.sectors);
   let success = 0;
   let failure = 0;
-  for (const modArchive of modArchives) {
+  for (const [i, modArchive] of modArchives.entries()) {
     logger.log('parsing', path.basename(modArchive.path));
 
     try {
-      const modEntry = modArchive.parseEntries();
+      const modData = withCache(
+        toModCacheName(modIds[i], modArchive.path),
+        modKeys.slice(i, i + 1),
+        () => {
+          const modEntry = modArchive.parseEntries();
+          return {
+            l10ns: parseLocaleFiles(modEntry, allLocales),
+            ...(onlyDefs
+              ? {}
+              : {
+                  icons: parseIconMatFiles(modEntry),
+                  sectorData: parseSectorFiles(modEntry, version.application),
+                  manifest: readModManifest(modArchive.path, modEntry),
+                  hasDefsOrLocales:
+                    modEntry.directories.get('def') != null ||
+                    modEntry.directories.get('locale') != null,
+                }),
+          };
+        },
+        {
+          locales: allLocales,
+          onlyDefs,
+          // the manifest may be read from outside of the archive.
+          siblingManifest: toFileKey(toSiblingManifestPath(modArchive.path)),
+        },
+      );
 
-      const modL10n =
-        parseLocaleFiles(modEntry).get('en_us') ?? new Map<string, string>();
-      modL10n.forEach((v, k) => l10n.set(k, v));
+      for (const [locale, modL10n] of modData.l10ns) {
+        const l10n = putIfAbsent(locale, new Map<string, string>(), l10ns);
+        modL10n.forEach((v, k) => l10n.set(k, v));
+      }
 
-      if (!onlyDefs) {
-        const modIcons = parseIconMatFiles(modEntry);
-        // TODO: find a solution to handle icons with same name between different mods
-        modIcons.forEach((v, k) => icons.set(k, v));
+      if (modData.icons && modData.sectorData) {
+        const modId = modIds[i];
+        const archive = path.basename(modArchive.path);
+        const prevMod = mods.get(modId);
+        mods.set(
+          modId,
+          prevMod
+            ? { ...prevMod, archives: [...prevMod.archives, archive] }
+            : {
+                id: modId,
+                archives: [archive],
+                packageName: toPackageName(modArchive.path),
+                categories: [],
+                compatibleVersions: [],
+                ...modData.manifest,
+              },
+        );
+        icons.addMod(modId, modData.icons);
+        if (modData.icons.size > 0 || modData.hasDefsOrLocales) {
+          nonItemMods.add(modId);
+        }
 
-        const modSectorData = parseSectorFiles(modEntry, version.application);
-        modSectorData.sectors.forEach((v, k) => sectorData.sectors.set(k, v));
+        const modSectorData = modData.sectorData;
+        const { items, nodes } = sectorMerger.merge(
+          modId,
+          modSectorData.sectors,
+        );
+        logger.info(
+          items.added.length,
+          'items added,',
+          items.replaced.length,
+          'replaced,',
+          items.removed.length,
+          'removed;',
+          nodes.added.length,
+          'nodes added,',
+          nodes.replaced.length,
+          'replaced',
+        );
 
         if (modSectorData.error) {
           failure++;
@@ -156,17 +266,58 @@ export function parseMapFiles(
     return {
       onlyDefs: true,
       map: version.application === 'ats' ? 'usa' : 'europe',
-      defData: toDefData(defData, l10n),
+      defData: toDefData(defData, l10ns),
     };
   }
   sectorData.map = version.application === 'ats' ? 'usa' : 'europe';
+  // only list mods that contributed items, defs, locale strings, or icons to
+  // the output; mods whose items were all replaced or removed by later mods
+  // (and that provide nothing else) are left out.
+  const sourceMods = new Set(sectorMerger.itemSources.values());
+  const contributingMods = [...mods.values()].filter(
+    m => sourceMods.has(m.id) || nonItemMods.has(m.id),
+  );
   return {
     onlyDefs: false,
-    ...postProcess(defData, sectorData, icons, l10n),
+    ...postProcess(
+      defData,
+      sectorData,
+      icons,
+      sectorMerger.itemSources,
+      contributingMods,
+      l10ns,
+    ),
+    modChanges: sectorMerger.changes,
   };
 }
 
-function parseVersionSii(entries: Entries) {
+/**
+ * Returns the files, sectors, def tokens, and icons that are provided by more
+ * than one of the given archives, where at least one of them is a mod.
+ */
+export function findMapConflicts(
+  gameFilePaths: string[],
+  modFilePaths: string[],
+): { map: string; conflicts: ModConflicts } {
+  const gameArchives = gameFilePaths.map(p => ScsArchive(p));
+  const modArchives = modFilePaths.map(p => ScsArchive(p));
+  try {
+    const { application } = parseVersionSii(new CombinedEntries(gameArchives));
+    logger.start('finding conflicts between', modArchives.length, 'mods');
+    return {
+      map: application === 'ats' ? 'usa' : 'europe',
+      conflicts: findModConflicts(
+        gameArchives.filter(a => a.isValid()),
+        modArchives.filter(a => a.isValid()),
+      ),
+    };
+  } finally {
+    gameArchives.forEach(a => a.dispose());
+    modArchives.forEach(a => a.dispose());
+  }
+}
+
+export function parseVersionSii(entries: Entries) {
   const { application, version } = assertExists(
     Object.values(
       convertSiiToJson('version.sii', entries, VersionSiiSchema).fsPackSet,
@@ -176,6 +327,54 @@ function parseVersionSii(entries: Entries) {
   return { application, version };
 }
 
+/**
+ * Returns the `manifest.sii` data for the mod archive at `archivePath`, using
+ * its already-parsed `entries` if given. Steam Workshop mods may keep their
+ * manifest next to their archives instead, so that's checked, too.
+ */
+export function readModManifest(
+  archivePath: string,
+  entries?: Entries,
+): ModManifest | undefined {
+  let buffer: Buffer | undefined;
+  if (entries) {
+    buffer = entries.files.get('manifest.sii')?.read();
+  } else {
+    const archive = ScsArchive(archivePath);
+    try {
+      buffer = archive.parseEntries().files.get('manifest.sii')?.read();
+    } finally {
+      archive.dispose();
+    }
+  }
+
+  const siblingPath = toSiblingManifestPath(archivePath);
+  if (!buffer && fs.existsSync(siblingPath)) {
+    buffer = fs.readFileSync(siblingPath);
+  }
+  return buffer
+    ? parseModManifest(buffer, `${archivePath}/manifest.sii`)
+    : undefined;
+}
+
+function toSiblingManifestPath(archivePath: string): string {
+  return path.join(path.dirname(archivePath), 'manifest.sii');
+}
+
+/**
+ * Identifies the contents of the file at `filePath`, for cache-invalidation
+ * purposes. Returns undefined if there's no such file.
+ */
+function toFileKey(
+  filePath: string,
+): { size: number; mtimeMs: number } | undefined {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+  const { size, mtimeMs } = fs.statSync(filePath);
+  return { size, mtimeMs };
+}
+
 export function parseSectorFiles(
   entries: Entries,
   application: 'ats' | 'eut2',
@@ -291,54 +490,6 @@ export function parseSectorFiles(
   };
 }
 
-export function parseLocaleFiles(
-  entries: Entries,
-): Map<string, Map<string, string>> {
-  const l10nStrings = new Map<string, Map<string, string>>();
-
-  let numKeys = 0;
-  const locale = entries.directories.get('locale');
-  if (!locale) return l10nStrings;
-
-  if (locale.subdirectories.includes('en_us')) {
-    logger.log('parsing locale files...');
-    const localeSubdir = entries.directories.get(`locale/en_us`);
-    if (!localeSubdir) return l10nStrings;
-
-    const localeMap = putIfAbsent(
-      'en_us',
-      new Map<string, string>(),
-      l10nStrings,
-    );
-    for (const f of localeSubdir.files) {
-      if (!f.startsWith('local') && f !== 'photoalbum.sui') {
-        continue;
-      }
-      const json = convertSiiToJson(
-        `locale/en_us/${f}`,
-        entries,
-        LocalizationSiiSchema,
-      );
-      if (!json) continue;
-
-      const l10n = json.localizationDb['.localization'];
-      if (Object.keys(l10n).length === 0) {
-        continue;
-      }
-      const { key, val } = l10n;
-
-      for (let i = 0; i < key.length; i++) {
-        localeMap.set(key[i], val[i]);
-      }
-    }
-    // assumes all locales have the same number of entries.
-    numKeys = localeMap.size;
-  }
-
-  logger.info(l10nStrings.size, 'locales,', numKeys, 'strings each');
-  return l10nStrings;
-}
-
 export function parseIconMatFiles(entries: Entries) {
   logger.log('parsing icon .mat files...');
 
@@ -454,9 +605,13 @@ export function parseIconMatFiles(entries: Entries) {
 export function postProcess(
   defData: ReturnType<typeof parseDefFiles>,
   { sectors, map }: ReturnType<typeof parseSectorFiles>,
-  icons: ReturnType<typeof parseIconMatFiles>,
-  l10n: Map<string, string>,
+  icons: ArchiveIcons,
+  /** The ids of the mods that defined items, keyed by item uid. */
+  itemSources: ReadonlyMap<bigint, string>,
+  mods: readonly Mod[],
+  l10ns: ReadonlyMap<string, ReadonlyMap<string, string>>,
 ): { map: string; mapData: MapData; icons: Map<string, Buffer> } {
+  const l10n = l10ns.get('en_us') ?? new Map<string, string>();
   logger.log('building node and item LUTs...');
   const nodesByUid = new Map<bigint, Node>();
   const itemsByUid = new Map<bigint, Item>();
@@ -487,6 +642,11 @@ export function postProcess(
   )[] = [];
   const trajectories: TrajectoryItem[] = [];
 
+  const withSourceMod = <T extends BaseItem>(item: T): T => {
+    const sourceMod = itemSources.get(item.uid);
+    return sourceMod != null ? { ...item, sourceMod } : item;
+  };
+
   logger.log("checking items' references...");
   const start = Date.now();
   for (const item of itemsByUid.values()) {
@@ -515,7 +675,7 @@ export function postProcess(
           referencedNodeUids.add(uid);
           elevationNodeUids.add(uid);
         });
-        prefabs.push(item);
+        prefabs.push(withSourceMod(item));
         prefabsByUid.set(item.uid, item);
         poifulItems.push(item);
         break;
@@ -543,7 +703,12 @@ export function postProcess(
         break;
       case ItemType.Company:
         checkReference(item.nodeUid, nodesByUid, 'nodeUid', item);
-        checkReference(item.token, icons, 'company token', item);
+        checkReference(
+          item.token,
+          { has: token => icons.resolve(token) != null },
+          'company token',
+          item,
+        );
         // disable this line when not processing every state; gets noisy otherwise.
         checkReference(item.cityToken, defData.cities, 'city token', item);
         referencedNodeUids.add(item.nodeUid);
@@ -716,10 +881,11 @@ export function postProcess(
         const { x, y, sectorX, sectorY } = item;
         const pos = { x, y, sectorX, sectorY };
         switch (item.overlayType) {
-          case MapOverlayType.Road:
+          case MapOverlayType.Road: {
+            const icon = icons.resolve(item.token, itemSources.get(item.uid));
             if (item.token === '') {
               // ignore
-            } else if (!icons.has(item.token)) {
+            } else if (icon == null) {
               logger.warn(
                 `unknown road overlay token "${item.token}". skipping.`,
               );
@@ -731,10 +897,11 @@ export function postProcess(
                 type: 'road',
                 dlcGuard: item.dlcGuard,
                 nodeUid: item.nodeUid,
-                icon: item.token,
+                icon,
               });
             }
             break;
+          }
           case MapOverlayType.Parking:
             pois.push({
               ...pos,
@@ -783,7 +950,8 @@ export function postProcess(
           );
           break;
         }
-        if (!icons.has(item.token)) {
+        const icon = icons.resolve(item.token, itemSources.get(item.uid));
+        if (icon == null) {
           noPoiCompanies.push({
             token: item.token,
             itemUid: item.uid,
@@ -827,14 +995,16 @@ export function postProcess(
         pois.push({
           ...pos,
           type: 'company',
-          icon: item.token,
+          icon,
           label: companyName ?? item.token,
         });
-        companies.push({
-          ...item,
-          x,
-          y,
-        });
+        companies.push(
+          withSourceMod({
+            ...item,
+            x,
+            y,
+          }),
+        );
         break;
       }
       case ItemType.Ferry: {
@@ -929,10 +1099,13 @@ export function postProcess(
       x: nonHidden.x,
       y: nonHidden.y,
       areas,
+      // cities are sourced from the mod that defined their location.
+      sourceMod: itemSources.get(nonHidden.uid),
     });
   }
 
-  const withLocalizedName = createWithLocalizedName(l10n);
+  const withLocalizedName = createWithLocalizedName(l10ns);
+  const withLocalizedCompanyName = createWithLocalizedCompanyName(l10ns);
 
   // Augment partial ferry info from defs with start/end position info
   const ferries: Ferry[] = [];
@@ -1000,7 +1173,7 @@ export function postProcess(
     const sectorDividers: (Terrain | Building | Curve)[] = [];
     for (const i of items.values()) {
       if (i.type === ItemType.Road) {
-        sectorRoads.push(i);
+        sectorRoads.push(withSourceMod(i));
       } else if (i.type === ItemType.Terrain) {
         sectorDividers.push(i);
       } else if (i.type === ItemType.Building) {
@@ -1109,26 +1282,34 @@ export function postProcess(
       cutscenes,
       countries: valuesWithTokens(defData.countries).map(withLocalizedName),
       cities: valuesWithTokens(cities).map(withLocalizedName),
-      companyDefs: valuesWithTokens(defData.companies),
+      companyDefs: valuesWithTokens(defData.companies).map(
+        withLocalizedCompanyName,
+      ),
+      cargos: valuesWithTokens(defData.cargos).map(withLocalizedName),
       roadLooks: valuesWithTokens(defData.roadLooks),
       prefabDescriptions: valuesWithTokens(defData.prefabs),
       modelDescriptions: valuesWithTokens(defData.models),
       achievements: valuesWithTokens(defData.achievements),
       routes: valuesWithTokens(defData.routes),
       mileageTargets: valuesWithTokens(defData.mileageTargets),
+      mods: [...mods],
     },
-    icons,
+    icons: icons.toPngs(),
   };
 }
 
 function toDefData(
   defData: ReturnType<typeof parseDefFiles>,
-  l10n: Map<string, string>,
+  l10ns: ReadonlyMap<string, ReadonlyMap<string, string>>,
 ) {
-  const withLocalizedName = createWithLocalizedName(l10n);
+  const withLocalizedName = createWithLocalizedName(l10ns);
+  const withLocalizedCompanyName = createWithLocalizedCompanyName(l10ns);
   return {
     countries: valuesWithTokens(defData.countries).map(withLocalizedName),
-    companyDefs: valuesWithTokens(defData.companies),
+    companyDefs: valuesWithTokens(defData.companies).map(
+      withLocalizedCompanyName,
+    ),
+    cargos: valuesWithTokens(defData.cargos).map(withLocalizedName),
     roadLooks: valuesWithTokens(defData.roadLooks),
     prefabDescriptions: valuesWithTokens(defData.prefabs),
     modelDescriptions: valuesWithTokens(defData.models),
@@ -1138,18 +1319,6 @@ function toDefData(
   };
 }
 
-function createWithLocalizedName(l10n: Map<string, string>) {
-  return <T extends { name: string; nameLocalized: string | undefined }>(
-    o: T,
-  ) => ({
-    ...o,
-    nameLocalized: undefined,
-    name: o.nameLocalized
-      ? (l10n.get(o.nameLocalized.replaceAll('@', '')) ?? o.name)
-      : o.name,
-  });
-}
-
 function valuesWithTokens<V>(map: Map<string, V>): (V & { token: string })[] {
   return [...map.entries()].map(([token, v]) => ({ token, ...v }));
 }
@@ -0,0 +1,262 @@
+import { putIfAbsent } from '@truckermudgeon/base/map';
+import path from 'path';
+import { walkFiles } from './combined-entries';
+import { convertSiiToJson } from './convert-sii-to-json';
+import { toModIds } from './mods-load-order';
+import type { Entries } from './scs-archive';
+import { AnySiiSchema } from './sii-schemas';
+
+export interface Conflict {
+  /** The path, sector key, def token, or icon name provided more than once. */
+  key: string;
+  /**
+   * Names of the game archives and ids of the mods (see `toModIds`) that
+   * provide `key`, in load order.
+   */
+  archives: string[];
+  /**
+   * Name of the game archive or id of the mod whose version of `key` is used.
+   * Undefined for sectors, whose items are merged.
+   */
+  winner?: string;
+}
+
+export interface ModConflicts {
+  files: Conflict[];
+  sectors: Conflict[];
+  defTokens: Record<DefTokenType, Conflict[]>;
+  icons: Conflict[];
+}
+
+type DefTokenType = 'countries' | 'companyDefs' | 'roadLooks' | 'prefabs';
+
+interface Archive {
+  readonly path: string;
+  parseEntries(): Entries;
+}
+
+// Top-level directories to search, for archives without a root directory.
+const fallbackRoots = ['def', 'map', 'material', 'locale'];
+
+// Directories that contain def files, how to find def files in them, and how
+// to convert a def file's unit names into tokens.
+const defSources: Record<
+  DefTokenType,
+  {
+    dir: string;
+    filter: (f: string) => boolean;
+    toTokens: (json: Record<string, unknown>) => string[];
+  }
+> = {
+  countries: {
+    dir: 'def/country',
+    filter: f => /\.(sii|sui)$/.test(f),
+    toTokens: json => unitNames(json['countryData']).map(k => k.split('.')[2]),
+  },
+  companyDefs: {
+    dir: 'def/company',
+    filter: f => /\.(sii|sui)$/.test(f),
+    toTokens: json =>
+      unitNames(json['companyPermanent']).map(k => k.split('.')[2]),
+  },
+  roadLooks: {
+    dir: 'def/world',
+    filter: f => f.startsWith('road_look') && f.endsWith('.sii'),
+    toTokens: json => unitNames(json['roadLook']),
+  },
+  prefabs: {
+    dir: 'def/world',
+    filter: f => f.startsWith('prefab') && f.endsWith('.sii'),
+    toTokens: json =>
+      unitNames(json['prefabModel']).map(k => k.replace('prefab.', '')),
+  },
+};
+
+// Directories that contain icon .mat files, and how to convert a .mat
+// filename into an icon name. Mirrors `parseIconMatFiles`.
+const iconSources: {
+  dir: string;
+  toName: (f: string) => string | undefined;
+}[] = [
+  {
+    dir: 'material/ui/map/road',
+    toName: f =>
+      f.startsWith('road_') && f.endsWith('.mat')
+        ? f.replace(/^road_|\.mat$/g, '')
+        : undefined,
+  },
+  {
+    dir: 'material/ui/company/small',
+    toName: f => (f.endsWith('.mat') ? f.replace(/\.mat$/, '') : undefined),
+  },
+];
+
+const sectorFileRegex = /^map\/(\w+)\/(sec[+-]\d{4}[+-]\d{4})\.\w+$/;
+
+/**
+ * Returns the files, sectors, def tokens, and icon names that are provided by
+ * more than one archive, where at least one of those archives is a mod.
+ * Overlaps between game archives (e.g., DLCs that override base game files)
+ * aren't reported.
+ */
+export function findModConflicts(
+  gameArchives: readonly Archive[],
+  modArchives: readonly Archive[],
+): ModConflicts {
+  const archives = [...gameArchives, ...modArchives];
+  // mods are identified by id, because different mods' archives can have the
+  // same filename.
+  const archiveNames = [
+    ...gameArchives.map(a => path.basename(a.path)),
+    ...toModIds(modArchives.map(a => a.path)),
+  ];
+  const modNames = new Set(archiveNames.slice(gameArchives.length));
+  const loadOrder = new Map(archiveNames.map((name, i) => [name, i]));
+
+  const providers = {
+    files: new Map<string, string[]>(),
+    sectors: new Map<string, string[]>(),
+    icons: new Map<string, string[]>(),
+    countries: new Map<string, string[]>(),
+    companyDefs: new Map<string, string[]>(),
+    roadLooks: new Map<string, string[]>(),
+    prefabs: new Map<string, string[]>(),
+  };
+  const addProvider = (
+    map: Map<string, string[]>,
+    key: string,
+    archive: string,
+  ) => {
+    const names = putIfAbsent(key, [], map);
+    if (names.at(-1) !== archive) {
+      names.push(archive);
+    }
+  };
+
+  for (const [i, archive] of archives.entries()) {
+    const name = archiveNames[i];
+    const entries = archive.parseEntries();
+
+    // only files provided by mods need to be checked against other archives.
+    if (modNames.has(name)) {
+      const roots = entries.directories.get('') ? [''] : fallbackRoots;
+      for (const file of roots.flatMap(root => [...walkFiles(entries, root)])) {
+        addProvider(providers.files, file, name);
+      }
+    }
+
+    for (const [type, { dir, filter, toTokens }] of Object.entries(
+      defSources,
+    )) {
+      const files = entries.directories.get(dir)?.files.filter(filter) ?? [];
+      for (const f of files) {
+        const json = convertSiiToJson(`${dir}/${f}`, entries, AnySiiSchema);
+        for (const token of json ? toTokens(json) : []) {
+          addProvider(providers[type as DefTokenType], token, name);
+        }
+      }
+    }
+
+    for (const { dir, toName } of iconSources) {
+      for (const f of entries.directories.get(dir)?.files ?? []) {
+        const iconName = toName(f);
+        if (iconName != null) {
+          addProvider(providers.icons, iconName, name);
+        }
+      }
+    }
+  }
+
+  // add the game archives that provide files also provided by mods, then
+  // group sector files by sector.
+  for (const [file, names] of providers.files) {
+    const gameNames = gameArchives
+      .filter(a => a.parseEntries().files.get(file) != null)
+      .map(a => path.basename(a.path));
+    names.unshift(...gameNames);
+
+    const sectorMatch = sectorFileRegex.exec(file);
+    if (sectorMatch) {
+      const [, map, sectorKey] = sectorMatch;
+      const sectorNames = putIfAbsent(
+        `${map}/${sectorKey}`,
+        [],
+        providers.sectors,
+      );
+      sectorNames.push(...names.filter(n => !sectorNames.includes(n)));
+      sectorNames.sort((a, b) => loadOrder.get(a)! - loadOrder.get(b)!);
+    }
+  }
+
+  const toConflicts = (
+    map: ReadonlyMap<string, string[]>,
+    hasWinner = true,
+  ): Conflict[] =>
+    [...map]
+      .filter(
+        ([, names]) => names.length > 1 && names.some(n => modNames.has(n)),
+      )
+      .map(([key, names]) => ({
+        key,
+        archives: names,
+        winner: hasWinner ? names.at(-1) : undefined,
+      }))
+      .sort((a, b) => a.key.localeCompare(b.key));
+
+  return {
+    files: toConflicts(providers.files),
+    sectors: toConflicts(providers.sectors, false),
+    defTokens: {
+      countries: toConflicts(providers.countries),
+      companyDefs: toConflicts(providers.companyDefs),
+      roadLooks: toConflicts(providers.roadLooks),
+      prefabs: toConflicts(providers.prefabs),
+    },
+    icons: toConflicts(providers.icons),
+  };
+}
+
+/** Formats `conflicts` as human-readable tables, one per kind of conflict. */
+export function formatModConflicts(conflicts: ModConflicts): string {
+  const sections: [string, Conflict[]][] = [
+    ['files', conflicts.files],
+    ['sectors', conflicts.sectors],
+    ['country tokens', conflicts.defTokens.countries],
+    ['company tokens', conflicts.defTokens.companyDefs],
+    ['road look tokens', conflicts.defTokens.roadLooks],
+    ['prefab tokens', conflicts.defTokens.prefabs],
+    ['icons', conflicts.icons],
+  ];
+
+  const lines: string[] = [];
+  for (const [title, rows] of sections) {
+    lines.push(`${title} (${rows.length} conflicts)`);
+    if (rows.length === 0) {
+      lines.push('');
+      continue;
+    }
+    const table = [
+      ['key', 'archives (in load order)', 'winner'],
+      ...rows.map(r => [r.key, r.archives.join(', '), r.winner ?? '(merged)']),
+    ];
+    const widths = table[0].map((_, i) =>
+      Math.max(...table.map(row => row[i].length)),
+    );
+    const toLine = (row: string[]) =>
+      row
+        .map((cell, i) => cell.padEnd(widths[i]))
+        .join(' | ')
+        .trimEnd();
+    lines.push(
+      toLine(table[0]),
+      widths.map(w => '-'.repeat(w)).join('-+-'),
+      ...table.slice(1).map(toLine),
+      '',
+    );
+  }
+  return lines.join('\n');
+}
+
+function unitNames(units: unknown): string[] {
+  return units != null && typeof units === 'object' ? Object.keys(units) : [];
+}
@@ -1,7 +1,38 @@
-﻿import fs from 'fs';
+﻿import { putIfAbsent } from '@truckermudgeon/base/map';
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../logger';
+import { decryptedSii } from './convert-sii-to-json';
+import { parseSii } from './sii-parser';
+import type { ModManifestSii, VersionsSii } from './sii-schemas';
+import { ajv, ModManifestSiiSchema, VersionsSiiSchema } from './sii-schemas';
+import { jsonConverter } from './sii-visitors';
 
-export function getLoadOrder(path: string) {
-  const strs = fs.readFileSync(path, { encoding: 'utf8' });
+/** A mod listed in a profile's `active_mods`. */
+export interface ProfileMod {
+  /**
+   * The mod's package name: the filename (without extension) of a local mod,
+   * or `mod_workshop_package.<hex id>` for a Steam Workshop mod.
+   */
+  packageName: string;
+  /** The mod's name, as shown in the game's mod manager. */
+  displayName: string;
+  /** The mod's Steam Workshop item id, for Steam Workshop mods. */
+  workshopId?: string;
+}
+
+/** The subset of a mod's `manifest.sii` that the parser cares about. */
+export interface ModManifest {
+  displayName?: string;
+  version?: string;
+  author?: string;
+  categories: string[];
+  /** Game versions the mod supports, e.g., `1.50.*`. */
+  compatibleVersions: string[];
+}
+
+export function getLoadOrder(gameLogPath: string) {
+  const strs = fs.readFileSync(gameLogPath, { encoding: 'utf8' });
   const mods: string[] = [];
   const reg = new RegExp('.*\\[mods] Active local mod (.*) \\(name:.*', 'i');
 
@@ -15,3 +46,179 @@ export function getLoadOrder(path: string) {
   }
   return mods;
 }
+
+/**
+ * Returns the active mods listed in the `profile.sii` file at `profilePath`, in
+ * load order.
+ *
+ * `active_mods` lists mods the way the game's mod manager does: highest
+ * priority first. Mods are loaded in reverse, so that higher-priority mods
+ * override lower-priority ones.
+ */
+export function getProfileLoadOrder(profilePath: string): ProfileMod[] {
+  const sii = decryptedSii(fs.readFileSync(profilePath));
+  if (sii.startsWith('BSII') || sii.startsWith('ScsC')) {
+    throw new Error(
+      `${profilePath} is binary or encrypted. Set "g_save_format" to 2 in the game's config.cfg, then re-save the profile.`,
+    );
+  }
+
+  const json = siiToJson(sii, profilePath);
+  const userProfile = Object.values(toRecord(json['userProfile']))[0];
+  const activeMods = toRecord(userProfile)['activeMods'];
+  if (!Array.isArray(activeMods)) {
+    // `active_mods: 0` is parsed as a number.
+    return [];
+  }
+
+  return activeMods
+    .filter((m): m is string => typeof m === 'string')
+    .map(m => {
+      const [packageName, ...rest] = m.split('|');
+      const workshopMatch = /^mod_workshop_package\.([0-9a-f]+)$/i.exec(
+        packageName,
+      );
+      return {
+        packageName,
+        displayName: rest.length ? rest.join('|') : packageName,
+        workshopId: workshopMatch
+          ? BigInt('0x' + workshopMatch[1]).toString()
+          : undefined,
+      };
+    })
+    .reverse();
+}
+
+// Matches paths in Steam Workshop content dirs, e.g.,
+// `steamapps/workshop/content/270880/<item id>/universal.scs`.
+const workshopPathRegex = /[\\/]workshop[\\/]content[\\/]\d+[\\/](\d+)[\\/]/;
+
+/**
+ * Returns ids for the mods that the archives at `modFilePaths` belong to, in
+ * the same order. Archives of the same mod share an id, but archives of
+ * different mods never do, even if they have the same filename (e.g., the
+ * `universal.scs` archives of many Steam Workshop mods).
+ *
+ * Ids are Steam Workshop item ids for archives in Workshop content dirs, and
+ * package names (archive filenames without extensions) otherwise. Archives in
+ * different dirs that would share a package name are prefixed with the names
+ * of their parent dirs instead, e.g., `my_mods/universal`, so that ids don't
+ * depend on where mods are installed.
+ */
+export function toModIds(modFilePaths: readonly string[]): string[] {
+  const candidates = modFilePaths.map(p => {
+    const workshopId = workshopPathRegex.exec(p)?.[1];
+    return workshopId != null
+      ? { id: workshopId, dir: workshopId }
+      : { id: path.parse(p).name, dir: path.dirname(path.resolve(p)) };
+  });
+  const dirsById = new Map<string, Set<string>>();
+  for (const { id, dir } of candidates) {
+    putIfAbsent(id, new Set<string>(), dirsById).add(dir);
+  }
+  return candidates.map(({ id, dir }) =>
+    dirsById.get(id)!.size === 1 ? id : `${path.basename(dir)}/${id}`,
+  );
+}
+
+/**
+ * Returns the package name of the mod that the archive at `archivePath` belongs
+ * to, as it would be listed in a profile's `active_mods`.
+ */
+export function toPackageName(archivePath: string): string {
+  const workshopId = workshopPathRegex.exec(archivePath)?.[1];
+  return workshopId != null
+    ? `mod_workshop_package.${BigInt(workshopId).toString(16).toUpperCase().padStart(16, '0')}`
+    : path.parse(archivePath).name;
+}
+
+/**
+ * Returns the subset of the `manifest.sii` data in `buffer` that the parser
+ * cares about, or undefined if it can't be parsed.
+ */
+export function parseModManifest(
+  buffer: Buffer,
+  manifestPath: string,
+): ModManifest | undefined {
+  try {
+    const json = siiToJson(decryptedSii(buffer), manifestPath);
+    const validate = ajv.compile<ModManifestSii>(ModManifestSiiSchema);
+    if (!validate(json)) {
+      logger.debug('error validating', manifestPath);
+      logger.debug(ajv.errorsText(validate.errors));
+      return undefined;
+    }
+    const manifest = Object.values(json.modPackage)[0];
+    return {
+      displayName: manifest.displayName,
+      version: manifest.packageVersion,
+      author: manifest.author,
+      categories: manifest.category ?? [],
+      compatibleVersions: manifest.compatibleVersions ?? [],
+    };
+  } catch (e) {
+    logger.warn('error parsing', manifestPath, e);
+    return undefined;
+  }
+}
+
+/**
+ * Returns the name of the subdirectory to load a Steam Workshop mod's archives
+ * from, given the `versions.sii` data in `buffer`: the first package whose
+ * `compatible_versions` match `gameVersion`. Returns undefined if no package
+ * matches, or if `versions.sii` can't be parsed.
+ */
+export function parseWorkshopPackageDir(
+  buffer: Buffer,
+  versionsPath: string,
+  gameVersion: string,
+): string | undefined {
+  try {
+    const json = siiToJson(decryptedSii(buffer), versionsPath);
+    const validate = ajv.compile<VersionsSii>(VersionsSiiSchema);
+    if (!validate(json)) {
+      logger.debug('error validating', versionsPath);
+      logger.debug(ajv.errorsText(validate.errors));
+      return undefined;
+    }
+    return Object.values(json.packageVersionInfo).find(info =>
+      isCompatibleVersion(info.compatibleVersions ?? [], gameVersion),
+    )?.packageName;
+  } catch (e) {
+    logger.warn('error parsing', versionsPath, e);
+    return undefined;
+  }
+}
+
+/**
+ * Returns whether `gameVersion` (e.g., `1.50.1.0`) matches one of a manifest's
+ * `compatibleVersions` (e.g., `1.50.*`). Mods that don't declare compatible
+ * versions are assumed to be compatible.
+ */
+export function isCompatibleVersion(
+  compatibleVersions: readonly string[],
+  gameVersion: string,
+): boolean {
+  if (compatibleVersions.length === 0) {
+    return true;
+  }
+  return compatibleVersions.some(pattern => {
+    const parts = pattern.split('.');
+    const versionParts = gameVersion.split('.');
+    return parts.every((p, i) => p === '*' || p === versionParts[i]);
+  });
+}
+
+function siiToJson(sii: string, siiPath: string): Record<string, unknown> {
+  const res = parseSii(sii);
+  if (!res.ok) {
+    throw new Error(`error parsing ${siiPath}`);
+  }
+  return jsonConverter.convert(res.cst);
+}
+
+function toRecord(value: unknown): Record<string, unknown> {
+  return value != null && typeof value === 'object'
+    ? (value as Record<string, unknown>)
+    : {};
+}
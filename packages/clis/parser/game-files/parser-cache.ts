@@ -0,0 +1,120 @@
+import fs from 'fs';
+import path from 'path';
+import v8 from 'v8';
+import { logger } from '../logger';
+import type { ScsArchiveV2 } from './scs-archive';
+import type { ScsArchiveV1 } from './scs-archive-V1';
+import type { ZipArchive } from './zip-archive';
+
+/**
+ * Version of the format of cached values. Bump this whenever the shape of a
+ * cached value changes (e.g., when a field is added to `DefData`), so that
+ * entries written by older versions of the parser are treated as stale.
+ */
+const cacheVersion = 3;
+
+/** Identifies the contents of an archive, for cache-invalidation purposes. */
+export interface ArchiveKey {
+  path: string;
+  size: number;
+  mtimeMs: number;
+  entryHash: string;
+}
+
+export function toArchiveKey(
+  archive: ScsArchiveV1 | ScsArchiveV2 | ZipArchive,
+): ArchiveKey {
+  const { size, mtimeMs } = fs.statSync(archive.path);
+  return {
+    path: path.resolve(archive.path),
+    size,
+    mtimeMs,
+    entryHash: archive.isValid() ? archive.entryHash() : '',
+  };
+}
+
+/**
+ * Returns the name of the cache entry for the archive at `archivePath`, which
+ * belongs to the mod with id `modId`. Archive filenames aren't unique across
+ * mods (e.g., Steam Workshop mods' `universal.scs`), so the id is included.
+ */
+export function toModCacheName(modId: string, archivePath: string): string {
+  return `mod-${modId}-${path.basename(archivePath)}`;
+}
+
+/**
+ * An on-disk cache of parsed archive data.
+ *
+ * Entries are stored as pairs of files: a `.key.json` file containing the
+ * cache version and the `ArchiveKey`s (and any extra parameters) the entry was
+ * computed from, and a `.bin` file containing the `v8`-serialized value (which
+ * preserves `Map`s, `bigint`s, and `Buffer`s).
+ */
+export class ParserCache {
+  constructor(readonly dir: string) {}
+
+  get<T>(name: string, keys: readonly ArchiveKey[], params?: object) {
+    const { keyPath, valuePath } = this.paths(name);
+    if (!fs.existsSync(keyPath) || !fs.existsSync(valuePath)) {
+      return undefined;
+    }
+    if (fs.readFileSync(keyPath, 'utf-8') !== toKeyString(keys, params)) {
+      logger.debug('cache entry', name, 'is stale');
+      return undefined;
+    }
+
+    try {
+      const value = v8.deserialize(fs.readFileSync(valuePath)) as T;
+      logger.info('using cached', name);
+      return value;
+    } catch (e) {
+      logger.warn('could not read cache entry', name, e);
+      return undefined;
+    }
+  }
+
+  set<T>(name: string, keys: readonly ArchiveKey[], value: T, params?: object) {
+    const { keyPath, valuePath } = this.paths(name);
+    try {
+      if (!fs.existsSync(this.dir)) {
+        fs.mkdirSync(this.dir, { recursive: true });
+      }
+      fs.writeFileSync(valuePath, v8.serialize(value));
+      fs.writeFileSync(keyPath, toKeyString(keys, params));
+    } catch (e) {
+      logger.warn('could not write cache entry', name, e);
+      fs.rmSync(keyPath, { force: true });
+    }
+  }
+
+  /**
+   * Returns the cached value for `name`, if its keys match; otherwise, calls
+   * `compute` and caches its result.
+   */
+  getOrCompute<T>(
+    name: string,
+    keys: readonly ArchiveKey[],
+    compute: () => T,
+    params?: object,
+  ): T {
+    const cached = this.get<T>(name, keys, params);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const value = compute();
+    this.set(name, keys, value, params);
+    return value;
+  }
+
+  private paths(name: string) {
+    const safeName = name.replace(/[^\w.-]/g, '_');
+    return {
+      keyPath: path.join(this.dir, `${safeName}.key.json`),
+      valuePath: path.join(this.dir, `${safeName}.bin`),
+    };
+  }
+}
+
+function toKeyString(keys: readonly ArchiveKey[], params?: object) {
+  return JSON.stringify({ version: cacheVersion, keys, params }, null, 2);
+}
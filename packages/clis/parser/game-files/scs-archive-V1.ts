@@ -1,4 +1,5 @@
 ﻿import { Preconditions } from '@truckermudgeon/base/precon';
+import crypto from 'crypto';
 import fs from 'fs';
 import * as r from 'restructure';
 import zlib from 'zlib';
@@ -52,6 +53,22 @@ export class ScsArchiveV1 {
     );
   }
 
+  /**
+   * Returns a hash of this archive's entry table, which changes whenever any
+   * of the archive's entries change.
+   */
+  entryHash(): string {
+    return crypto
+      .createHash('sha1')
+      .update(
+        this.readData({
+          offset: this.header.entriesOffset,
+          size: EntryHeaderV1.size() * this.header.numEntries,
+        }),
+      )
+      .digest('hex');
+  }
+
   parseEntries(): Entries {
     Preconditions.checkState(this.isValid());
     if (this.entries) {
@@ -1,5 +1,6 @@
 import { assert, assertExists } from '@truckermudgeon/base/assert';
 import { Preconditions, UnreachableError } from '@truckermudgeon/base/precon';
+import crypto from 'crypto';
 import fs from 'fs';
 import { createRequire } from 'module';
 import type { BaseOf } from 'restructure';
@@ -212,6 +213,29 @@ export class ScsArchiveV2 {
     );
   }
 
+  /**
+   * Returns a hash of this archive's entry and metadata tables, which change
+   * whenever any of the archive's entries change.
+   */
+  entryHash(): string {
+    const hash = crypto.createHash('sha1');
+    for (const { offset, size } of [
+      {
+        offset: this.header.entryTableOffset,
+        size: this.header.entryTableCompressedSize,
+      },
+      {
+        offset: this.header.metadataTableOffset,
+        size: this.header.metadataTableCompressedSize,
+      },
+    ]) {
+      const buffer = Buffer.alloc(size);
+      fs.readSync(this.fd, buffer, { length: buffer.length, position: offset });
+      hash.update(buffer);
+    }
+    return hash.digest('hex');
+  }
+
   parseEntries(): Entries {
     Preconditions.checkState(this.isValid());
     if (this.entries) {
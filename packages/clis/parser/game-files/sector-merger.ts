@@ -0,0 +1,147 @@
+import { putIfAbsent } from '@truckermudgeon/base/map';
+import { ItemType } from '@truckermudgeon/map/constants';
+import type { Item, Node } from '@truckermudgeon/map/types';
+
+export type Sectors = Map<
+  string,
+  { items: Map<bigint, Item>; nodes: Map<bigint, Node> }
+>;
+
+/** The uids of the items and nodes a mod has changed. */
+export interface ModSectorChanges {
+  /** The id of the mod (see `toModIds`) whose archive made the changes. */
+  mod: string;
+  items: {
+    added: bigint[];
+    replaced: bigint[];
+    removed: bigint[];
+  };
+  nodes: {
+    added: bigint[];
+    replaced: bigint[];
+  };
+}
+
+/**
+ * Merges mod sector data into base-game sector data, item-by-item and
+ * node-by-node, keyed by uid.
+ *
+ * Mods must be merged in load order: items and nodes from later mods take
+ * precedence over items and nodes from earlier mods (and from the base game).
+ */
+export class SectorMerger {
+  private readonly itemSectorKeys = new Map<bigint, string>();
+  private readonly nodeSectorKeys = new Map<bigint, string>();
+  private readonly _itemSources = new Map<bigint, string>();
+  private readonly _changes: ModSectorChanges[] = [];
+
+  constructor(readonly sectors: Sectors) {
+    for (const [key, { items, nodes }] of sectors) {
+      items.forEach((_, uid) => this.itemSectorKeys.set(uid, key));
+      nodes.forEach((_, uid) => this.nodeSectorKeys.set(uid, key));
+    }
+  }
+
+  get changes(): readonly ModSectorChanges[] {
+    return this._changes;
+  }
+
+  /**
+   * The id of the mod that last added or replaced each item, keyed by item
+   * uid. Items from the base game have no entry.
+   */
+  get itemSources(): ReadonlyMap<bigint, string> {
+    return this._itemSources;
+  }
+
+  merge(mod: string, modSectors: Sectors): ModSectorChanges {
+    const changes: ModSectorChanges = {
+      mod,
+      items: { added: [], replaced: [], removed: [] },
+      nodes: { added: [], replaced: [] },
+    };
+
+    for (const [key, modSector] of modSectors) {
+      const { items, nodes } = putIfAbsent(
+        key,
+        { items: new Map<bigint, Item>(), nodes: new Map<bigint, Node>() },
+        this.sectors,
+      );
+
+      for (const [uid, node] of modSector.nodes) {
+        const prevKey = this.nodeSectorKeys.get(uid);
+        if (prevKey == null) {
+          changes.nodes.added.push(uid);
+        } else {
+          changes.nodes.replaced.push(uid);
+          // the node may have been moved to a different sector.
+          this.sectors.get(prevKey)?.nodes.delete(uid);
+        }
+        nodes.set(uid, node);
+        this.nodeSectorKeys.set(uid, key);
+      }
+
+      for (const [uid, item] of modSector.items) {
+        const prevKey = this.itemSectorKeys.get(uid);
+        if (prevKey == null) {
+          changes.items.added.push(uid);
+        } else {
+          changes.items.replaced.push(uid);
+          // the item may have been moved to a different sector.
+          this.sectors.get(prevKey)?.items.delete(uid);
+        }
+        items.set(uid, item);
+        this.itemSectorKeys.set(uid, key);
+        this._itemSources.set(uid, mod);
+      }
+    }
+
+    // Mods can't mark items as deleted; sector files simply stop containing
+    // them. Treat a road or prefab as removed when the mod redefines one of
+    // its nodes, and that node no longer links back to it.
+    const modNodes = new Map<bigint, Node>();
+    for (const { nodes } of modSectors.values()) {
+      nodes.forEach((node, uid) => modNodes.set(uid, node));
+    }
+    for (const key of modSectors.keys()) {
+      const { items } = this.sectors.get(key)!;
+      for (const [uid, item] of items) {
+        if (modSectors.get(key)!.items.has(uid)) {
+          continue;
+        }
+        if (isDetached(item, modNodes)) {
+          items.delete(uid);
+          this.itemSectorKeys.delete(uid);
+          this._itemSources.delete(uid);
+          changes.items.removed.push(uid);
+        }
+      }
+    }
+
+    this._changes.push(changes);
+    return changes;
+  }
+}
+
+function isDetached(item: Item, modNodes: ReadonlyMap<bigint, Node>) {
+  let nodeUids: readonly bigint[];
+  switch (item.type) {
+    case ItemType.Road:
+      nodeUids = [item.startNodeUid, item.endNodeUid];
+      break;
+    case ItemType.Prefab:
+      nodeUids = item.nodeUids;
+      break;
+    default:
+      return false;
+  }
+
+  return nodeUids.some(nodeUid => {
+    const node = modNodes.get(nodeUid);
+    return (
+      node != null &&
+      node.forwardItemUid !== item.uid &&
+      node.backwardItemUid !== item.uid
+    );
+  });
+}
@@ -137,6 +137,54 @@ export const VersionSiiSchema: JSONSchemaType<VersionSii> = object({
   }),
 });
 
+export interface ModManifestSii {
+  modPackage: Record<
+    string,
+    {
+      displayName?: string;
+      packageVersion?: string;
+      author?: string;
+      category?: string[];
+      compatibleVersions?: string[];
+    }
+  >;
+}
+
+export const ModManifestSiiSchema: JSONSchemaType<ModManifestSii> = object({
+  modPackage: patternRecord(
+    /^.*$/,
+    {
+      displayName: nullable(string),
+      packageVersion: nullable(string),
+      author: nullable(string),
+      category: nullable(stringArray),
+      compatibleVersions: nullable(stringArray),
+    },
+    [],
+  ),
+});
+
+export interface VersionsSii {
+  packageVersionInfo: Record<
+    string,
+    {
+      packageName: string;
+      compatibleVersions?: string[];
+    }
+  >;
+}
+
+export const VersionsSiiSchema: JSONSchemaType<VersionsSii> = object({
+  packageVersionInfo: patternRecord(
+    /^.*$/,
+    {
+      packageName: string,
+      compatibleVersions: nullable(stringArray),
+    },
+    ['packageName'],
+  ),
+});
+
 export interface RouteSii {
   routeData: Record<
     string,
@@ -812,6 +860,33 @@ export const CityCompanySiiSchema: JSONSchemaType<CityCompanySii> = object({
   ),
 });
 
+export interface CargoDataSii {
+  cargoData: Record<
+    string,
+    {
+      name: string;
+      fragility?: number;
+      adrClass?: number;
+      mass?: number;
+      unitRewardPerKm?: number;
+    }
+  >;
+}
+
+export const CargoDataSiiSchema: JSONSchemaType<CargoDataSii> = object({
+  cargoData: patternRecord(
+    /^cargo\.(\.|-|\w)+$/,
+    {
+      name: string,
+      fragility: nullable(number),
+      adrClass: nullable(integer),
+      mass: nullable(number),
+      unitRewardPerKm: nullable(number),
+    },
+    ['name'],
+  ),
+});
+
 export interface CargoSii {
   cargoDef?: Record<string, { cargo: string }>;
   cargoData?: Record<string, { cargo: string }>;
@@ -0,0 +1,92 @@
+import { toBaseIconName } from '@truckermudgeon/map/icons';
+import { ArchiveIcons } from '../archive-icons';
+
+describe('ArchiveIcons', () => {
+  const png = (s: string) => Buffer.from(s);
+  const icons = new ArchiveIcons(
+    new Map([
+      ['acme', png('game acme')],
+      ['us_i5', png('game i5')],
+    ]),
+  );
+  icons.addMod(
+    'logos',
+    new Map([
+      ['acme', png('logos acme')],
+      ['bolts', png('logos bolts')],
+    ]),
+  );
+  icons.addMod(
+    'My Map (v2)',
+    new Map([
+      ['bolts', png('map bolts')],
+      ['us_i5', png('map i5')],
+    ]),
+  );
+
+  it("prefers the source mod's icon", () => {
+    expect(icons.resolve('acme', 'logos')).toBe('acme@logos');
+    expect(icons.resolve('us_i5', 'My Map (v2)')).toBe('us_i5@My_Map_v2_');
+  });
+
+  it("falls back to the game's icon", () => {
+    expect(icons.resolve('acme')).toBe('acme');
+    expect(icons.resolve('acme', 'My Map (v2)')).toBe('acme');
+  });
+
+  it('strips mod suffixes from icon names', () => {
+    expect(toBaseIconName(icons.resolve('acme', 'logos')!)).toBe('acme');
+    expect(toBaseIconName(icons.resolve('us_i5', 'My Map (v2)')!)).toBe(
+      'us_i5',
+    );
+    expect(toBaseIconName('acme')).toBe('acme');
+  });
+
+  it("falls back to the last-loaded mod's icon", () => {
+    expect(icons.resolve('bolts')).toBe('bolts@My_Map_v2_');
+    expect(icons.resolve('unknown')).toBeUndefined();
+  });
+
+  it('keeps every version of same-named icons', () => {
+    const pngs = icons.toPngs();
+    expect([...pngs.keys()].sort()).toEqual([
+      'acme',
+      'acme@logos',
+      'bolts@My_Map_v2_',
+      'bolts@logos',
+      'us_i5',
+      'us_i5@My_Map_v2_',
+    ]);
+    expect(pngs.get('bolts@logos')?.toString()).toBe('logos bolts');
+  });
+
+  it("keeps different mods' icons apart", () => {
+    const workshopIcons = new ArchiveIcons(new Map());
+    workshopIcons.addMod('111', new Map([['acme', png('111 acme')]]));
+    workshopIcons.addMod('222', new Map([['acme', png('222 acme')]]));
+
+    expect(workshopIcons.resolve('acme', '111')).toBe('acme@111');
+    expect(workshopIcons.resolve('acme', '222')).toBe('acme@222');
+    expect(workshopIcons.toPngs().get('acme@111')?.toString()).toBe('111 acme');
+  });
+
+  it("merges the icons of a mod's archives", () => {
+    const modIcons = new ArchiveIcons(new Map());
+    modIcons.addMod('111', new Map([['acme', png('first acme')]]));
+    modIcons.addMod(
+      '111',
+      new Map([
+        ['acme', png('second acme')],
+        ['bolts', png('second bolts')],
+      ]),
+    );
+
+    expect(modIcons.resolve('bolts', '111')).toBe('bolts@111');
+    expect(modIcons.toPngs()).toEqual(
+      new Map([
+        ['acme@111', png('second acme')],
+        ['bolts@111', png('second bolts')],
+      ]),
+    );
+  });
+});
@@ -0,0 +1,140 @@
+import {
+  createWithLocalizedCompanyName,
+  createWithLocalizedName,
+  parseLocaleFiles,
+  withDefaultLocale,
+} from '../locales';
+import type { DirectoryEntry, Entries, FileEntry } from '../scs-archive';
+
+describe('locales', () => {
+  const entries = someLocales({
+    en_us: { city_berlin: 'Berlin', country_poland: 'Poland' },
+    de_de: { city_berlin: 'Berlin (DE)', country_poland: 'Polen' },
+    pl_pl: { country_poland: 'Polska' },
+    fr_fr: { country_poland: 'Pologne' },
+  });
+
+  it('always includes en_us', () => {
+    expect(withDefaultLocale([])).toEqual(['en_us']);
+    expect(withDefaultLocale(['de_de', 'en_us'])).toEqual(['en_us', 'de_de']);
+    expect([...parseLocaleFiles(entries, ['de_de']).keys()]).toEqual([
+      'en_us',
+      'de_de',
+    ]);
+  });
+
+  it('parses only the requested locales', () => {
+    const l10ns = parseLocaleFiles(entries, ['pl_pl', 'xx_xx']);
+
+    expect([...l10ns.keys()]).toEqual(['en_us', 'pl_pl']);
+    expect(l10ns.get('pl_pl')).toEqual(new Map([['country_poland', 'Polska']]));
+  });
+
+  it('emits localized names for each parsed locale', () => {
+    const withLocalizedName = createWithLocalizedName(
+      parseLocaleFiles(entries, ['de_de', 'pl_pl']),
+    );
+
+    expect(
+      withLocalizedName({
+        name: 'Poland',
+        nameLocalized: '@@country_poland@@',
+      }),
+    ).toEqual({
+      name: 'Poland',
+      nameLocalized: undefined,
+      names: { en_us: 'Poland', de_de: 'Polen', pl_pl: 'Polska' },
+    });
+  });
+
+  it('falls back to en_us when a locale is missing a key', () => {
+    const withLocalizedName = createWithLocalizedName(
+      parseLocaleFiles(entries, ['de_de', 'pl_pl']),
+    );
+
+    expect(
+      withLocalizedName({ name: 'berlin', nameLocalized: '@@city_berlin@@' }),
+    ).toEqual({
+      name: 'Berlin',
+      nameLocalized: undefined,
+      names: { en_us: 'Berlin', de_de: 'Berlin (DE)', pl_pl: 'Berlin' },
+    });
+  });
+
+  it('falls back to the unlocalized name when en_us is missing a key', () => {
+    const withLocalizedName = createWithLocalizedName(
+      parseLocaleFiles(entries, ['de_de']),
+    );
+
+    expect(
+      withLocalizedName({ name: 'Paris', nameLocalized: '@@city_paris@@' }),
+    ).toMatchObject({
+      name: 'Paris',
+      names: { en_us: 'Paris', de_de: 'Paris' },
+    });
+  });
+
+  it('localizes company names only if they are localization keys', () => {
+    const withLocalizedCompanyName = createWithLocalizedCompanyName(
+      parseLocaleFiles(entries, ['pl_pl']),
+    );
+
+    expect(withLocalizedCompanyName({ name: 'Acme' })).toEqual({
+      name: 'Acme',
+      names: { en_us: 'Acme', pl_pl: 'Acme' },
+    });
+    expect(withLocalizedCompanyName({ name: '@@country_poland@@' })).toEqual({
+      name: 'Poland',
+      names: { en_us: 'Poland', pl_pl: 'Polska' },
+    });
+  });
+});
+
+function someLocales(locales: Record<string, Record<string, string>>): Entries {
+  const files = new Map(
+    Object.entries(locales).map(([locale, strings]) => [
+      `locale/${locale}/local.sii`,
+      `SiiNunit
+{
+localization_db : .localization {
+${Object.entries(strings)
+  .map(([k, v]) => ` key[]: "${k}"\n val[]: "${v}"`)
+  .join('\n')}
+}
+}
+`,
+    ]),
+  );
+
+  return {
+    directories: {
+      get: (key: string): DirectoryEntry | undefined => {
+        if (key === 'locale') {
+          return {
+            type: 'directory',
+            hash: 0n,
+            files: [],
+            subdirectories: Object.keys(locales),
+          };
+        }
+        const locale = key.replace(/^locale\//, '');
+        return locale in locales
+          ? {
+              type: 'directory',
+              hash: 0n,
+              files: ['local.sii'],
+              subdirectories: [],
+            }
+          : undefined;
+      },
+    },
+    files: {
+      get: (key: string): FileEntry | undefined => {
+        const contents = files.get(key);
+        return contents != null
+          ? { type: 'file', hash: 0n, read: () => Buffer.from(contents) }
+          : undefined;
+      },
+    },
+  };
+}
@@ -0,0 +1,177 @@
+import { findModConflicts, formatModConflicts } from '../mod-conflicts';
+import type { DirectoryEntry, Entries, FileEntry } from '../scs-archive';
+
+describe('findModConflicts', () => {
+  const base = anArchive('base.scs', {
+    'def/company/acme.sii': company('acme'),
+    'def/company/bolts.sii': company('bolts'),
+    'map/usa/sec+0000+0000.base': '',
+    'material/ui/company/small/acme.mat': '',
+  });
+  const dlc = anArchive('dlc_a.scs', {
+    'def/company/acme.sii': company('acme'),
+  });
+  const modA = anArchive('mod_a.scs', {
+    'def/company/acme.sii': company('acme'),
+    'map/usa/sec+0000+0000.aux': '',
+    'material/ui/company/small/acme.mat': '',
+  });
+  const modB = anArchive('mod_b.zip', {
+    'def/company/bolts2.sii': company('bolts'),
+    'map/usa/sec+0000+0000.base': '',
+  });
+
+  const conflicts = findModConflicts([base, dlc], [modA, modB]);
+
+  it('finds files provided by more than one archive, in load order', () => {
+    expect(conflicts.files).toEqual([
+      {
+        key: 'def/company/acme.sii',
+        archives: ['base.scs', 'dlc_a.scs', 'mod_a'],
+        winner: 'mod_a',
+      },
+      {
+        key: 'map/usa/sec+0000+0000.base',
+        archives: ['base.scs', 'mod_b'],
+        winner: 'mod_b',
+      },
+      {
+        key: 'material/ui/company/small/acme.mat',
+        archives: ['base.scs', 'mod_a'],
+        winner: 'mod_a',
+      },
+    ]);
+  });
+
+  it('finds overlapping sectors', () => {
+    expect(conflicts.sectors).toEqual([
+      {
+        key: 'usa/sec+0000+0000',
+        archives: ['base.scs', 'mod_a', 'mod_b'],
+        winner: undefined,
+      },
+    ]);
+  });
+
+  it('finds duplicate def tokens and icon names', () => {
+    expect(conflicts.defTokens.companyDefs).toEqual([
+      {
+        key: 'acme',
+        archives: ['base.scs', 'dlc_a.scs', 'mod_a'],
+        winner: 'mod_a',
+      },
+      {
+        key: 'bolts',
+        archives: ['base.scs', 'mod_b'],
+        winner: 'mod_b',
+      },
+    ]);
+    expect(conflicts.icons).toEqual([
+      {
+        key: 'acme',
+        archives: ['base.scs', 'mod_a'],
+        winner: 'mod_a',
+      },
+    ]);
+  });
+
+  it('ignores conflicts between game archives', () => {
+    const gameOnly = findModConflicts([base, dlc], []);
+    expect(gameOnly.defTokens.companyDefs).toEqual([]);
+  });
+
+  it('tells apart mods whose archives have the same filename', () => {
+    const workshopDir = '/steamapps/workshop/content/270880';
+    const workshopA = anArchive(`${workshopDir}/111/universal.scs`, {
+      'def/company/acme.sii': company('acme'),
+    });
+    const workshopB = anArchive(`${workshopDir}/222/universal.scs`, {
+      'def/company/acme.sii': company('acme'),
+    });
+
+    const { files, defTokens } = findModConflicts(
+      [base],
+      [workshopA, workshopB, modA],
+    );
+    expect(files[0]).toEqual({
+      key: 'def/company/acme.sii',
+      archives: ['base.scs', '111', '222', 'mod_a'],
+      winner: 'mod_a',
+    });
+    expect(defTokens.companyDefs[0].archives).toEqual([
+      'base.scs',
+      '111',
+      '222',
+      'mod_a',
+    ]);
+  });
+
+  it('formats conflicts as tables', () => {
+    const table = formatModConflicts(conflicts);
+    expect(table).toContain('files (3 conflicts)');
+    expect(table).toContain(
+      'usa/sec+0000+0000 | base.scs, mod_a, mod_b   | (merged)',
+    );
+    expect(table).toContain('prefab tokens (0 conflicts)');
+  });
+});
+
+function company(token: string) {
+  return `SiiNunit
+{
+company_permanent : company.permanent.${token}
+{
+\tname: "${token}"
+}
+}
+`;
+}
+
+function anArchive(path: string, files: Record<string, string>) {
+  const directories = new Map<
+    string,
+    { files: Set<string>; subdirectories: Set<string> }
+  >();
+  const getDir = (dir: string) => {
+    let entry = directories.get(dir);
+    if (!entry) {
+      entry = { files: new Set(), subdirectories: new Set() };
+      directories.set(dir, entry);
+      if (dir !== '') {
+        const parts = dir.split('/');
+        getDir(parts.slice(0, -1).join('/')).subdirectories.add(parts.at(-1)!);
+      }
+    }
+    return entry;
+  };
+  for (const file of Object.keys(files)) {
+    const parts = file.split('/');
+    getDir(parts.slice(0, -1).join('/')).files.add(parts.at(-1)!);
+  }
+
+  const entries: Entries = {
+    directories: {
+      get: (key: string): DirectoryEntry | undefined => {
+        const dir = directories.get(key);
+        return dir
+          ? {
+              type: 'directory',
+              hash: 0n,
+              files: [...dir.files],
+              subdirectories: [...dir.subdirectories],
+            }
+          : undefined;
+      },
+    },
+    files: {
+      get: (key: string): FileEntry | undefined =>
+        key in files
+          ? { type: 'file', hash: 0n, read: () => Buffer.from(files[key]) }
+          : undefined,
+    },
+  };
+  return {
+    path: path.startsWith('/') ? path : `/game/${path}`,
+    parseEntries: () => entries,
+  };
+}
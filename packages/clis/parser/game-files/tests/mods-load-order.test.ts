@@ -0,0 +1,184 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  getProfileLoadOrder,
+  isCompatibleVersion,
+  parseModManifest,
+  parseWorkshopPackageDir,
+  toModIds,
+  toPackageName,
+} from '../mods-load-order';
+
+describe('mods load order', () => {
+  let tmpDir: string;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mods-load-order-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('reads active mods from profile.sii, in load order', () => {
+    const profilePath = path.join(tmpDir, 'profile.sii');
+    fs.writeFileSync(
+      profilePath,
+      `SiiNunit
+{
+user_profile : _nameless.1a2.b3c4 {
+ face: 0
+ active_mods: 3
+ active_mods[0]: "mod_workshop_package.00000000B2D05E00|Bigger Map"
+ active_mods[1]: "promods-def-v275|ProMods Definition"
+ active_mods[2]: "my_fix|Fix | Extra"
+ profile_name: "Driver"
+}
+}
+`,
+    );
+
+    expect(getProfileLoadOrder(profilePath)).toEqual([
+      {
+        packageName: 'my_fix',
+        displayName: 'Fix | Extra',
+        workshopId: undefined,
+      },
+      {
+        packageName: 'promods-def-v275',
+        displayName: 'ProMods Definition',
+        workshopId: undefined,
+      },
+      {
+        packageName: 'mod_workshop_package.00000000B2D05E00',
+        displayName: 'Bigger Map',
+        workshopId: '3000000000',
+      },
+    ]);
+  });
+
+  it('reads profiles without active mods', () => {
+    const profilePath = path.join(tmpDir, 'empty-profile.sii');
+    fs.writeFileSync(
+      profilePath,
+      `SiiNunit
+{
+user_profile : _nameless.1a2.b3c4 {
+ active_mods: 0
+}
+}
+`,
+    );
+
+    expect(getProfileLoadOrder(profilePath)).toEqual([]);
+  });
+
+  it('rejects binary profiles', () => {
+    const profilePath = path.join(tmpDir, 'binary-profile.sii');
+    fs.writeFileSync(profilePath, 'BSII\x02\x00\x00\x00');
+
+    expect(() => getProfileLoadOrder(profilePath)).toThrow(/g_save_format/);
+  });
+
+  it('parses manifests', () => {
+    const manifest = Buffer.from(`SiiNunit
+{
+mod_package : .bigger_map
+{
+ package_version: "2.1"
+ display_name: "Bigger Map"
+ author: "someone"
+ category[]: "map"
+ compatible_versions[]: "1.49.*"
+ compatible_versions[]: "1.50.*"
+}
+}
+`);
+
+    expect(parseModManifest(manifest, 'manifest.sii')).toEqual({
+      displayName: 'Bigger Map',
+      version: '2.1',
+      author: 'someone',
+      categories: ['map'],
+      compatibleVersions: ['1.49.*', '1.50.*'],
+    });
+  });
+});
+
+describe('parseWorkshopPackageDir', () => {
+  const versions = Buffer.from(`SiiNunit
+{
+package_version_info : .v150
+{
+ package_name: "1.50"
+ compatible_versions[]: "1.50.*"
+}
+package_version_info : .v149
+{
+ package_name: "1.49"
+ compatible_versions[]: "1.48.*"
+ compatible_versions[]: "1.49.*"
+}
+}
+`);
+
+  it('picks the package compatible with the game version', () => {
+    expect(parseWorkshopPackageDir(versions, 'versions.sii', '1.50.1.0')).toBe(
+      '1.50',
+    );
+    expect(parseWorkshopPackageDir(versions, 'versions.sii', '1.48.5.0')).toBe(
+      '1.49',
+    );
+  });
+
+  it('returns undefined if no package is compatible', () => {
+    expect(
+      parseWorkshopPackageDir(versions, 'versions.sii', '1.47.0.0'),
+    ).toBeUndefined();
+  });
+});
+
+describe('isCompatibleVersion', () => {
+  it('matches wildcard versions', () => {
+    expect(isCompatibleVersion(['1.49.*', '1.50.*'], '1.50.1.0')).toBe(true);
+    expect(isCompatibleVersion(['1.49.*'], '1.50.1.0')).toBe(false);
+    expect(isCompatibleVersion(['1.50.1.0'], '1.50.1.0')).toBe(true);
+    expect(isCompatibleVersion([], '1.50.1.0')).toBe(true);
+  });
+});
+
+describe('toModIds', () => {
+  it('identifies mods by Workshop item id or package name', () => {
+    const workshopDir = '/steam/steamapps/workshop/content/270880';
+    expect(
+      toModIds([
+        '/mods/logos.scs',
+        '/mods/big_map.scs',
+        '/mods/big_map.zip',
+        `${workshopDir}/111/universal.scs`,
+        `${workshopDir}/222/universal.scs`,
+        `${workshopDir}/222/extra.scs`,
+      ]),
+    ).toEqual(['logos', 'big_map', 'big_map', '111', '222', '222']);
+  });
+
+  it('prefixes clashing package names with parent dir names', () => {
+    expect(
+      toModIds([
+        '/mods/a/universal.scs',
+        '/mods/b/universal.scs',
+        '/mods/c.scs',
+      ]),
+    ).toEqual(['a/universal', 'b/universal', 'c']);
+  });
+
+  it('converts mod archive paths into package names', () => {
+    expect(toPackageName('/mods/big_map.zip')).toBe('big_map');
+    expect(
+      toPackageName(
+        '/steam/steamapps/workshop/content/270880/3000000000/universal.scs',
+      ),
+    ).toBe('mod_workshop_package.00000000B2D05E00');
+  });
+});
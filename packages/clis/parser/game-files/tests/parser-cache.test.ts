@@ -0,0 +1,39 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { toModIds } from '../mods-load-order';
+import type { ArchiveKey } from '../parser-cache';
+import { ParserCache, toModCacheName } from '../parser-cache';
+
+describe('ParserCache', () => {
+  let tmpDir: string;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'parser-cache-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('keeps entries for same-named mod archives apart', () => {
+    const archivePaths = [
+      '/steam/workshop/content/270880/111/universal.scs',
+      '/steam/workshop/content/270880/222/universal.scs',
+    ];
+    const keys = archivePaths.map(
+      (p): ArchiveKey => ({ path: p, size: 1, mtimeMs: 2, entryHash: p }),
+    );
+    const names = toModIds(archivePaths).map((id, i) =>
+      toModCacheName(id, archivePaths[i]),
+    );
+    expect(names[0]).not.toBe(names[1]);
+
+    const cache = new ParserCache(tmpDir);
+    cache.set(names[0], keys.slice(0, 1), 'mod 111');
+    cache.set(names[1], keys.slice(1, 2), 'mod 222');
+
+    expect(cache.get(names[0], keys.slice(0, 1))).toBe('mod 111');
+    expect(cache.get(names[1], keys.slice(1, 2))).toBe('mod 222');
+  });
+});
@@ -0,0 +1,176 @@
+import { ItemType } from '@truckermudgeon/map/constants';
+import type { Item, Node, Road } from '@truckermudgeon/map/types';
+import type { Sectors } from '../sector-merger';
+import { SectorMerger } from '../sector-merger';
+
+function node(uid: number, forwardItemUid = 0, backwardItemUid = 0): Node {
+  return {
+    uid: BigInt(uid),
+    x: 0,
+    y: 0,
+    z: 0,
+    rotation: 0,
+    rotationQuat: [0, 0, 0, 0],
+    forwardItemUid: BigInt(forwardItemUid),
+    backwardItemUid: BigInt(backwardItemUid),
+    sectorX: 0,
+    sectorY: 0,
+    forwardCountryId: 0,
+    backwardCountryId: 0,
+  };
+}
+
+function road(uid: number, startNodeUid: number, endNodeUid: number): Road {
+  return {
+    uid: BigInt(uid),
+    type: ItemType.Road,
+    x: 0,
+    y: 0,
+    sectorX: 0,
+    sectorY: 0,
+    dlcGuard: 0,
+    roadLookToken: 'look',
+    startNodeUid: BigInt(startNodeUid),
+    endNodeUid: BigInt(endNodeUid),
+    length: 1,
+  };
+}
+
+function sectors(
+  entries: Record<string, { items: Item[]; nodes: Node[] }>,
+): Sectors {
+  return new Map(
+    Object.entries(entries).map(([key, { items, nodes }]) => [
+      key,
+      {
+        items: new Map(items.map(i => [i.uid, i])),
+        nodes: new Map(nodes.map(n => [n.uid, n])),
+      },
+    ]),
+  );
+}
+
+describe('SectorMerger', () => {
+  it('keeps base items that a mod sector does not touch', () => {
+    const base = sectors({
+      sec0: {
+        items: [road(10, 1, 2), road(11, 2, 3)],
+        nodes: [node(1, 10), node(2, 11, 10), node(3, 0, 11)],
+      },
+    });
+    const merger = new SectorMerger(base);
+    const changes = merger.merge(
+      'fix.scs',
+      sectors({
+        sec0: {
+          items: [{ ...road(11, 2, 3), roadLookToken: 'fixed' }],
+          nodes: [],
+        },
+      }),
+    );
+
+    expect([...base.get('sec0')!.items.keys()]).toEqual([10n, 11n]);
+    expect(base.get('sec0')!.items.get(11n)).toMatchObject({
+      roadLookToken: 'fixed',
+    });
+    expect(changes.items).toEqual({ added: [], replaced: [11n], removed: [] });
+  });
+
+  it('adds new sectors, items, and nodes', () => {
+    const base = sectors({
+      sec0: { items: [road(10, 1, 2)], nodes: [node(1, 10), node(2, 0, 10)] },
+    });
+    const merger = new SectorMerger(base);
+    const changes = merger.merge(
+      'new-road.scs',
+      sectors({
+        sec1: { items: [road(20, 2, 3)], nodes: [node(3, 0, 20)] },
+      }),
+    );
+
+    expect([...base.keys()]).toEqual(['sec0', 'sec1']);
+    expect(changes.items.added).toEqual([20n]);
+    expect(changes.nodes.added).toEqual([3n]);
+  });
+
+  it('moves items between sectors', () => {
+    const base = sectors({
+      sec0: { items: [road(10, 1, 2)], nodes: [node(1, 10), node(2, 0, 10)] },
+    });
+    const merger = new SectorMerger(base);
+    merger.merge(
+      'move.scs',
+      sectors({ sec1: { items: [road(10, 1, 2)], nodes: [] } }),
+    );
+
+    expect(base.get('sec0')!.items.size).toBe(0);
+    expect(base.get('sec1')!.items.has(10n)).toBe(true);
+  });
+
+  it('removes roads detached from redefined nodes', () => {
+    const base = sectors({
+      sec0: {
+        items: [road(10, 1, 2), road(11, 2, 3)],
+        nodes: [node(1, 10), node(2, 11, 10), node(3, 0, 11)],
+      },
+    });
+    const merger = new SectorMerger(base);
+    const changes = merger.merge(
+      'remove.scs',
+      sectors({ sec0: { items: [], nodes: [node(2, 0, 10)] } }),
+    );
+
+    expect([...base.get('sec0')!.items.keys()]).toEqual([10n]);
+    expect(changes.items.removed).toEqual([11n]);
+    expect(changes.nodes.replaced).toEqual([2n]);
+  });
+
+  it('gives precedence to later mods', () => {
+    const base = sectors({
+      sec0: { items: [road(10, 1, 2)], nodes: [node(1, 10), node(2, 0, 10)] },
+    });
+    const merger = new SectorMerger(base);
+    merger.merge(
+      'a.scs',
+      sectors({
+        sec0: { items: [{ ...road(10, 1, 2), roadLookToken: 'a' }], nodes: [] },
+      }),
+    );
+    merger.merge(
+      'b.scs',
+      sectors({
+        sec0: { items: [{ ...road(10, 1, 2), roadLookToken: 'b' }], nodes: [] },
+      }),
+    );
+
+    expect(base.get('sec0')!.items.get(10n)).toMatchObject({
+      roadLookToken: 'b',
+    });
+    expect(merger.changes.map(c => c.mod)).toEqual(['a.scs', 'b.scs']);
+    expect(merger.itemSources.get(10n)).toBe('b.scs');
+  });
+
+  it('tracks which mod last defined each item', () => {
+    const base = sectors({
+      sec0: {
+        items: [road(10, 1, 2), road(11, 2, 3)],
+        nodes: [node(1, 10), node(2, 11, 10), node(3, 0, 11)],
+      },
+    });
+    const merger = new SectorMerger(base);
+    merger.merge(
+      'add.scs',
+      sectors({ sec1: { items: [road(20, 3, 4)], nodes: [node(4, 0, 20)] } }),
+    );
+    expect(merger.itemSources.get(20n)).toBe('add.scs');
+
+    merger.merge(
+      'remove.scs',
+      sectors({ sec1: { items: [], nodes: [node(4, 0, 0)] } }),
+    );
+
+    expect(merger.itemSources.has(10n)).toBe(false);
+    expect(merger.itemSources.has(20n)).toBe(false);
+    expect(merger.changes[1].items.removed).toEqual([20n]);
+  });
+});
@@ -1,5 +1,6 @@
 import { assert } from '@truckermudgeon/base/assert';
 import { Preconditions } from '@truckermudgeon/base/precon';
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
 import * as r from 'restructure';
@@ -142,6 +143,18 @@ export class ZipArchive {
     return true;
   }
 
+  /**
+   * Returns a hash of this archive's central directory, which changes whenever
+   * any of the archive's entries change (it includes each entry's CRC-32).
+   */
+  entryHash(): string {
+    this.reader.offset = this.eocdRecord.centralDirectoryOffset;
+    return crypto
+      .createHash('sha1')
+      .update(this.reader.ReadBytes(this.eocdRecord.centralDirectorySize))
+      .digest('hex');
+  }
+
   parseEntries(): Entries {
     Preconditions.checkState(this.isValid());
     if (this.entries) {
@@ -19,14 +19,32 @@ export interface Speed {
 export interface TruckSimTelemetry {
   navigation: {
     speedLimit: Speed;
+    /** In-game minutes until the driver needs to rest. */
+    nextRestStop: number;
   };
   truck: {
     position: { X: number; Z: number };
     speed: Speed;
     orientation: { heading: number };
+    fuel: { value: number; capacity: number; range: number };
+    cruiseControl: Speed & { enabled: boolean };
+    transmission: { gear: { displayed: number } };
+    engine: { rpm: { value: number } };
+    damage: { total: number };
+  };
+  trailer: { attached: boolean; damage: { total: number } };
+  job: {
+    destination: JobLocation;
+    source: JobLocation;
+    income: number;
+    expectedDeliveryTimestamp: { value: number };
+    cargo: { name: string; mass: number; damage: number };
+  };
+  game: {
+    time: { value: number };
+    timestamp: { value: number };
+    scale: number;
   };
-  job: { destination: JobLocation; source: JobLocation };
-  game: { timestamp: { value: number }; scale: number };
 }
 
 export interface Telemetry {
@@ -43,10 +61,72 @@ export interface Telemetry {
     value: number; // these numbers look off, like bytes are swapped or something.
   };
   scale: number; // 0 or 3 or 20
+
+  // the following fields are missing from older recordings.
+
+  /** The in-game time, in minutes. */
+  gameTime?: number;
+  /** In-game minutes until the driver needs to rest. */
+  nextRestStop?: number;
+  fuel?: {
+    value: number; // liters
+    capacity: number; // liters
+    range: number; // kilometers
+  };
+  cruiseControl?: Speed & { enabled: boolean };
+  engine?: {
+    gear: number; // negative for reverse gears
+    rpm: number;
+  };
+  trailer?: {
+    attached: boolean;
+    cargoMass: number; // kilograms
+  };
+  job?: {
+    income: number;
+    /** The delivery deadline, as an in-game time in minutes. */
+    deadline: number;
+    cargo: string;
+  };
+  /** Wear, from 0 to 1. */
+  damage?: {
+    truck: number;
+    trailer: number;
+    cargo: number;
+  };
 }
 
+/** The parts of `Telemetry` that describe the state of the truck and job. */
+export type TruckStatus = Pick<
+  Telemetry,
+  'fuel' | 'cruiseControl' | 'engine' | 'trailer' | 'job' | 'damage'
+>;
+
 export interface TelemetryServerToClientEvents {
   update: (t: Telemetry) => void;
+  playbackUpdated: (p: PlaybackState) => void;
+}
+
+/** Controls for the telemetry server's replay mode. */
+export interface TelemetryClientToServerEvents {
+  pause: () => void;
+  resume: () => void;
+  /** Seeks to `position`, in ms from the start of the recording. */
+  seek: (position: number) => void;
+  setSpeed: (speed: number) => void;
+  /** Loads a recording from the telemetry server's recordings dir. */
+  load: (recording: string) => void;
+}
+
+export interface PlaybackState {
+  /** The name of the recording file being replayed. */
+  recording: string;
+  /** Playback position, in ms from the start of the recording. */
+  position: number;
+  /** Duration of the recording, in ms. */
+  duration: number;
+  speed: number;
+  paused: boolean;
 }
 
 export interface GameState {
@@ -55,8 +135,96 @@ export interface GameState {
   bearing: number;
   speedLimit: number;
   scale: number;
+  /** The road the truck has been matched to, if any. */
+  road?: RoadInfo;
+  status: TruckStatus;
+}
+
+export interface RoadInfo {
+  /** The road look token, if the truck is on a road item. */
+  roadLook: string | undefined;
+  /** The road's truck speed limit, in mph, if the truck is on a road item. */
+  speedLimit: number | undefined;
+  /** The road number (i.e., the road shield icon token), if known. */
+  roadNumber: string | undefined;
 }
 
+export interface RouteManeuver {
+  type:
+    | 'depart'
+    | 'turn'
+    | 'keep'
+    | 'uTurn'
+    | 'merge'
+    | 'roundabout'
+    | 'ferry'
+    | 'arrive';
+  side?: 'left' | 'right';
+  /** The 1-based number of the exit to take, for roundabout maneuvers. */
+  exit?: number;
+  /** Road number or street name. */
+  label?: string;
+  /** Distance, in meters, from the previous maneuver. */
+  distance: number;
+  /** [lon, lat] */
+  position: [number, number];
+}
+
+export interface RouteStop {
+  types: ('fuel' | 'rest')[];
+  /** [lon, lat] of the stop. */
+  position: [number, number];
+}
+
+export interface RouteUpdate {
+  /** Total route distance, in meters. */
+  distance: number;
+  /** Total expected route duration, in seconds. */
+  duration: number;
+  /** [lon, lat] pairs */
+  path: [number, number][];
+  maneuvers: RouteManeuver[];
+  /** Fuel and rest stops along the route. */
+  stops: RouteStop[];
+}
+
+export interface RouteProgress {
+  /** [lon, lat] of the truck's position, snapped to the route. */
+  position: [number, number];
+  /** Distance, in meters, to the end of the route. */
+  distanceRemaining: number;
+  /** Expected time, in seconds, to reach the end of the route. */
+  durationRemaining: number;
+  nextManeuver: RouteManeuver | undefined;
+  /** Distance, in meters, to the next maneuver. */
+  distanceToNextManeuver: number;
+}
+
+export interface OffRoute {
+  /** [lon, lat] of the truck's position. */
+  position: [number, number];
+  /** Distance, in meters, between the truck and the closest point on the route. */
+  distanceFromRoute: number;
+}
+
+export type NavigationAlert =
+  | {
+      type: 'fuelStopNeeded';
+      /** Distance, in meters, the truck can travel with its current fuel. */
+      range: number;
+      /** Distance, in meters, to the end of the route. */
+      distanceRemaining: number;
+    }
+  | {
+      type: 'deadlineAtRisk';
+      /** Expected lateness, in in-game minutes. */
+      minutesLate: number;
+    };
+
 export interface NavigationServerToClientEvents {
   updatePosition: (t: GameState) => void;
+  routeUpdated: (r: RouteUpdate) => void;
+  progress: (p: RouteProgress) => void;
+  offRoute: (o: OffRoute) => void;
+  alert: (a: NavigationAlert) => void;
 }
@@ -0,0 +1,322 @@
+import { assertExists } from '@truckermudgeon/base/assert';
+import { Preconditions } from '@truckermudgeon/base/precon';
+import type { Context, PartialNode } from './routing';
+import type { Neighbor, Neighbors } from './types';
+
+/**
+ * A routing graph and the positions of its nodes, as read from a binary graph
+ * file.
+ */
+export type GraphData = Pick<Context, 'nodeLUT' | 'graph'>;
+
+// Binary graph files have the following layout, with values in the
+// platform's (little-endian) byte order. Sections are ordered by element size,
+// so that every section can be read as an aligned typed array:
+//
+// header:
+//   uint32 magic
+//   uint32 version
+//   uint32 numNodes: the number of nodes, including nodes that only appear
+//                    as neighbors
+//   uint32 numGraphNodes: the number of nodes with entries in the graph. These
+//                         nodes come first.
+//   uint32 numEdges
+//   uint32 numNavCurves: the total number of nav curve indices
+// nodes:
+//   uint64  uids[numNodes]
+//   float32 positions[numNodes * 2]: x, y pairs
+// adjacency, in compressed sparse row format:
+//   uint32 edgeOffsets[numGraphNodes * 2 + 1]: edges for node i in direction
+//          d (0 for forward, 1 for backward) are at indices
+//          [edgeOffsets[i * 2 + d], edgeOffsets[i * 2 + d + 1]).
+// edges:
+//   uint32  targets[numEdges]: neighbor node indices
+//   float32 distances[numEdges]
+//   float32 durations[numEdges]: NaN if a neighbor doesn't have a duration
+//   uint32  navCurveOffsets[numEdges + 1]: nav curve indices for edge e are at
+//           indices [navCurveOffsets[e], navCurveOffsets[e + 1]). Edges that
+//           don't go through prefabs have empty ranges.
+//   int16   dlcGuards[numEdges]: -1 if a node's dlc guard is unknown
+//   uint16  laneMasks[numEdges]: bit i is set if input lane i leads to the
+//           neighbor. Only meaningful for edges with nav curves.
+//   uint16  navCurves[numNavCurves]
+//   uint8   flags[numEdges]: see `EdgeFlag`
+
+// "TMGR", for Trucker Mudgeon GRaph.
+const magic = 0x544d4752;
+const version = 3;
+const headerSize = 24;
+
+enum EdgeFlag {
+  OneLaneRoad = 1 << 0,
+  Ferry = 1 << 1,
+  /** Set if the neighbor's direction is 'backward'. */
+  Backward = 1 << 2,
+  Train = 1 << 3,
+  Toll = 1 << 4,
+  Border = 1 << 5,
+  Highway = 1 << 6,
+}
+
+interface Counts {
+  numNodes: number;
+  numGraphNodes: number;
+  numEdges: number;
+  numNavCurves: number;
+}
+
+interface Sections {
+  uids: BigUint64Array;
+  positions: Float32Array;
+  edgeOffsets: Uint32Array;
+  targets: Uint32Array;
+  distances: Float32Array;
+  durations: Float32Array;
+  navCurveOffsets: Uint32Array;
+  dlcGuards: Int16Array;
+  laneMasks: Uint16Array;
+  navCurves: Uint16Array;
+  flags: Uint8Array;
+}
+
+/** Serializes `graph` and the positions of its nodes to the binary format. */
+export function writeGraph(
+  graph: ReadonlyMap<bigint, Neighbors>,
+  nodeLUT: ReadonlyMap<bigint, PartialNode>,
+): Uint8Array {
+  // graph nodes come first, so that they can be told apart from nodes that
+  // only appear as neighbors.
+  const nodeIndices = new Map<bigint, number>();
+  for (const nodeUid of graph.keys()) {
+    nodeIndices.set(nodeUid, nodeIndices.size);
+  }
+  const edges: Neighbor[] = [];
+  let numNavCurves = 0;
+  for (const { forward, backward } of graph.values()) {
+    for (const neighbor of [...forward, ...backward]) {
+      if (!nodeIndices.has(neighbor.nodeUid)) {
+        nodeIndices.set(neighbor.nodeUid, nodeIndices.size);
+      }
+      edges.push(neighbor);
+      numNavCurves += neighbor.navCurves?.length ?? 0;
+    }
+  }
+
+  const counts: Counts = {
+    numNodes: nodeIndices.size,
+    numGraphNodes: graph.size,
+    numEdges: edges.length,
+    numNavCurves,
+  };
+  const buffer = new ArrayBuffer(toByteLength(counts));
+  const header = new Uint32Array(buffer, 0, headerSize / 4);
+  header.set([
+    magic,
+    version,
+    counts.numNodes,
+    counts.numGraphNodes,
+    counts.numEdges,
+    counts.numNavCurves,
+  ]);
+  const sections = toSections(buffer, counts);
+
+  for (const [nodeUid, i] of nodeIndices) {
+    const node = assertExists(nodeLUT.get(nodeUid), `missing node ${nodeUid}`);
+    sections.uids[i] = nodeUid;
+    sections.positions[i * 2] = node.x;
+    sections.positions[i * 2 + 1] = node.y;
+  }
+
+  let state = 0;
+  let numStateEdges = 0;
+  for (const { forward, backward } of graph.values()) {
+    for (const neighbors of [forward, backward]) {
+      sections.edgeOffsets[state++] = numStateEdges;
+      numStateEdges += neighbors.length;
+    }
+  }
+  sections.edgeOffsets[state] = numStateEdges;
+
+  let navCurveOffset = 0;
+  edges.forEach((n, i) => {
+    sections.targets[i] = nodeIndices.get(n.nodeUid)!;
+    sections.distances[i] = n.distance;
+    sections.durations[i] = n.duration ?? NaN;
+    sections.dlcGuards[i] = n.dlcGuard;
+    sections.navCurveOffsets[i] = navCurveOffset;
+    if (n.navCurves) {
+      Preconditions.checkArgument(
+        n.navCurves.every(c => c <= 0xffff),
+        'nav curve index out of range',
+      );
+      sections.navCurves.set(n.navCurves, navCurveOffset);
+      navCurveOffset += n.navCurves.length;
+    }
+    for (const lane of n.lanes ?? []) {
+      Preconditions.checkArgument(lane < 16, 'lane index out of range');
+      sections.laneMasks[i] |= 1 << lane;
+    }
+    sections.flags[i] =
+      (n.isOneLaneRoad ? EdgeFlag.OneLaneRoad : 0) |
+      (n.isFerry ? EdgeFlag.Ferry : 0) |
+      (n.direction === 'backward' ? EdgeFlag.Backward : 0) |
+      (n.isTrain ? EdgeFlag.Train : 0) |
+      (n.isToll ? EdgeFlag.Toll : 0) |
+      (n.crossesBorder ? EdgeFlag.Border : 0) |
+      (n.isHighway ? EdgeFlag.Highway : 0);
+  });
+  sections.navCurveOffsets[edges.length] = navCurveOffset;
+
+  return new Uint8Array(buffer);
+}
+
+/** Deserializes a graph written by `writeGraph`. */
+export function readGraph(bytes: Uint8Array): GraphData {
+  // copy, so that typed arrays can be created at aligned offsets.
+  const buffer = new Uint8Array(bytes).buffer;
+  Preconditions.checkArgument(
+    buffer.byteLength >= headerSize,
+    'not a binary graph file',
+  );
+  const [
+    fileMagic,
+    fileVersion,
+    numNodes,
+    numGraphNodes,
+    numEdges,
+    numNavCurves,
+  ] = new Uint32Array(buffer, 0, headerSize / 4);
+  Preconditions.checkArgument(fileMagic === magic, 'not a binary graph file');
+  Preconditions.checkArgument(
+    fileVersion === version,
+    `unsupported binary graph version: ${fileVersion}`,
+  );
+  const counts: Counts = { numNodes, numGraphNodes, numEdges, numNavCurves };
+  Preconditions.checkArgument(
+    buffer.byteLength === toByteLength(counts),
+    'unexpected binary graph file size',
+  );
+  const { uids, positions, edgeOffsets, ...edges } = toSections(buffer, counts);
+
+  const nodeLUT = new Map<bigint, PartialNode>();
+  for (let i = 0; i < numNodes; i++) {
+    nodeLUT.set(uids[i], { x: positions[i * 2], y: positions[i * 2 + 1] });
+  }
+
+  const {
+    targets,
+    distances,
+    durations,
+    navCurveOffsets,
+    dlcGuards,
+    laneMasks,
+    navCurves,
+    flags,
+  } = edges;
+  const toNeighbor = (e: number): Neighbor => {
+    const neighbor: {
+      -readonly [K in keyof Neighbor]: Neighbor[K];
+    } = {
+      nodeUid: uids[targets[e]],
+      distance: distances[e],
+      direction: flags[e] & EdgeFlag.Backward ? 'backward' : 'forward',
+      dlcGuard: dlcGuards[e],
+    };
+    // optional properties are only set when present, to match the
+    // generator's output.
+    if (!isNaN(durations[e])) {
+      neighbor.duration = durations[e];
+    }
+    if (flags[e] & EdgeFlag.OneLaneRoad) {
+      neighbor.isOneLaneRoad = true;
+    }
+    if (flags[e] & EdgeFlag.Ferry) {
+      neighbor.isFerry = true;
+    }
+    if (flags[e] & EdgeFlag.Train) {
+      neighbor.isTrain = true;
+    }
+    if (flags[e] & EdgeFlag.Toll) {
+      neighbor.isToll = true;
+    }
+    if (flags[e] & EdgeFlag.Border) {
+      neighbor.crossesBorder = true;
+    }
+    if (flags[e] & EdgeFlag.Highway) {
+      neighbor.isHighway = true;
+    }
+    if (navCurveOffsets[e] < navCurveOffsets[e + 1]) {
+      const lanes: number[] = [];
+      for (let lane = 0; lane < 16; lane++) {
+        if (laneMasks[e] & (1 << lane)) {
+          lanes.push(lane);
+        }
+      }
+      neighbor.lanes = lanes;
+      neighbor.navCurves = [
+        ...navCurves.subarray(navCurveOffsets[e], navCurveOffsets[e + 1]),
+      ];
+    }
+    return neighbor;
+  };
+  const toNeighbors = (state: number): Neighbor[] => {
+    const neighbors: Neighbor[] = [];
+    for (let e = edgeOffsets[state]; e < edgeOffsets[state + 1]; e++) {
+      neighbors.push(toNeighbor(e));
+    }
+    return neighbors;
+  };
+  const graph = new Map<bigint, Neighbors>();
+  for (let i = 0; i < numGraphNodes; i++) {
+    graph.set(uids[i], {
+      forward: toNeighbors(i * 2),
+      backward: toNeighbors(i * 2 + 1),
+    });
+  }
+
+  return { graph, nodeLUT };
+}
+
+function toByteLength({
+  numNodes,
+  numGraphNodes,
+  numEdges,
+  numNavCurves,
+}: Counts): number {
+  return (
+    headerSize +
+    numNodes * (8 + 2 * 4) +
+    (numGraphNodes * 2 + 1) * 4 +
+    numEdges * (4 + 4 + 4 + 4 + 2 + 2 + 1) +
+    4 +
+    numNavCurves * 2
+  );
+}
+
+/** Returns typed array views of the sections in `buffer`. */
+function toSections(
+  buffer: ArrayBuffer,
+  { numNodes, numGraphNodes, numEdges, numNavCurves }: Counts,
+): Sections {
+  let offset = headerSize;
+  const next = <T extends { byteLength: number }>(
+    create: (offset: number) => T,
+  ): T => {
+    const array = create(offset);
+    offset += array.byteLength;
+    return array;
+  };
+  return {
+    uids: next(o => new BigUint64Array(buffer, o, numNodes)),
+    positions: next(o => new Float32Array(buffer, o, numNodes * 2)),
+    edgeOffsets: next(o => new Uint32Array(buffer, o, numGraphNodes * 2 + 1)),
+    targets: next(o => new Uint32Array(buffer, o, numEdges)),
+    distances: next(o => new Float32Array(buffer, o, numEdges)),
+    durations: next(o => new Float32Array(buffer, o, numEdges)),
+    navCurveOffsets: next(o => new Uint32Array(buffer, o, numEdges + 1)),
+    dlcGuards: next(o => new Int16Array(buffer, o, numEdges)),
+    laneMasks: next(o => new Uint16Array(buffer, o, numEdges)),
+    navCurves: next(o => new Uint16Array(buffer, o, numNavCurves)),
+    flags: next(o => new Uint8Array(buffer, o, numEdges)),
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * Returns the name of the `name` icon provided by the mod with id `mod`:
+ * `<name>@<mod>`, with characters that aren't safe in filenames replaced.
+ */
+export function toModIconName(name: string, mod: string): string {
+  return `${name}@${mod.replace(/[^\w.-]+/g, '_')}`;
+}
+
+/**
+ * Returns the name an icon has in the game's (or a mod's) files, i.e., `icon`
+ * without the `@<mod>` suffix added to icons provided by mods.
+ */
+export function toBaseIconName(icon: string): string {
+  const at = icon.indexOf('@');
+  return at === -1 ? icon : icon.slice(0, at);
+}
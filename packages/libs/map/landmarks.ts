@@ -0,0 +1,358 @@
+import { distance } from '@truckermudgeon/base/geom';
+import { Preconditions } from '@truckermudgeon/base/precon';
+import PriorityQueue from 'priorityqueue';
+import type { Direction, PartialNode } from './routing';
+import { getDuration } from './routing';
+import type { Neighbor, Neighbors } from './types';
+
+/**
+ * Precomputed travel costs to and from a small set of landmark nodes, used to
+ * give A* searches a much better lower bound on the remaining cost to a goal
+ * than straight-line distance (a technique known as ALT: A*, Landmarks, and
+ * the Triangle inequality).
+ *
+ * Costs are computed over the whole graph, regardless of DLC guards. Because
+ * disabling DLCs can only remove edges (and so only increase costs), bounds
+ * derived from these costs remain valid for any set of enabled DLC guards.
+ */
+export interface Landmarks {
+  /**
+   * The `hashGraph` hash of the graph the landmarks were computed from.
+   * Landmarks computed from a different graph can give inadmissible bounds.
+   */
+  graphHash: number;
+  /** The landmark node uids. */
+  nodeUids: bigint[];
+  /** The index of each graph node's entries in the cost arrays. */
+  nodeIndices: Map<bigint, number>;
+  /** Per-landmark costs, in meters. */
+  distances: LandmarkCosts[];
+  /** Per-landmark costs, in seconds. */
+  durations: LandmarkCosts[];
+}
+
+/**
+ * Costs from and to a landmark, indexed by `toStateIndex`. Unreachable
+ * entries are `Infinity`.
+ */
+export interface LandmarkCosts {
+  from: Float32Array;
+  to: Float32Array;
+}
+
+interface Edge {
+  to: number;
+  distance: number;
+  duration: number;
+}
+
+// Binary format identifier: "ALT" followed by a version number.
+const magic = 0x414c5402;
+// magic, numNodes, numLandmarks, graphHash.
+const headerSize = 16;
+
+/**
+ * Returns the index into `LandmarkCosts` arrays for the node at `nodeIndex`
+ * when travelling in `direction`.
+ */
+export function toStateIndex(nodeIndex: number, direction: Direction): number {
+  return nodeIndex * 2 + (direction === 'forward' ? 0 : 1);
+}
+
+/**
+ * Picks `count` landmarks spread out around the edges of `graph`, and computes
+ * the travel costs between them and every node in `graph`.
+ */
+export function computeLandmarks(
+  graph: ReadonlyMap<bigint, Neighbors>,
+  nodeLUT: ReadonlyMap<bigint, PartialNode>,
+  count: number,
+): Landmarks {
+  Preconditions.checkArgument(count > 0);
+  const nodeIndices = new Map<bigint, number>();
+  const getIndex = (nodeUid: bigint) => {
+    let index = nodeIndices.get(nodeUid);
+    if (index == null) {
+      index = nodeIndices.size;
+      nodeIndices.set(nodeUid, index);
+    }
+    return index;
+  };
+
+  const toEdge = (n: Neighbor): Edge => ({
+    to: toStateIndex(getIndex(n.nodeUid), n.direction),
+    distance: n.distance,
+    duration: getDuration(n),
+  });
+  const outgoing: Edge[][] = [];
+  for (const [nodeUid, neighbors] of graph) {
+    const index = getIndex(nodeUid);
+    outgoing[toStateIndex(index, 'forward')] = neighbors.forward.map(toEdge);
+    outgoing[toStateIndex(index, 'backward')] = neighbors.backward.map(toEdge);
+  }
+  const numStates = nodeIndices.size * 2;
+  const incoming: Edge[][] = Array.from({ length: numStates }, () => []);
+  for (let from = 0; from < numStates; from++) {
+    for (const edge of outgoing[from] ?? []) {
+      incoming[edge.to].push({ ...edge, to: from });
+    }
+  }
+
+  const landmarkUids = pickLandmarks(graph, nodeLUT, count);
+  const landmarks: Landmarks = {
+    graphHash: hashGraph(graph),
+    nodeUids: landmarkUids,
+    nodeIndices,
+    distances: [],
+    durations: [],
+  };
+  for (const nodeUid of landmarkUids) {
+    const index = nodeIndices.get(nodeUid)!;
+    const sources = [
+      toStateIndex(index, 'forward'),
+      toStateIndex(index, 'backward'),
+    ];
+    for (const metric of ['distance', 'duration'] as const) {
+      landmarks[`${metric}s`].push({
+        from: computeCosts(outgoing, numStates, sources, metric),
+        to: computeCosts(incoming, numStates, sources, metric),
+      });
+    }
+  }
+  return landmarks;
+}
+
+/**
+ * Returns a function that returns a lower bound on the cost of travelling from
+ * a neighbor to `goalNodeUid`, using the given per-landmark `costs`.
+ */
+export function createLandmarkHeuristic(
+  landmarks: Landmarks,
+  costs: LandmarkCosts[],
+  goalNodeUid: bigint,
+): (neighbor: Neighbor) => number {
+  const goalIndex = landmarks.nodeIndices.get(goalNodeUid);
+  if (goalIndex == null) {
+    return () => 0;
+  }
+  const goalForward = toStateIndex(goalIndex, 'forward');
+  const goalBackward = toStateIndex(goalIndex, 'backward');
+  // the goal can be reached in either direction, so use the direction that
+  // gives the smallest bound.
+  const fromLandmarkToGoal = costs.map(c =>
+    Math.min(c.from[goalForward], c.from[goalBackward]),
+  );
+  const fromGoalToLandmark = costs.map(c =>
+    Math.max(c.to[goalForward], c.to[goalBackward]),
+  );
+
+  return ({ nodeUid, direction }: Neighbor) => {
+    const index = landmarks.nodeIndices.get(nodeUid);
+    if (index == null) {
+      return 0;
+    }
+    const state = toStateIndex(index, direction);
+    let bound = 0;
+    for (let i = 0; i < costs.length; i++) {
+      // triangle inequalities: d(L, goal) <= d(L, n) + d(n, goal), and
+      // d(n, L) <= d(n, goal) + d(goal, L).
+      const a = fromLandmarkToGoal[i] - costs[i].from[state];
+      const b = costs[i].to[state] - fromGoalToLandmark[i];
+      if (Number.isFinite(a) && a > bound) {
+        bound = a;
+      }
+      if (Number.isFinite(b) && b > bound) {
+        bound = b;
+      }
+    }
+    // costs are stored with single precision; give up a little of the bound
+    // so that rounding errors never make it overestimate.
+    return Math.max(0, bound - 1);
+  };
+}
+
+/** Serializes `landmarks` into a binary format readable by `readLandmarks`. */
+export function writeLandmarks(landmarks: Landmarks): Uint8Array {
+  const numNodes = landmarks.nodeIndices.size;
+  const numLandmarks = landmarks.nodeUids.length;
+  const numArrays = numLandmarks * 4;
+  const buffer = new ArrayBuffer(
+    headerSize +
+      (numNodes + numLandmarks) * 8 +
+      numArrays * numNodes * 2 * Float32Array.BYTES_PER_ELEMENT,
+  );
+  const view = new DataView(buffer);
+  view.setUint32(0, magic);
+  view.setUint32(4, numNodes);
+  view.setUint32(8, numLandmarks);
+  view.setUint32(12, landmarks.graphHash);
+
+  let offset = headerSize;
+  const nodeUids = new BigUint64Array(buffer, offset, numNodes);
+  for (const [nodeUid, index] of landmarks.nodeIndices) {
+    nodeUids[index] = nodeUid;
+  }
+  offset += numNodes * 8;
+  new BigUint64Array(buffer, offset, numLandmarks).set(landmarks.nodeUids);
+  offset += numLandmarks * 8;
+
+  for (const costs of [...landmarks.distances, ...landmarks.durations]) {
+    for (const array of [costs.from, costs.to]) {
+      new Float32Array(buffer, offset, array.length).set(array);
+      offset += array.byteLength;
+    }
+  }
+  return new Uint8Array(buffer);
+}
+
+/** Deserializes landmarks written by `writeLandmarks`. */
+export function readLandmarks(bytes: Uint8Array): Landmarks {
+  // copy, so that typed arrays can be created at aligned offsets.
+  const buffer = new Uint8Array(bytes).buffer;
+  const view = new DataView(buffer);
+  Preconditions.checkArgument(
+    buffer.byteLength >= headerSize && view.getUint32(0) === magic,
+    'unsupported landmarks format',
+  );
+  const numNodes = view.getUint32(4);
+  const numLandmarks = view.getUint32(8);
+  const graphHash = view.getUint32(12);
+
+  let offset = headerSize;
+  const nodeUids = new BigUint64Array(buffer, offset, numNodes);
+  offset += numNodes * 8;
+  const landmarkUids = [...new BigUint64Array(buffer, offset, numLandmarks)];
+  offset += numLandmarks * 8;
+
+  const readCosts = (): LandmarkCosts => {
+    const from = new Float32Array(buffer, offset, numNodes * 2);
+    offset += from.byteLength;
+    const to = new Float32Array(buffer, offset, numNodes * 2);
+    offset += to.byteLength;
+    return { from, to };
+  };
+  const distances = Array.from({ length: numLandmarks }, readCosts);
+  const durations = Array.from({ length: numLandmarks }, readCosts);
+  Preconditions.checkArgument(
+    offset === buffer.byteLength,
+    'unexpected landmarks file size',
+  );
+
+  return {
+    graphHash,
+    nodeUids: landmarkUids,
+    nodeIndices: new Map([...nodeUids].map((uid, i) => [uid, i])),
+    distances,
+    durations,
+  };
+}
+
+/**
+ * Returns a 32-bit FNV-1a hash of `graph`'s nodes, edges, and edge costs.
+ * Graphs read from the same binary graph file have the same hash.
+ */
+export function hashGraph(graph: ReadonlyMap<bigint, Neighbors>): number {
+  const view = new DataView(new ArrayBuffer(8));
+  const bytes = new Uint8Array(view.buffer);
+  let hash = 0x811c9dc5;
+  const add = () => {
+    for (const byte of bytes) {
+      hash = Math.imul(hash ^ byte, 0x01000193);
+    }
+  };
+  const addUid = (uid: bigint) => {
+    view.setBigUint64(0, uid);
+    add();
+  };
+  const addCost = (cost: number) => {
+    view.setFloat64(0, Math.fround(cost));
+    add();
+  };
+
+  for (const [nodeUid, { forward, backward }] of graph) {
+    addUid(nodeUid);
+    for (const neighbors of [forward, backward]) {
+      addUid(BigInt(neighbors.length));
+      for (const neighbor of neighbors) {
+        addUid(neighbor.nodeUid);
+        addUid(neighbor.direction === 'forward' ? 0n : 1n);
+        addCost(neighbor.distance);
+        addCost(neighbor.duration ?? NaN);
+      }
+    }
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Greedily picks nodes that are as far away from each other as possible,
+ * starting with the node farthest from the center of the graph.
+ */
+function pickLandmarks(
+  graph: ReadonlyMap<bigint, Neighbors>,
+  nodeLUT: ReadonlyMap<bigint, PartialNode>,
+  count: number,
+): bigint[] {
+  const candidates = [...graph.keys()]
+    .filter(uid => nodeLUT.has(uid))
+    .map(uid => ({ uid, node: nodeLUT.get(uid)! }));
+  Preconditions.checkArgument(candidates.length >= count);
+
+  const center = {
+    x: candidates.reduce((sum, c) => sum + c.node.x, 0) / candidates.length,
+    y: candidates.reduce((sum, c) => sum + c.node.y, 0) / candidates.length,
+  };
+  const minDistances = candidates.map(c => distance(c.node, center));
+  const picked: bigint[] = [];
+  // the first landmark is picked based on distance to the center only.
+  let isFirst = true;
+  while (picked.length < count) {
+    let best = 0;
+    for (let i = 1; i < candidates.length; i++) {
+      if (minDistances[i] > minDistances[best]) {
+        best = i;
+      }
+    }
+    const landmark = candidates[best].node;
+    picked.push(candidates[best].uid);
+    for (let i = 0; i < candidates.length; i++) {
+      const d = distance(candidates[i].node, landmark);
+      minDistances[i] = isFirst ? d : Math.min(minDistances[i], d);
+    }
+    isFirst = false;
+  }
+  return picked;
+}
+
+/** Dijkstra's algorithm over `edges`, starting at `sources`. */
+function computeCosts(
+  edges: Edge[][],
+  numStates: number,
+  sources: number[],
+  metric: 'distance' | 'duration',
+): Float32Array {
+  const costs = new Float64Array(numStates).fill(Infinity);
+  const queue = new PriorityQueue<[state: number, cost: number]>({
+    // sort smallest costs first
+    comparator: (a, b) => b[1] - a[1],
+  });
+  for (const source of sources) {
+    costs[source] = 0;
+    queue.push([source, 0]);
+  }
+  while (!queue.isEmpty()) {
+    const [state, cost] = queue.pop();
+    if (cost > costs[state]) {
+      // stale entry.
+      continue;
+    }
+    for (const edge of edges[state] ?? []) {
+      const tentativeCost = cost + edge[metric];
+      if (tentativeCost < costs[edge.to]) {
+        costs[edge.to] = tentativeCost;
+        queue.push([edge.to, tentativeCost]);
+      }
+    }
+  }
+  return Float32Array.from(costs);
+}
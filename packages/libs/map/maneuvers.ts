@@ -0,0 +1,393 @@
+import { assertExists } from '@truckermudgeon/base/assert';
+import type { Position } from '@truckermudgeon/base/geom';
+import { distance, normalizeRadians } from '@truckermudgeon/base/geom';
+import { putIfAbsent } from '@truckermudgeon/base/map';
+import { calculateNodeConnections } from './prefabs';
+import type { Direction, Route } from './routing';
+import type {
+  CompanyItem,
+  Ferry,
+  Neighbor,
+  Node,
+  Poi,
+  Prefab,
+  PrefabDescription,
+} from './types';
+
+export type Maneuver = Readonly<
+  {
+    /** The uid of the node where the maneuver should be made. */
+    nodeUid: bigint;
+    /** The index of the maneuver's node in the route. */
+    routeIndex: number;
+    /**
+     * The distance between the previous maneuver's node (or the start of the
+     * route) and this maneuver's node.
+     */
+    distance: number;
+    /** The road number (or street name) of the road taken after the maneuver. */
+    label?: string;
+  } & (
+    | { type: 'depart' }
+    | { type: 'turn' | 'keep'; side: 'left' | 'right' }
+    | { type: 'uTurn' }
+    | { type: 'merge' }
+    | {
+        type: 'roundabout';
+        /** The 1-based number of the exit to take. */
+        exit: number;
+      }
+    | { type: 'ferry' }
+    | {
+        type: 'arrive';
+        /** The company at the end of the route, if any. */
+        company?: CompanyItem;
+      }
+  )
+>;
+
+/** Returns a road label for a position, if one is known. */
+export type RoadLabeler = (pos: { x: number; y: number }) => string | undefined;
+
+export interface ManeuverContext {
+  nodes: ReadonlyMap<bigint, Node>;
+  prefabs: ReadonlyMap<bigint, Prefab>;
+  prefabDescriptions: ReadonlyMap<string, PrefabDescription>;
+  /** Company items, keyed by item uid. */
+  companies?: ReadonlyMap<bigint, CompanyItem>;
+  /** Ferries, keyed by token. Used to label ferry maneuvers. */
+  ferries?: ReadonlyMap<string, Ferry>;
+  getRoadLabel?: RoadLabeler;
+}
+
+// Turn angle thresholds, in radians.
+const keepThreshold = Math.PI / 6;
+const forkThreshold = Math.PI / 4;
+const uTurnThreshold = (Math.PI * 5) / 6;
+
+/**
+ * Converts a successful Route into a list of turn-by-turn maneuvers. The
+ * first maneuver is always a `depart` maneuver, and the last maneuver is
+ * always an `arrive` maneuver.
+ *
+ * Maneuvers are only generated at points along the route where a choice has
+ * to be made (e.g., at prefab intersections with more than one exit), or
+ * where the kind of travel changes (e.g., when boarding a ferry).
+ */
+export function toManeuvers(
+  route: Extract<Route, { success: true }>,
+  context: ManeuverContext,
+): Maneuver[] {
+  const { nodes, prefabs, prefabDescriptions } = context;
+  const neighbors = route.route;
+  const getNode = (n: Neighbor) => assertExists(nodes.get(n.nodeUid));
+
+  const connectionsCache = new Map<string, Map<number, number[]>>();
+  const getConnections = (prefab: Prefab) => {
+    const desc = prefabDescriptions.get(prefab.token);
+    return desc
+      ? putIfAbsent(
+          prefab.token,
+          calculateNodeConnections(desc),
+          connectionsCache,
+        )
+      : undefined;
+  };
+
+  const roundaboutCache = new Map<string, boolean>();
+  const isRoundaboutPrefab = (prefab: Prefab) =>
+    putIfAbsent(
+      prefab.token,
+      isRoundabout(assertExists(prefabDescriptions.get(prefab.token))),
+      roundaboutCache,
+    );
+
+  const maneuvers: Maneuver[] = [];
+  let distanceSinceLastManeuver = 0;
+  const push = (
+    routeIndex: number,
+    maneuver:
+      | { type: 'depart' | 'uTurn' | 'merge' }
+      | { type: 'turn' | 'keep'; side: 'left' | 'right' }
+      | { type: 'roundabout'; exit: number }
+      | { type: 'ferry'; label?: string }
+      | { type: 'arrive'; company?: CompanyItem },
+  ) => {
+    maneuvers.push({
+      nodeUid: neighbors[routeIndex].nodeUid,
+      routeIndex,
+      distance: distanceSinceLastManeuver,
+      ...maneuver,
+    });
+    distanceSinceLastManeuver = 0;
+  };
+
+  push(0, { type: 'depart' });
+  for (let i = 0; i < neighbors.length - 1; i++) {
+    const from = neighbors[i];
+    const to = neighbors[i + 1];
+    distanceSinceLastManeuver += from.distance;
+    if (from.nodeUid === to.nodeUid && from.direction === to.direction) {
+      // e.g., the duplicated node in a single-node route.
+      continue;
+    }
+
+    if (to.isFerry) {
+      push(i, {
+        type: 'ferry',
+        label: getFerryLabel(from.nodeUid, to.nodeUid, context.ferries),
+      });
+      continue;
+    }
+
+    const fromNode = getNode(from);
+    const toNode = getNode(to);
+    const turnAngle = normalizeRadians(
+      toHeading(toNode, to.direction) - toHeading(fromNode, from.direction),
+    );
+    const itemUid =
+      from.direction === 'forward'
+        ? fromNode.forwardItemUid
+        : fromNode.backwardItemUid;
+    const prefab = prefabs.get(itemUid);
+    if (!prefab?.nodeUids.includes(toNode.uid)) {
+      // not a traversal through a prefab, e.g., a road or a company edge.
+      continue;
+    }
+
+    const connections = getConnections(prefab);
+    if (!connections) {
+      continue;
+    }
+    const toIndex = (uid: bigint) =>
+      (prefab.nodeUids.indexOf(uid) + prefab.originNodeIndex) %
+      prefab.nodeUids.length;
+    const toUid = (index: number) =>
+      prefab.nodeUids[
+        (index - prefab.originNodeIndex + prefab.nodeUids.length) %
+          prefab.nodeUids.length
+      ];
+    const entryIndex = toIndex(fromNode.uid);
+    const exitIndices = connections.get(entryIndex) ?? [];
+
+    if (prefab.nodeUids.length >= 3 && isRoundaboutPrefab(prefab)) {
+      push(i, {
+        type: 'roundabout',
+        exit: getRoundaboutExit(
+          fromNode,
+          toNode,
+          exitIndices.map(index => assertExists(nodes.get(toUid(index)))),
+          assertExists(prefabDescriptions.get(prefab.token)),
+        ),
+      });
+      continue;
+    }
+
+    if (isUTurn(turnAngle)) {
+      push(i, { type: 'uTurn' });
+      continue;
+    }
+
+    const otherExitAngles = exitIndices
+      .map(toUid)
+      .filter(uid => uid !== toNode.uid)
+      .map(uid => assertExists(nodes.get(uid)))
+      .map(exitNode =>
+        normalizeRadians(
+          toHeading(exitNode, getExitDirection(exitNode, prefab)) -
+            toHeading(fromNode, from.direction),
+        ),
+      );
+    if (otherExitAngles.length === 0) {
+      // no choice to be made, but maybe a merge onto a bigger road.
+      const numEntries = connections
+        .entries()
+        .filter(([, exits]) => exits.includes(toIndex(toNode.uid)))
+        .reduce(acc => acc + 1, 0);
+      if (
+        numEntries > 1 &&
+        from.isOneLaneRoad &&
+        Math.abs(turnAngle) < forkThreshold
+      ) {
+        push(i, { type: 'merge' });
+      }
+      continue;
+    }
+
+    if (Math.abs(turnAngle) >= keepThreshold) {
+      push(i, { type: 'turn', side: turnAngle > 0 ? 'right' : 'left' });
+    } else if (otherExitAngles.every(a => Math.abs(a) < forkThreshold)) {
+      // a fork in the road.
+      if (otherExitAngles.every(a => a > turnAngle)) {
+        push(i, { type: 'keep', side: 'left' });
+      } else if (otherExitAngles.every(a => a < turnAngle)) {
+        push(i, { type: 'keep', side: 'right' });
+      }
+    }
+    // otherwise, going straight through an intersection.
+  }
+
+  const lastIndex = neighbors.length - 1;
+  distanceSinceLastManeuver += neighbors[lastIndex].distance;
+  const lastNodeUid = neighbors[lastIndex].nodeUid;
+  push(lastIndex, {
+    type: 'arrive',
+    company: context.companies
+      ?.values()
+      .find(company => company.nodeUid === lastNodeUid),
+  });
+
+  const { getRoadLabel } = context;
+  if (!getRoadLabel) {
+    return maneuvers;
+  }
+  return maneuvers.map((maneuver, i) => {
+    if (maneuver.label != null || maneuver.type === 'arrive') {
+      return maneuver;
+    }
+    const nextIndex = maneuvers[i + 1].routeIndex;
+    const label = neighbors
+      .slice(maneuver.routeIndex + 1, nextIndex + 1)
+      .values()
+      .map(n => getRoadLabel(getNode(n)))
+      .find(label => label != null);
+    return label != null ? { ...maneuver, label } : maneuver;
+  });
+}
+
+/**
+ * Returns a RoadLabeler that labels positions with the icon tokens (e.g.,
+ * `us_i35`) of nearby road-number map overlays.
+ */
+export function createRoadLabeler(
+  pois: readonly Poi[],
+  radius = 100,
+): RoadLabeler {
+  const toSectorKey = (x: number, y: number) =>
+    `${Math.floor(x / 4000)},${Math.floor(y / 4000)}`;
+  const roadPoisBySector = new Map<string, Poi[]>();
+  for (const poi of pois) {
+    if (poi.type === 'road') {
+      putIfAbsent(toSectorKey(poi.x, poi.y), [], roadPoisBySector).push(poi);
+    }
+  }
+
+  return pos => {
+    let closest: { poi: Poi; distance: number } | undefined;
+    for (const dx of [-radius, 0, radius]) {
+      for (const dy of [-radius, 0, radius]) {
+        const sectorPois =
+          roadPoisBySector.get(toSectorKey(pos.x + dx, pos.y + dy)) ?? [];
+        for (const poi of sectorPois) {
+          const d = distance(poi, pos);
+          if (d <= radius && (!closest || d < closest.distance)) {
+            closest = { poi, distance: d };
+          }
+        }
+      }
+    }
+    return closest?.poi.icon;
+  };
+}
+
+/**
+ * Returns the direction of travel, in radians, when traveling through `node`
+ * in `direction`.
+ */
+function toHeading(node: Node, direction: Direction): number {
+  return direction === 'forward' ? node.rotation : node.rotation + Math.PI;
+}
+
+function isUTurn(turnAngle: number) {
+  return Math.abs(turnAngle) >= uTurnThreshold;
+}
+
+/** Returns the direction one travels in when exiting `prefab` at `node`. */
+function getExitDirection(node: Node, prefab: Prefab): Direction {
+  return node.backwardItemUid === prefab.uid ? 'forward' : 'backward';
+}
+
+/**
+ * Returns whether `prefabDesc` is a roundabout, i.e., whether its nav curves
+ * form a loop that traffic can drive around. Intersections that allow U-turns
+ * aren't roundabouts: their U-turn curves lead straight back to the entry node.
+ */
+function isRoundabout(prefabDesc: PrefabDescription): boolean {
+  const { navCurves } = prefabDesc;
+  // curve indices whose successors are being visited, or have been visited.
+  const visiting = new Set<number>();
+  const visited = new Set<number>();
+  const hasLoop = (index: number): boolean => {
+    if (visiting.has(index)) {
+      return true;
+    }
+    if (visited.has(index)) {
+      return false;
+    }
+    visiting.add(index);
+    const found = navCurves[index].nextLines.some(hasLoop);
+    visiting.delete(index);
+    visited.add(index);
+    return found;
+  };
+  return navCurves.some((_, i) => hasLoop(i));
+}
+
+/**
+ * Returns the 1-based number of the roundabout exit at `exitNode`, counted in
+ * the roundabout's direction of travel from `entryNode`. The entry node itself
+ * (i.e., going all the way around) is counted last.
+ */
+function getRoundaboutExit(
+  entryNode: Node,
+  exitNode: Node,
+  exitNodes: readonly Node[],
+  prefabDesc: PrefabDescription,
+): number {
+  const sense = getRoundaboutSense(prefabDesc);
+  const center = centroid(exitNodes.length ? exitNodes : [entryNode]);
+  const angleOf = (n: Node) => Math.atan2(n.y - center[1], n.x - center[0]);
+  const entryAngle = angleOf(entryNode);
+  const offsetOf = (n: Node) => {
+    if (n.uid === entryNode.uid) {
+      return Math.PI * 2;
+    }
+    const twoPi = Math.PI * 2;
+    return (((sense * (angleOf(n) - entryAngle)) % twoPi) + twoPi) % twoPi;
+  };
+
+  const sorted = [...exitNodes].sort((a, b) => offsetOf(a) - offsetOf(b));
+  return sorted.findIndex(n => n.uid === exitNode.uid) + 1;
+}
+
+/**
+ * Returns 1 if traffic in a roundabout prefab flows in the direction of
+ * increasing angles, or -1 if it flows in the direction of decreasing angles.
+ */
+function getRoundaboutSense(prefabDesc: PrefabDescription): 1 | -1 {
+  const center = centroid(prefabDesc.nodes);
+  const cross = prefabDesc.navCurves.reduce((acc, { start, end }) => {
+    const r = [start.x - center[0], start.y - center[1]];
+    const v = [end.x - start.x, end.y - start.y];
+    return acc + (r[0] * v[1] - r[1] * v[0]);
+  }, 0);
+  // prefab descriptions are rotated (but never mirrored) when placed in the
+  // map, so their sense is the same as the prefab item's.
+  return cross >= 0 ? 1 : -1;
+}
+
+function centroid(points: readonly { x: number; y: number }[]): Position {
+  return [
+    points.reduce((acc, p) => acc + p.x, 0) / points.length,
+    points.reduce((acc, p) => acc + p.y, 0) / points.length,
+  ];
+}
+
+function getFerryLabel(
+  fromNodeUid: bigint,
+  toNodeUid: bigint,
+  ferries: ReadonlyMap<string, Ferry> | undefined,
+): string | undefined {
+  const ferry = ferries?.values().find(f => f.nodeUid === fromNodeUid);
+  return ferry?.connections.find(c => c.nodeUid === toNodeUid)?.name;
+}
@@ -18,6 +18,7 @@ import * as turf from '@turf/helpers';
 import lineIntersect from '@turf/line-intersect';
 import lineOffset from '@turf/line-offset';
 import simplify from '@turf/simplify';
+import PriorityQueue from 'priorityqueue';
 import { MapAreaColor } from './constants';
 import type {
   MapPoint,
@@ -717,6 +718,103 @@ export function calculateNodeConnections(
   return mapValues(connections, numbers => [...new Set(numbers)]);
 }
 
+export interface NodeConnection {
+  /** 0-based ending node index. */
+  endNodeIndex: number;
+  /**
+   * The length of the shortest path of nav curves between the starting and
+   * ending nodes, in meters.
+   */
+  length: number;
+  /**
+   * Indices into the starting node's `inputLanes` of the lanes that lead to
+   * the ending node.
+   */
+  lanes: number[];
+  /** Indices into `navCurves` of the curves along the shortest path. */
+  navCurves: number[];
+}
+
+/**
+ * Returns a map of 0-based starting node indices to the connections
+ * originating at that node index, with lengths based on the prefab's nav
+ * curves. Connections are ordered the same way as in the map returned by
+ * `calculateNodeConnections`.
+ */
+export function calculateNodeConnectionPaths(
+  prefabDesc: PrefabDescription,
+): Map<number, NodeConnection[]> {
+  const curveLengths = new Map<number, number>();
+  const getCurveLength = (curveIndex: number) => {
+    let length = curveLengths.get(curveIndex);
+    if (length == null) {
+      const curve = prefabDesc.navCurves[curveIndex];
+      const points = toSplinePoints(
+        {
+          position: [curve.start.x, curve.start.y],
+          rotation: curve.start.rotation,
+        },
+        {
+          position: [curve.end.x, curve.end.y],
+          rotation: curve.end.rotation,
+        },
+      );
+      length = 0;
+      for (let i = 1; i < points.length; i++) {
+        length += distance(points[i - 1], points[i]);
+      }
+      curveLengths.set(curveIndex, length);
+    }
+    return length;
+  };
+
+  const connections = new Map<number, NodeConnection[]>();
+  for (
+    let startingNodeIndex = 0;
+    startingNodeIndex < prefabDesc.nodes.length;
+    startingNodeIndex++
+  ) {
+    const node = prefabDesc.nodes[startingNodeIndex];
+    node.inputLanes.forEach((inputLaneIndex, lane) => {
+      const nodeConnections = putIfAbsent(startingNodeIndex, [], connections);
+      const paths = getShortestCurvePaths(
+        prefabDesc,
+        inputLaneIndex,
+        getCurveLength,
+      );
+      // iterate in the same order as `calculateNodeConnections`.
+      for (const endNodeIndex of getEndingNodeIndices(
+        prefabDesc,
+        inputLaneIndex,
+      )) {
+        const { length, curvePathIndices } = assertExists(
+          paths.get(endNodeIndex),
+        );
+        const connection = nodeConnections.find(
+          c => c.endNodeIndex === endNodeIndex,
+        );
+        if (!connection) {
+          nodeConnections.push({
+            endNodeIndex,
+            length,
+            lanes: [lane],
+            navCurves: curvePathIndices,
+          });
+          continue;
+        }
+        if (!connection.lanes.includes(lane)) {
+          connection.lanes.push(lane);
+        }
+        if (length < connection.length) {
+          connection.length = length;
+          connection.navCurves = curvePathIndices;
+        }
+      }
+    });
+  }
+  return connections;
+}
+
 interface CurvePath {
   endingNodeIndex: number;
   curvePathIndices: number[];
@@ -730,14 +828,8 @@ function getCurvePaths(
   // (e.g., navNode.connections info). but i don't get how that stuff works, so trace where
   // curves lead.
 
-  // keys: curve index; values: node index
-  const endingCurveIndexToNodeIndex = new Map<number, number>();
-  for (let nodeIndex = 0; nodeIndex < prefabDesc.nodes.length; nodeIndex++) {
-    const node = prefabDesc.nodes[nodeIndex];
-    for (const outputLane of node.outputLanes) {
-      endingCurveIndexToNodeIndex.set(outputLane, nodeIndex);
-    }
-  }
+  const endingCurveIndexToNodeIndex =
+    getEndingCurveIndexToNodeIndex(prefabDesc);
 
   const prefix = (curvePath: CurvePath, curveIndex: number): CurvePath => ({
     ...curvePath,
@@ -776,6 +868,84 @@ function getCurvePaths(
   return getPaths(inputLaneIndex).map(p => prefix(p, inputLaneIndex));
 }
 
+/**
+ * Returns the shortest paths of nav curves from the `inputLaneIndex` curve to
+ * each of the nodes it leads to, keyed by ending node index. Path lengths are
+ * the sums of the lengths of their curves, as returned by `getCurveLength`.
+ */
+function getShortestCurvePaths(
+  prefabDesc: PrefabDescription,
+  inputLaneIndex: number,
+  getCurveLength: (curveIndex: number) => number,
+): Map<number, CurvePath & { length: number }> {
+  const endingCurveIndexToNodeIndex =
+    getEndingCurveIndexToNodeIndex(prefabDesc);
+
+  // Dijkstra, over curves instead of nodes.
+  interface Entry {
+    curveIndex: number;
+    length: number;
+    curvePathIndices: number[];
+  }
+  const queue = new PriorityQueue<Entry>({
+    // sort smallest lengths first
+    comparator: (a, b) => b.length - a.length,
+  });
+  queue.push({
+    curveIndex: inputLaneIndex,
+    length: getCurveLength(inputLaneIndex),
+    curvePathIndices: [inputLaneIndex],
+  });
+
+  const visited = new Set<number>();
+  const paths = new Map<number, CurvePath & { length: number }>();
+  while (!queue.isEmpty()) {
+    const { curveIndex, length, curvePathIndices } = queue.pop();
+    if (visited.has(curveIndex)) {
+      continue;
+    }
+    visited.add(curveIndex);
+
+    const endingNodeIndex = endingCurveIndexToNodeIndex.get(curveIndex);
+    if (endingNodeIndex != null) {
+      // ending curves are leaves, like in `getCurvePaths`.
+      if (!paths.has(endingNodeIndex)) {
+        paths.set(endingNodeIndex, {
+          endingNodeIndex,
+          curvePathIndices,
+          length,
+        });
+      }
+      continue;
+    }
+
+    for (const nextCurveIndex of prefabDesc.navCurves[curveIndex].nextLines) {
+      if (!visited.has(nextCurveIndex)) {
+        queue.push({
+          curveIndex: nextCurveIndex,
+          length: length + getCurveLength(nextCurveIndex),
+          curvePathIndices: [...curvePathIndices, nextCurveIndex],
+        });
+      }
+    }
+  }
+  return paths;
+}
+
+/** Returns a map of curve indices to the indices of the nodes they end at. */
+function getEndingCurveIndexToNodeIndex(
+  prefabDesc: PrefabDescription,
+): Map<number, number> {
+  const endingCurveIndexToNodeIndex = new Map<number, number>();
+  for (let nodeIndex = 0; nodeIndex < prefabDesc.nodes.length; nodeIndex++) {
+    const node = prefabDesc.nodes[nodeIndex];
+    for (const outputLane of node.outputLanes) {
+      endingCurveIndexToNodeIndex.set(outputLane, nodeIndex);
+    }
+  }
+  return endingCurveIndexToNodeIndex;
+}
+
 function getEndingNodeIndices(
   prefabDesc: PrefabDescription,
   inputLaneIndex: number,
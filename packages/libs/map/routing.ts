@@ -1,13 +1,21 @@
 import { assertExists } from '@truckermudgeon/base/assert';
 import { distance } from '@truckermudgeon/base/geom';
 import { Preconditions, UnreachableError } from '@truckermudgeon/base/precon';
-import type { Neighbor, Neighbors, Node } from '@truckermudgeon/map/types';
+import type {
+  City,
+  CompanyItem,
+  Neighbor,
+  Neighbors,
+  Node,
+} from '@truckermudgeon/map/types';
 import type { PriorityQueueInstance } from 'priorityqueue';
 import PriorityQueue from 'priorityqueue';
 import type { PriorityQueueOption } from 'priorityqueue/lib/PriorityQueue';
+import type { Landmarks } from './landmarks';
+import { createLandmarkHeuristic } from './landmarks';
 
 export type Direction = 'forward' | 'backward';
-export type Mode = 'shortest' | 'smallRoads';
+export type Mode = 'shortest' | 'smallRoads' | 'fastest';
 export type Route = {
   key: string;
   mode: Mode;
@@ -16,6 +24,8 @@ export type Route = {
       success: true;
       route: Neighbor[];
       distance: number;
+      /** Expected travel time, in seconds. */
+      duration: number;
     }
   | {
       success: false;
@@ -24,12 +34,78 @@ export type Route = {
 );
 
 export type PartialNode = Pick<Node, 'x' | 'y'>;
+
+type SuccessfulRoute = Extract<Route, { success: true }>;
+
+export type MultiStopRoute =
+  | {
+      success: true;
+      /** The route's legs. There is one less leg than there are stops. */
+      legs: SuccessfulRoute[];
+      /** The stops' node uids, in the order they're visited. */
+      stops: bigint[];
+      distance: number;
+      duration: number;
+    }
+  | {
+      success: false;
+      /** The stops' node uids, in the order they were to be visited. */
+      stops: bigint[];
+      /** The index of the first leg that couldn't be routed. */
+      failedLeg: number;
+    };
+
+/**
+ * A stop on a multi-stop route: a node uid, a company (identified by its
+ * token and city token), or a city.
+ */
+export type Stop =
+  | bigint
+  | { company: string; city: string }
+  | { city: string };
+
+/**
+ * Route preferences. Avoided edges are penalized rather than excluded, so that
+ * a route can still be found when there's no way around them.
+ */
+export interface AvoidanceOptions {
+  ferries?: boolean;
+  /** Train routes, like the Eurotunnel. */
+  trains?: boolean;
+  tolls?: boolean;
+  borders?: boolean;
+  /** Penalizes edges that aren't divided roads or freeways. */
+  preferHighways?: boolean;
+}
+
 export interface Context {
   nodeLUT: Map<bigint, PartialNode>;
   graph: Map<bigint, Neighbors>;
   enabledDlcGuards: Set<number>;
+  /** Optional precomputed landmarks, for faster queries. */
+  landmarks?: Landmarks;
+  avoid?: AvoidanceOptions;
+  /**
+   * Optional uids of the nodes routes are restricted to, e.g., for special
+   * transport routes. The end node of a route is always allowed.
+   */
+  corridor?: ReadonlySet<bigint>;
 }
 
+// Speeds, in meters per second, used by the 'fastest' mode. `maxSpeed` is an
+// upper bound for truck speed limits, so that the A* heuristic never
+// overestimates the remaining travel time. `defaultSpeed` is used for edges
+// that don't have an expected duration.
+const maxSpeed = 130 / 3.6;
+const defaultSpeed = 60 / 3.6;
+
+// Cost added to avoided edges, in meters (or the time it takes to travel that
+// far at `defaultSpeed`, for the 'fastest' mode). Large enough to prefer
+// long detours, but finite so that unavoidable edges can still be used.
+const avoidedEdgePenalty = 1_000_000;
+// Cost multiplier for non-highway edges, when highways are preferred.
+const nonHighwayFactor = 3;
+
 export function findRoute(
   startNodeUid: bigint,
   endNodeUid: bigint,
@@ -41,7 +117,6 @@ export function findRoute(
   // console.log('finding route', startNodeUid, 'direction', endNodeUid);
   const { nodeLUT, graph } = context;
 
-  const start = assertExists(nodeLUT.get(startNodeUid));
   const goal = assertExists(nodeLUT.get(endNodeUid));
 
   const openSet = new Queue<Neighbor>({
@@ -65,19 +140,45 @@ export function findRoute(
   gScore.set(startAsNeighbor, 0);
 
   //const h = (_n: PartialNode) => 0;
-  const h = (n: PartialNode) => distance(n, goal);
-  const d = (_from: Neighbor, to: Neighbor) => {
+  const straightLineH = (n: PartialNode) =>
+    mode === 'fastest' ? distance(n, goal) / maxSpeed : distance(n, goal);
+  // landmark costs are lower bounds for all modes: 'smallRoads' costs are
+  // never less than 'shortest' costs.
+  const landmarkH = context.landmarks
+    ? createLandmarkHeuristic(
+        context.landmarks,
+        mode === 'fastest'
+          ? context.landmarks.durations
+          : context.landmarks.distances,
+        endNodeUid,
+      )
+    : () => 0;
+  const h = (n: Neighbor) =>
+    Math.max(straightLineH(assertExists(nodeLUT.get(n.nodeUid))), landmarkH(n));
+  const baseD = (to: Neighbor) => {
     switch (mode) {
       case 'shortest':
         return to.distance;
       case 'smallRoads':
         return to.isOneLaneRoad ? to.distance : to.distance * 10;
+      case 'fastest':
+        return getDuration(to);
       default:
         throw new UnreachableError(mode);
     }
   };
+  // penalties only ever increase costs, so heuristics remain admissible.
+  const { avoid } = context;
+  const penalty =
+    mode === 'fastest' ? avoidedEdgePenalty / defaultSpeed : avoidedEdgePenalty;
+  const d = avoid
+    ? (_from: Neighbor, to: Neighbor) =>
+        baseD(to) *
+          (avoid.preferHighways && !to.isHighway ? nonHighwayFactor : 1) +
+        (isAvoided(to, avoid) ? penalty : 0)
+    : (_from: Neighbor, to: Neighbor) => baseD(to);
   const fScore = new Map<Neighbor, number>();
-  fScore.set(startAsNeighbor, h(start));
+  fScore.set(startAsNeighbor, h(startAsNeighbor));
 
   let numIters = 0;
   while (!openSet.isEmpty()) {
@@ -109,15 +210,19 @@ export function findRoute(
       if (!context.enabledDlcGuards.has(neighbor.dlcGuard)) {
         continue;
       }
+      if (
+        context.corridor &&
+        neighbor.nodeUid !== endNodeUid &&
+        !context.corridor.has(neighbor.nodeUid)
+      ) {
+        continue;
+      }
       const tentativeScore =
         (gScore.get(current) ?? Infinity) + d(current, neighbor);
       if (tentativeScore < (gScore.get(neighbor) ?? Infinity)) {
         cameFrom.set(neighbor, current);
         gScore.set(neighbor, tentativeScore);
-        fScore.set(
-          neighbor,
-          tentativeScore + h(assertExists(nodeLUT.get(neighbor.nodeUid))),
-        );
+        fScore.set(neighbor, tentativeScore + h(neighbor));
         if (!openSet.has(neighbor)) {
           openSet.push(neighbor);
         }
@@ -132,22 +237,308 @@ export function findRoute(
   };
 }
 
+/** A limit on the distance (in meters) or duration (in seconds) of routes. */
+export type ReachLimit = { distance: number } | { duration: number };
+
+/**
+ * Returns the nodes that can be reached from `startNodeUid`, starting in
+ * `direction`, without exceeding `limit`. Nodes are mapped to the lowest
+ * distance or duration it takes to reach them.
+ *
+ * Edges avoided by `context.avoid` aren't used; `preferHighways` is ignored.
+ */
+export function reachable(
+  startNodeUid: bigint,
+  limit: ReachLimit,
+  context: Context,
+  direction: Direction = 'forward',
+): Map<bigint, number> {
+  const [maxCost, getCost] =
+    'distance' in limit
+      ? [limit.distance, (n: Neighbor) => n.distance]
+      : [limit.duration, getDuration];
+  // bounded Dijkstra's over (node, direction) states.
+  const costs: Record<Direction, Map<bigint, number>> = {
+    forward: new Map(),
+    backward: new Map(),
+  };
+  const queue = new PriorityQueue<
+    [nodeUid: bigint, direction: Direction, cost: number]
+  >({
+    // sort smallest costs first
+    comparator: (a, b) => b[2] - a[2],
+  });
+  costs[direction].set(startNodeUid, 0);
+  queue.push([startNodeUid, direction, 0]);
+  while (!queue.isEmpty()) {
+    const [nodeUid, nodeDirection, cost] = queue.pop();
+    if (cost > (costs[nodeDirection].get(nodeUid) ?? Infinity)) {
+      // stale entry.
+      continue;
+    }
+    const neighbors = context.graph.get(nodeUid);
+    if (!neighbors) {
+      continue;
+    }
+    for (const neighbor of neighbors[nodeDirection]) {
+      if (
+        !context.enabledDlcGuards.has(neighbor.dlcGuard) ||
+        (context.corridor && !context.corridor.has(neighbor.nodeUid)) ||
+        (context.avoid && isAvoided(neighbor, context.avoid))
+      ) {
+        continue;
+      }
+      const tentativeCost = cost + getCost(neighbor);
+      const neighborCosts = costs[neighbor.direction];
+      if (
+        tentativeCost <= maxCost &&
+        tentativeCost < (neighborCosts.get(neighbor.nodeUid) ?? Infinity)
+      ) {
+        neighborCosts.set(neighbor.nodeUid, tentativeCost);
+        queue.push([neighbor.nodeUid, neighbor.direction, tentativeCost]);
+      }
+    }
+  }
+
+  const reached = new Map(costs.forward);
+  for (const [nodeUid, cost] of costs.backward) {
+    if (cost < (reached.get(nodeUid) ?? Infinity)) {
+      reached.set(nodeUid, cost);
+    }
+  }
+  return reached;
+}
+
+/**
+ * Finds a route that visits `stops` in order, starting in `direction` at the
+ * first stop. Each leg starts in the direction the previous leg arrived in.
+ *
+ * If `options.optimizeOrder` is set, the stops between the first and last
+ * stops are visited in the order that minimizes the route's total cost.
+ */
+export function findMultiStopRoute(
+  stops: readonly bigint[],
+  direction: Direction,
+  mode: Mode,
+  context: Context,
+  options: { optimizeOrder?: boolean } = {},
+): MultiStopRoute {
+  Preconditions.checkArgument(stops.length >= 2, 'at least 2 stops required');
+  const orderedStops = options.optimizeOrder
+    ? optimizeStopOrder(stops, direction, mode, context)
+    : [...stops];
+
+  const legs: SuccessfulRoute[] = [];
+  let legDirection = direction;
+  for (let i = 0; i < orderedStops.length - 1; i++) {
+    const leg = findRoute(
+      orderedStops[i],
+      orderedStops[i + 1],
+      legDirection,
+      mode,
+      context,
+    );
+    if (!leg.success) {
+      return { success: false, stops: orderedStops, failedLeg: i };
+    }
+    legs.push(leg);
+    legDirection = leg.route[leg.route.length - 1].direction;
+  }
+
+  return {
+    success: true,
+    legs,
+    stops: orderedStops,
+    distance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+    duration: legs.reduce((sum, leg) => sum + leg.duration, 0),
+  };
+}
+
+/**
+ * Resolves `stops` to node uids. Companies resolve to their nodes, and cities
+ * resolve to the node of the company closest to the city's center.
+ */
+export function resolveStops(
+  stops: readonly Stop[],
+  lookups: {
+    companies: ReadonlyMap<bigint, CompanyItem>;
+    cities: ReadonlyMap<string, City>;
+  },
+): bigint[] {
+  const companies = [...lookups.companies.values()];
+  return stops.map(stop => {
+    if (typeof stop === 'bigint') {
+      return stop;
+    }
+    if ('company' in stop) {
+      return Preconditions.checkExists(
+        companies.find(
+          c => c.token === stop.company && c.cityToken === stop.city,
+        ),
+        `unknown company: ${stop.company}.${stop.city}`,
+      ).nodeUid;
+    }
+
+    const city = Preconditions.checkExists(
+      lookups.cities.get(stop.city),
+      `unknown city: ${stop.city}`,
+    );
+    const cityCompanies = companies.filter(c => c.cityToken === stop.city);
+    Preconditions.checkArgument(
+      cityCompanies.length > 0,
+      `city has no companies: ${stop.city}`,
+    );
+    return cityCompanies.reduce((closest, c) =>
+      distance(c, city) < distance(closest, city) ? c : closest,
+    ).nodeUid;
+  });
+}
+
+// Held-Karp is O(2^n * n^2); keep `n` small.
+const maxOptimizedStops = 12;
+
+/**
+ * Returns `stops`, with the stops between the first and last stops reordered
+ * so that the total cost of travelling between them is minimized.
+ *
+ * Leg costs are computed up front, assuming each leg starts in the forward
+ * direction (except for the first stop, which starts in `direction`), so the
+ * order may be slightly suboptimal when arrival directions matter.
+ */
+function optimizeStopOrder(
+  stops: readonly bigint[],
+  direction: Direction,
+  mode: Mode,
+  context: Context,
+): bigint[] {
+  Preconditions.checkArgument(
+    stops.length <= maxOptimizedStops,
+    `can only optimize the order of up to ${maxOptimizedStops} stops`,
+  );
+  const n = stops.length;
+  if (n <= 3) {
+    return [...stops];
+  }
+
+  // costs[i][j] is the cost of travelling from stops[i] to stops[j].
+  const costs = stops.map((from, i) =>
+    stops.map((to, j) => {
+      if (i === j) {
+        return 0;
+      }
+      const route = findRoute(
+        from,
+        to,
+        i === 0 ? direction : 'forward',
+        mode,
+        context,
+      );
+      if (!route.success) {
+        return Infinity;
+      }
+      return mode === 'fastest' ? route.duration : route.distance;
+    }),
+  );
+
+  // Held-Karp over the intermediate stops 1..n-2. best[subset][last] is the
+  // cost of starting at stop 0, visiting every stop in `subset`, and ending at
+  // stop `last` (which must be in `subset`).
+  const numMiddle = n - 2;
+  const toStop = (bit: number) => bit + 1;
+  const numSubsets = 1 << numMiddle;
+  const best = Array.from({ length: numSubsets }, () =>
+    new Array<number>(numMiddle).fill(Infinity),
+  );
+  const prev = Array.from({ length: numSubsets }, () =>
+    new Array<number>(numMiddle).fill(-1),
+  );
+  for (let bit = 0; bit < numMiddle; bit++) {
+    best[1 << bit][bit] = costs[0][toStop(bit)];
+  }
+  for (let subset = 1; subset < numSubsets; subset++) {
+    for (let last = 0; last < numMiddle; last++) {
+      if (!(subset & (1 << last)) || best[subset][last] === Infinity) {
+        continue;
+      }
+      for (let next = 0; next < numMiddle; next++) {
+        if (subset & (1 << next)) {
+          continue;
+        }
+        const nextSubset = subset | (1 << next);
+        const cost = best[subset][last] + costs[toStop(last)][toStop(next)];
+        if (cost < best[nextSubset][next]) {
+          best[nextSubset][next] = cost;
+          prev[nextSubset][next] = last;
+        }
+      }
+    }
+  }
+
+  const all = numSubsets - 1;
+  let last = 0;
+  for (let bit = 1; bit < numMiddle; bit++) {
+    if (
+      best[all][bit] + costs[toStop(bit)][n - 1] <
+      best[all][last] + costs[toStop(last)][n - 1]
+    ) {
+      last = bit;
+    }
+  }
+  if (best[all][last] + costs[toStop(last)][n - 1] === Infinity) {
+    // no order works; let the caller report which leg fails.
+    return [...stops];
+  }
+
+  const order: bigint[] = [stops[n - 1]];
+  let subset = all;
+  while (last !== -1) {
+    order.unshift(stops[toStop(last)]);
+    const prevLast = prev[subset][last];
+    subset &= ~(1 << last);
+    last = prevLast;
+  }
+  order.unshift(stops[0]);
+  return order;
+}
+
 function reconstructPath(
   cameFrom: Map<Neighbor, Neighbor>,
   current: Neighbor,
-): { route: Neighbor[]; distance: number } {
+): { route: Neighbor[]; distance: number; duration: number } {
   let distance = 0;
+  let duration = 0;
   const path: Neighbor[] = [current];
   while (cameFrom.has(current)) {
+    // a neighbor's distance and duration are those of the edge leading to it.
+    distance += current.distance;
+    duration += getDuration(current);
     current = cameFrom.get(current)!;
     path.unshift(current);
-    distance += current.distance;
   }
   if (path.length === 1) {
     path.push(path[0]);
   }
 
-  return { route: path, distance };
+  return { route: path, distance, duration };
+}
+
+/**
+ * Returns the expected time, in seconds, it takes to travel to `neighbor`'s
+ * node, falling back to an estimate based on distance.
+ */
+export function getDuration(neighbor: Neighbor): number {
+  return neighbor.duration ?? neighbor.distance / defaultSpeed;
+}
+
+function isAvoided(neighbor: Neighbor, avoid: AvoidanceOptions): boolean {
+  if (neighbor.isTrain) {
+    return avoid.trains === true;
+  }
+  return (
+    (neighbor.isFerry === true && avoid.ferries === true) ||
+    (neighbor.isToll === true && avoid.tolls === true) ||
+    (neighbor.crossesBorder === true && avoid.borders === true)
+  );
 }
 
 /** PriorityQueue, but with a `.has(value)` method. */
@@ -0,0 +1,96 @@
+import { assertExists } from '@truckermudgeon/base/assert';
+import { distance } from '@truckermudgeon/base/geom';
+import { Preconditions } from '@truckermudgeon/base/precon';
+import type {
+  Context,
+  Direction,
+  Mode,
+  MultiStopRoute,
+  Route,
+} from './routing';
+import { findRoute } from './routing';
+import type { SpecialTransportRoute } from './types';
+
+type SuccessfulRoute = Extract<Route, { success: true }>;
+
+/**
+ * Finds a route from `startNodeUid` to `endNodeUid` for a special transport
+ * (oversize) job. The route travels freely to the corridor node closest to the
+ * start node, stays within `route`'s corridor until the corridor node closest
+ * to the end node, and then travels freely to the end node.
+ *
+ * The returned route's stops are the start node, the corridor's entry and exit
+ * nodes, and the end node (minus any duplicates).
+ */
+export function findSpecialTransportRoute(
+  startNodeUid: bigint,
+  endNodeUid: bigint,
+  direction: Direction,
+  mode: Mode,
+  route: Pick<SpecialTransportRoute, 'nodeUids'>,
+  context: Context,
+): MultiStopRoute {
+  Preconditions.checkArgument(
+    startNodeUid !== endNodeUid,
+    'start and end nodes must differ',
+  );
+  const corridor = new Set(
+    route.nodeUids.filter(nodeUid => context.nodeLUT.has(nodeUid)),
+  );
+  Preconditions.checkArgument(corridor.size > 0, 'empty corridor');
+
+  const entryNodeUid = findClosestNode(startNodeUid, corridor, context);
+  const exitNodeUid = findClosestNode(endNodeUid, corridor, context);
+  const legEnds = (
+    [
+      [startNodeUid, entryNodeUid, undefined],
+      [entryNodeUid, exitNodeUid, corridor],
+      [exitNodeUid, endNodeUid, undefined],
+    ] as const
+  ).filter(([from, to]) => from !== to);
+  const stops = [legEnds[0][0], ...legEnds.map(([, to]) => to)];
+
+  const legs: SuccessfulRoute[] = [];
+  let legDirection = direction;
+  for (let i = 0; i < legEnds.length; i++) {
+    const [from, to, legCorridor] = legEnds[i];
+    const leg = findRoute(from, to, legDirection, mode, {
+      ...context,
+      corridor: legCorridor,
+    });
+    if (!leg.success) {
+      return { success: false, stops, failedLeg: i };
+    }
+    legs.push(leg);
+    legDirection = leg.route[leg.route.length - 1].direction;
+  }
+
+  return {
+    success: true,
+    legs,
+    stops,
+    distance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+    duration: legs.reduce((sum, leg) => sum + leg.duration, 0),
+  };
+}
+
+function findClosestNode(
+  nodeUid: bigint,
+  candidates: ReadonlySet<bigint>,
+  context: Pick<Context, 'nodeLUT'>,
+): bigint {
+  const node = Preconditions.checkExists(
+    context.nodeLUT.get(nodeUid),
+    `unknown node: ${nodeUid.toString(16)}`,
+  );
+  let closest: bigint | undefined;
+  let closestDistance = Infinity;
+  for (const candidate of candidates) {
+    const d = distance(node, assertExists(context.nodeLUT.get(candidate)));
+    if (d < closestDistance) {
+      closest = candidate;
+      closestDistance = d;
+    }
+  }
+  return Preconditions.checkExists(closest);
+}
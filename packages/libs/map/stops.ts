@@ -0,0 +1,405 @@
+import { putIfAbsent } from '@truckermudgeon/base/map';
+import PriorityQueue from 'priorityqueue';
+import type { Context, Direction, Mode, Route } from './routing';
+import { findRoute, getDuration } from './routing';
+import type { Neighbor, Neighbors, Poi, Prefab } from './types';
+
+export type StopType = 'fuel' | 'rest';
+
+/** A graph node where a truck can refuel and/or rest. */
+export interface StopCandidate {
+  nodeUid: bigint;
+  types: readonly StopType[];
+}
+
+export interface StopPlanOptions {
+  mode: Mode;
+  /** Distance, in meters, the truck can travel before it must refuel. */
+  fuelRange: number;
+  /** Distance, in meters, the truck can travel on a full tank. */
+  fullTankRange: number;
+  /** Driving time, in seconds, before the truck must rest. */
+  timeUntilBreak: number;
+  /** Driving time, in seconds, between rests. */
+  breakInterval: number;
+  /** Max distance, in meters, to leave the route to reach a stop. */
+  maxDetour?: number;
+}
+
+export interface PlannedStop {
+  nodeUid: bigint;
+  /** What the truck should do at the stop. */
+  types: StopType[];
+}
+
+type SuccessfulRoute = Extract<Route, { success: true }>;
+
+export type PlannedRoute =
+  | {
+      success: true;
+      /** The route's legs. There is one more leg than there are stops. */
+      legs: SuccessfulRoute[];
+      stops: PlannedStop[];
+      distance: number;
+      duration: number;
+    }
+  | {
+      success: false;
+      reason: 'noRoute' | 'noReachableStops';
+    };
+
+/** A stop candidate near a route. */
+interface NearbyStop {
+  candidate: StopCandidate | undefined;
+  /** The index of the closest route node, by distance along the graph. */
+  routeIndex: number;
+  /** Distance from the route to the stop. */
+  offset: number;
+  /** Expected travel time from the route to the stop. */
+  offsetDuration: number;
+}
+
+/** A non-dominated way of reaching a nearby stop, for the stop-picking DP. */
+interface Label {
+  remainingRange: number;
+  remainingTime: number;
+  detour: number;
+  numStops: number;
+  prev: { stopIndex: number; label: Label } | undefined;
+}
+
+const defaultMaxDetour = 5_000;
+
+/**
+ * Returns fuel and rest stop candidates for `pois`: gas stations become fuel
+ * stops, and parking areas become rest stops. Facilities that don't have a node
+ * in `graph` are ignored.
+ */
+export function toStopCandidates(
+  pois: readonly Poi[],
+  prefabs: ReadonlyMap<bigint, Prefab>,
+  graph: ReadonlyMap<bigint, Neighbors>,
+): StopCandidate[] {
+  const typesByNodeUid = new Map<bigint, Set<StopType>>();
+  for (const poi of pois) {
+    if (poi.type !== 'facility') {
+      continue;
+    }
+    let nodeUids: readonly bigint[];
+    let type: StopType;
+    if (poi.icon === 'gas_ico') {
+      nodeUids = prefabs.get(poi.prefabUid)?.nodeUids ?? [];
+      type = 'fuel';
+    } else if (poi.icon === 'parking_ico') {
+      nodeUids = poi.itemNodeUids;
+      type = 'rest';
+    } else {
+      continue;
+    }
+    const nodeUid = nodeUids.find(uid => graph.has(uid));
+    if (nodeUid != null) {
+      putIfAbsent(nodeUid, new Set(), typesByNodeUid).add(type);
+    }
+  }
+  return [...typesByNodeUid].map(([nodeUid, types]) => ({
+    nodeUid,
+    types: [...types],
+  }));
+}
+
+/**
+ * Finds a route from `startNodeUid` to `endNodeUid` that stops at fuel and
+ * rest stops often enough for the truck to never run out of fuel or driving
+ * time, picking the stops that minimize the total detour distance.
+ */
+export function planRoute(
+  startNodeUid: bigint,
+  endNodeUid: bigint,
+  direction: Direction,
+  candidates: readonly StopCandidate[],
+  options: StopPlanOptions,
+  context: Context,
+): PlannedRoute {
+  const { mode } = options;
+  const baseRoute = findRoute(
+    startNodeUid,
+    endNodeUid,
+    direction,
+    mode,
+    context,
+  );
+  if (!baseRoute.success) {
+    return { success: false, reason: 'noRoute' };
+  }
+
+  // cumulative distances and durations along the route.
+  const distances = [0];
+  const durations = [0];
+  for (let i = 1; i < baseRoute.route.length; i++) {
+    const neighbor = baseRoute.route[i];
+    distances.push(distances[i - 1] + neighbor.distance);
+    durations.push(durations[i - 1] + getDuration(neighbor));
+  }
+
+  const lastIndex = baseRoute.route.length - 1;
+  const toOnRoute = (routeIndex: number): NearbyStop => ({
+    candidate: undefined,
+    routeIndex,
+    offset: 0,
+    offsetDuration: 0,
+  });
+  const stops: NearbyStop[] = [
+    toOnRoute(0),
+    ...findNearbyStops(
+      baseRoute.route,
+      candidates,
+      options.maxDetour ?? defaultMaxDetour,
+      context,
+    ),
+    toOnRoute(lastIndex),
+  ];
+
+  // Find the cheapest sequence of stops with a DP over stops sorted by their
+  // position along the route, keeping all non-dominated labels per stop.
+  const labels: Label[][] = stops.map(() => []);
+  labels[0].push({
+    remainingRange: options.fuelRange,
+    remainingTime: options.timeUntilBreak,
+    detour: 0,
+    numStops: 0,
+    prev: undefined,
+  });
+  for (let i = 0; i < stops.length - 1; i++) {
+    const from = stops[i];
+    for (const label of labels[i]) {
+      for (let j = i + 1; j < stops.length; j++) {
+        const to = stops[j];
+        const alongRoute =
+          distances[to.routeIndex] - distances[from.routeIndex];
+        if (
+          alongRoute > label.remainingRange ||
+          durations[to.routeIndex] - durations[from.routeIndex] >
+            label.remainingTime
+        ) {
+          // stops are sorted by route index, so no other stops are reachable.
+          break;
+        }
+        const distance = alongRoute + from.offset + to.offset;
+        const duration =
+          durations[to.routeIndex] -
+          durations[from.routeIndex] +
+          from.offsetDuration +
+          to.offsetDuration;
+        if (distance > label.remainingRange || duration > label.remainingTime) {
+          continue;
+        }
+
+        const types = to.candidate?.types ?? [];
+        addLabel(labels[j], {
+          remainingRange: types.includes('fuel')
+            ? options.fullTankRange
+            : label.remainingRange - distance,
+          remainingTime: types.includes('rest')
+            ? options.breakInterval
+            : label.remainingTime - duration,
+          detour: label.detour + 2 * to.offset,
+          numStops: label.numStops + (to.candidate ? 1 : 0),
+          prev: { stopIndex: i, label },
+        });
+      }
+    }
+  }
+
+  const best = labels[stops.length - 1].reduce<Label | undefined>(
+    (best, label) =>
+      !best ||
+      label.detour < best.detour ||
+      (label.detour === best.detour && label.numStops < best.numStops)
+        ? label
+        : best,
+    undefined,
+  );
+  if (!best) {
+    return { success: false, reason: 'noReachableStops' };
+  }
+
+  const plannedStops: PlannedStop[] = [];
+  for (let label = best.prev; label; label = label.label.prev) {
+    const { candidate } = stops[label.stopIndex];
+    if (candidate) {
+      plannedStops.unshift({
+        nodeUid: candidate.nodeUid,
+        types: [...candidate.types],
+      });
+    }
+  }
+  if (plannedStops.length === 0) {
+    return {
+      success: true,
+      legs: [baseRoute],
+      stops: [],
+      distance: baseRoute.distance,
+      duration: baseRoute.duration,
+    };
+  }
+
+  const legs: SuccessfulRoute[] = [];
+  const waypoints = [...plannedStops.map(s => s.nodeUid), endNodeUid];
+  let legStart = startNodeUid;
+  let legDirections: Direction[] = [direction];
+  for (const waypoint of waypoints) {
+    const leg = findBestRoute(legStart, waypoint, legDirections, mode, context);
+    if (!leg) {
+      return { success: false, reason: 'noRoute' };
+    }
+    legs.push(leg);
+    legStart = waypoint;
+    // trucks may need to turn around after stopping.
+    legDirections = ['forward', 'backward'];
+  }
+
+  return {
+    success: true,
+    legs,
+    stops: plannedStops,
+    distance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+    duration: legs.reduce((sum, leg) => sum + leg.duration, 0),
+  };
+}
+
+/**
+ * Joins the legs of a planned (or multi-stop) route into a single route,
+ * returning it along with the indices of the stops within the joined route.
+ */
+export function joinLegs(
+  plan: Pick<
+    Extract<PlannedRoute, { success: true }>,
+    'legs' | 'distance' | 'duration'
+  >,
+): {
+  route: SuccessfulRoute;
+  stopIndices: number[];
+} {
+  const [first, ...rest] = plan.legs;
+  const route = [...first.route];
+  const stopIndices: number[] = [];
+  for (const leg of rest) {
+    stopIndices.push(route.length - 1);
+    // the first neighbor of a leg is the last neighbor of the previous leg.
+    route.push(...leg.route.slice(1));
+  }
+  return {
+    route: {
+      ...first,
+      route,
+      distance: plan.distance,
+      duration: plan.duration,
+    },
+    stopIndices,
+  };
+}
+
+/**
+ * Returns the candidates within `maxDetour` of `route`, sorted by the index of
+ * the route node they're closest to.
+ */
+function findNearbyStops(
+  route: readonly Neighbor[],
+  candidates: readonly StopCandidate[],
+  maxDetour: number,
+  context: Context,
+): NearbyStop[] {
+  const candidatesByNodeUid = new Map(candidates.map(c => [c.nodeUid, c]));
+
+  // multi-source Dijkstra, starting at every route node.
+  interface Entry {
+    nodeUid: bigint;
+    direction: Direction;
+    distance: number;
+    duration: number;
+    routeIndex: number;
+  }
+  const queue = new PriorityQueue<Entry>({
+    // sort smallest distances first
+    comparator: (a, b) => b.distance - a.distance,
+  });
+  route.forEach(({ nodeUid, direction }, routeIndex) =>
+    queue.push({ nodeUid, direction, distance: 0, duration: 0, routeIndex }),
+  );
+
+  const visited = new Set<string>();
+  const nearby = new Map<bigint, NearbyStop>();
+  while (!queue.isEmpty()) {
+    const entry = queue.pop();
+    const key = `${entry.nodeUid}-${entry.direction}`;
+    if (visited.has(key)) {
+      continue;
+    }
+    visited.add(key);
+
+    const candidate = candidatesByNodeUid.get(entry.nodeUid);
+    if (candidate && !nearby.has(entry.nodeUid)) {
+      nearby.set(entry.nodeUid, {
+        candidate,
+        routeIndex: entry.routeIndex,
+        offset: entry.distance,
+        offsetDuration: entry.duration,
+      });
+    }
+
+    const neighbors = context.graph.get(entry.nodeUid)?.[entry.direction];
+    for (const neighbor of neighbors ?? []) {
+      const distance = entry.distance + neighbor.distance;
+      if (
+        distance <= maxDetour &&
+        context.enabledDlcGuards.has(neighbor.dlcGuard)
+      ) {
+        queue.push({
+          nodeUid: neighbor.nodeUid,
+          direction: neighbor.direction,
+          distance,
+          duration: entry.duration + getDuration(neighbor),
+          routeIndex: entry.routeIndex,
+        });
+      }
+    }
+  }
+
+  return [...nearby.values()].sort((a, b) => a.routeIndex - b.routeIndex);
+}
+
+function addLabel(labels: Label[], label: Label) {
+  const dominates = (a: Label, b: Label) =>
+    a.remainingRange >= b.remainingRange &&
+    a.remainingTime >= b.remainingTime &&
+    a.detour <= b.detour &&
+    a.numStops <= b.numStops;
+  if (labels.some(l => dominates(l, label))) {
+    return;
+  }
+  for (let i = labels.length - 1; i >= 0; i--) {
+    if (dominates(label, labels[i])) {
+      labels.splice(i, 1);
+    }
+  }
+  labels.push(label);
+}
+
+function findBestRoute(
+  startNodeUid: bigint,
+  endNodeUid: bigint,
+  directions: Direction[],
+  mode: Mode,
+  context: Context,
+): SuccessfulRoute | undefined {
+  let best: SuccessfulRoute | undefined;
+  for (const direction of directions) {
+    const route = findRoute(startNodeUid, endNodeUid, direction, mode, context);
+    const cost = (r: SuccessfulRoute) =>
+      mode === 'fastest' ? r.duration : r.distance;
+    if (route.success && (!best || cost(route) < cost(best))) {
+      best = route;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,120 @@
+import { readGraph, writeGraph } from '../binary-graph';
+import type { Neighbors } from '../types';
+
+describe('binary graph', () => {
+  const graph = new Map<bigint, Neighbors>([
+    [
+      0x1234_5678_9abc_def0n,
+      {
+        forward: [
+          {
+            nodeUid: 2n,
+            distance: 100,
+            duration: 4,
+            isOneLaneRoad: true,
+            isToll: true,
+            isHighway: true,
+            direction: 'forward',
+            dlcGuard: 0,
+            lanes: [0, 2],
+            navCurves: [3, 0, 12],
+          },
+          {
+            nodeUid: 3n,
+            distance: 5000,
+            duration: 600,
+            isFerry: true,
+            isTrain: true,
+            crossesBorder: true,
+            direction: 'backward',
+            dlcGuard: -1,
+          },
+        ],
+        backward: [],
+      },
+    ],
+    [
+      2n,
+      {
+        forward: [],
+        backward: [
+          {
+            nodeUid: 0x1234_5678_9abc_def0n,
+            distance: 100,
+            direction: 'backward',
+            dlcGuard: 0,
+          },
+        ],
+      },
+    ],
+  ]);
+  const nodeLUT = new Map([
+    [0x1234_5678_9abc_def0n, { x: -1000.5, y: 250 }],
+    [2n, { x: -900.5, y: 250 }],
+    [3n, { x: 4000, y: -2000 }],
+    // not part of the graph.
+    [4n, { x: 0, y: 0 }],
+  ]);
+
+  it('round-trips graphs', () => {
+    const bytes = writeGraph(graph, nodeLUT);
+    const { graph: readBack, nodeLUT: readNodeLUT } = readGraph(bytes);
+
+    expect(readBack).toEqual(graph);
+    expect([...readBack.keys()]).toEqual([...graph.keys()]);
+    nodeLUT.delete(4n);
+    expect(readNodeLUT).toEqual(nodeLUT);
+  });
+
+  it('reads graphs from views into larger buffers', () => {
+    const bytes = writeGraph(graph, nodeLUT);
+    const padded = new Uint8Array(bytes.length + 1);
+    padded.set(bytes, 1);
+    expect(readGraph(padded.subarray(1)).graph).toEqual(graph);
+  });
+
+  it('rejects unsupported files', () => {
+    const bytes = writeGraph(graph, nodeLUT);
+    expect(() => readGraph(new TextEncoder().encode('[]'))).toThrow(
+      'not a binary graph file',
+    );
+
+    const newerVersion = bytes.slice();
+    new DataView(newerVersion.buffer).setUint32(4, 4, true);
+    expect(() => readGraph(newerVersion)).toThrow(
+      'unsupported binary graph version: 4',
+    );
+
+    expect(() => readGraph(bytes.subarray(0, bytes.length - 1))).toThrow(
+      'unexpected binary graph file size',
+    );
+  });
+
+  it('only supports lane indices that fit in a lane mask', () => {
+    const tooManyLanes = new Map<bigint, Neighbors>([
+      [
+        2n,
+        {
+          forward: [
+            {
+              nodeUid: 3n,
+              distance: 1,
+              direction: 'forward',
+              dlcGuard: 0,
+              lanes: [16],
+              navCurves: [0],
+            },
+          ],
+          backward: [],
+        },
+      ],
+    ]);
+    expect(() => writeGraph(tooManyLanes, nodeLUT)).toThrow(
+      'lane index out of range',
+    );
+  });
+
+  it('requires positions for all nodes', () => {
+    expect(() => writeGraph(graph, new Map())).toThrow('missing node');
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  computeLandmarks,
+  hashGraph,
+  readLandmarks,
+  writeLandmarks,
+} from '../landmarks';
+import type { Context, Mode } from '../routing';
+import { findRoute } from '../routing';
+import type { Neighbor } from '../types';
+
+describe('landmarks', () => {
+  // Creates a `size` x `size` grid of nodes 100 units apart, connected by
+  // edges with pseudo-random lengths and speeds. Some edges are one-way, and
+  // some are guarded by DLC guard 1.
+  function createContext(size: number): Omit<Context, 'enabledDlcGuards'> {
+    let seed = 1;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+
+    const nodeLUT = new Map<bigint, { x: number; y: number }>();
+    const graph = new Map<
+      bigint,
+      { forward: Neighbor[]; backward: Neighbor[] }
+    >();
+    const uid = (x: number, y: number) => BigInt(y * size + x);
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        nodeLUT.set(uid(x, y), { x: x * 100, y: y * 100 });
+        graph.set(uid(x, y), { forward: [], backward: [] });
+      }
+    }
+    const connect = (a: bigint, b: bigint) => {
+      const distance = 100 * (1 + random());
+      const duration = distance / (10 + random() * 20);
+      const dlcGuard = random() < 0.2 ? 1 : 0;
+      const edge = (nodeUid: bigint, direction: Neighbor['direction']) => ({
+        nodeUid,
+        distance,
+        duration,
+        direction,
+        dlcGuard,
+      });
+      graph.get(a)!.forward.push(edge(b, 'forward'));
+      graph.get(b)!.backward.push(edge(a, 'backward'));
+      if (random() < 0.8) {
+        graph.get(b)!.forward.push(edge(a, 'forward'));
+        graph.get(a)!.backward.push(edge(b, 'backward'));
+      }
+    };
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (x + 1 < size) {
+          connect(uid(x, y), uid(x + 1, y));
+        }
+        if (y + 1 < size) {
+          connect(uid(x, y), uid(x, y + 1));
+        }
+      }
+    }
+    return { nodeLUT, graph };
+  }
+
+  const context = createContext(12);
+  const landmarks = computeLandmarks(context.graph, context.nodeLUT, 4);
+
+  it('gives the same results as plain A*', () => {
+    const modes: Mode[] = ['shortest', 'smallRoads', 'fastest'];
+    for (const enabledDlcGuards of [new Set([0, 1]), new Set([0])]) {
+      for (let start = 0n; start < 144n; start += 7n) {
+        for (let end = 143n; end >= 0n; end -= 11n) {
+          for (const mode of modes) {
+            const expected = findRoute(start, end, 'forward', mode, {
+              ...context,
+              enabledDlcGuards,
+            });
+            const actual = findRoute(start, end, 'forward', mode, {
+              ...context,
+              enabledDlcGuards,
+              landmarks,
+            });
+
+            expect(actual.success).toBe(expected.success);
+            if (actual.success && expected.success) {
+              expect(actual.distance).toBeCloseTo(expected.distance, 6);
+              expect(actual.duration).toBeCloseTo(expected.duration, 6);
+            }
+          }
+        }
+      }
+    }
+  });
+
+  it('picks landmarks around the edges of the graph', () => {
+    expect(landmarks.nodeUids).toHaveLength(4);
+    for (const nodeUid of landmarks.nodeUids) {
+      const { x, y } = context.nodeLUT.get(nodeUid)!;
+      expect([x, y].some(v => v === 0 || v === 1100)).toBe(true);
+    }
+  });
+
+  it('is tied to the graph it was computed from', () => {
+    expect(landmarks.graphHash).toBe(hashGraph(context.graph));
+    expect(hashGraph(createContext(12).graph)).toBe(landmarks.graphHash);
+
+    const changed = createContext(12);
+    const { forward, backward } = changed.graph.get(0n)!;
+    changed.graph.set(0n, {
+      forward: [
+        { ...forward[0], distance: forward[0].distance + 1 },
+        ...forward.slice(1),
+      ],
+      backward,
+    });
+    expect(hashGraph(changed.graph)).not.toBe(landmarks.graphHash);
+    expect(hashGraph(createContext(11).graph)).not.toBe(landmarks.graphHash);
+  });
+
+  it('round-trips through the binary format', () => {
+    const bytes = writeLandmarks(landmarks);
+    expect(readLandmarks(bytes)).toEqual(landmarks);
+    // reading from a view into a larger buffer.
+    const padded = new Uint8Array(bytes.length + 3);
+    padded.set(bytes, 3);
+    expect(readLandmarks(padded.subarray(3))).toEqual(landmarks);
+  });
+});
@@ -0,0 +1,335 @@
+import { ItemType } from '../constants';
+import type { ManeuverContext } from '../maneuvers';
+import { createRoadLabeler, toManeuvers } from '../maneuvers';
+import type { Route } from '../routing';
+import type {
+  Ferry,
+  Neighbor,
+  Node,
+  Prefab,
+  PrefabDescription,
+} from '../types';
+import { prefab_2k031, prefab_2o0ds } from './fixtures';
+
+describe('toManeuvers', () => {
+  // Places `desc` at the origin, without rotation, with road nodes 100 units
+  // away from each of the prefab's nodes.
+  function createContext(desc: PrefabDescription): ManeuverContext {
+    const prefab: Prefab = {
+      uid: 1n,
+      type: ItemType.Prefab,
+      dlcGuard: 0,
+      token: 'prefab',
+      nodeUids: desc.nodes.map((_, i) => BigInt(100 + i)),
+      originNodeIndex: 0,
+      x: 0,
+      y: 0,
+      sectorX: 0,
+      sectorY: 0,
+    };
+    const nodes = desc.nodes.flatMap((n, i): Node[] => {
+      const [dx, dy] = [Math.cos(n.rotation), Math.sin(n.rotation)];
+      return [
+        // prefab nodes point into the prefab.
+        aNode(100 + i, n.x, n.y, n.rotation, 1n, BigInt(10 + i)),
+        // road nodes (and roads) lead into the prefab nodes.
+        aNode(
+          200 + i,
+          n.x - dx * 100,
+          n.y - dy * 100,
+          n.rotation,
+          BigInt(10 + i),
+          0n,
+        ),
+      ];
+    });
+    return {
+      nodes: new Map(nodes.map(n => [n.uid, n])),
+      prefabs: new Map([[prefab.uid, prefab]]),
+      prefabDescriptions: new Map([['prefab', desc]]),
+    };
+  }
+
+  // Creates a route from the road leading into prefab node `entry` to the
+  // road leading out of prefab node `exit`.
+  function aRoute(
+    entry: number,
+    exit: number,
+  ): Extract<Route, { success: true }> {
+    const route: Neighbor[] = [
+      aNeighbor(200 + entry, 'forward', 0),
+      aNeighbor(100 + entry, 'forward', 100),
+      aNeighbor(100 + exit, 'backward', 50),
+      aNeighbor(200 + exit, 'backward', 100),
+    ];
+    return {
+      key: 'key',
+      mode: 'shortest',
+      success: true,
+      route,
+      distance: 250,
+      duration: 0,
+    };
+  }
+
+  it('generates turns at intersections', () => {
+    const context = createContext(prefab_2o0ds);
+
+    expect(toManeuvers(aRoute(0, 2), context)).toEqual([
+      expect.objectContaining({ type: 'depart', nodeUid: 200n, distance: 0 }),
+      expect.objectContaining({
+        type: 'turn',
+        side: 'right',
+        nodeUid: 100n,
+        distance: 100,
+      }),
+      expect.objectContaining({ type: 'arrive', nodeUid: 202n, distance: 150 }),
+    ]);
+    expect(toManeuvers(aRoute(0, 1), context)).toEqual([
+      expect.objectContaining({ type: 'depart' }),
+      expect.objectContaining({ type: 'turn', side: 'left' }),
+      expect.objectContaining({ type: 'arrive' }),
+    ]);
+  });
+
+  it('generates roundabout exits', () => {
+    const context = createContext(prefab_2k031);
+
+    // traffic flows counter-clockwise, from the southern node (0), to the
+    // eastern node (2), to the western node (1).
+    expect(toManeuvers(aRoute(0, 2), context)[1]).toMatchObject({
+      type: 'roundabout',
+      exit: 1,
+    });
+    expect(toManeuvers(aRoute(0, 1), context)[1]).toMatchObject({
+      type: 'roundabout',
+      exit: 2,
+    });
+    expect(toManeuvers(aRoute(0, 0), context)[1]).toMatchObject({
+      type: 'roundabout',
+      exit: 3,
+    });
+  });
+
+  it("doesn't treat intersections that allow U-turns as roundabouts", () => {
+    // a T intersection, entered from the west, with exits to the north and
+    // south, and a U-turn back to the west.
+    const context = createContext(
+      aPrefabDescription(
+        [
+          { x: 0, y: 0, rotation: 0 },
+          { x: 50, y: -50, rotation: Math.PI / 2 },
+          { x: 50, y: 50, rotation: -Math.PI / 2 },
+        ],
+        [
+          [0, 0],
+          [0, 1],
+          [0, 2],
+        ],
+      ),
+    );
+
+    expect(toManeuvers(aRoute(0, 0), context)[1]).toMatchObject({
+      type: 'uTurn',
+      nodeUid: 100n,
+    });
+    expect(toManeuvers(aRoute(0, 1), context)[1]).toMatchObject({
+      type: 'turn',
+    });
+  });
+
+  it('generates keep maneuvers at forks', () => {
+    // entered from the west, forking slightly to the north and to the south.
+    const context = createContext(
+      aPrefabDescription(
+        [
+          { x: 0, y: 0, rotation: 0 },
+          { x: 100, y: -20, rotation: Math.PI - 0.2 },
+          { x: 100, y: 20, rotation: Math.PI + 0.2 },
+        ],
+        [
+          [0, 1],
+          [0, 2],
+        ],
+      ),
+    );
+
+    expect(toManeuvers(aRoute(0, 1), context)[1]).toMatchObject({
+      type: 'keep',
+      side: 'left',
+    });
+    expect(toManeuvers(aRoute(0, 2), context)[1]).toMatchObject({
+      type: 'keep',
+      side: 'right',
+    });
+  });
+
+  it('generates merges from one-lane roads', () => {
+    // an on-ramp (node 0) merging with a road (node 1), both entered from the
+    // west, and exiting to the east.
+    const context = createContext(
+      aPrefabDescription(
+        [
+          { x: 0, y: 20, rotation: 0 },
+          { x: 0, y: 0, rotation: 0 },
+          { x: 100, y: 0, rotation: Math.PI },
+        ],
+        [
+          [0, 2],
+          [1, 2],
+        ],
+      ),
+    );
+    const route = aRoute(0, 2);
+
+    expect(toManeuvers(route, context).map(m => m.type)).toEqual([
+      'depart',
+      'arrive',
+    ]);
+    route.route[1] = { ...route.route[1], isOneLaneRoad: true };
+    expect(toManeuvers(route, context).map(m => m.type)).toEqual([
+      'depart',
+      'merge',
+      'arrive',
+    ]);
+  });
+
+  it('generates ferry maneuvers', () => {
+    const context: ManeuverContext = {
+      nodes: new Map([
+        [1n, aNode(1, 0, 0, 0, 0n, 0n)],
+        [2n, aNode(2, 1000, 0, 0, 0n, 0n)],
+      ]),
+      prefabs: new Map(),
+      prefabDescriptions: new Map(),
+      ferries: new Map([
+        [
+          'port_a',
+          {
+            token: 'port_a',
+            nodeUid: 1n,
+            connections: [{ token: 'port_b', name: 'Port B', nodeUid: 2n }],
+          } as unknown as Ferry,
+        ],
+      ]),
+    };
+    const route: Extract<Route, { success: true }> = {
+      key: 'key',
+      mode: 'shortest',
+      success: true,
+      route: [
+        aNeighbor(1, 'forward', 0),
+        { ...aNeighbor(2, 'forward', 1000), isFerry: true },
+      ],
+      distance: 1000,
+      duration: 0,
+    };
+
+    expect(toManeuvers(route, context)).toEqual([
+      expect.objectContaining({ type: 'depart', nodeUid: 1n }),
+      expect.objectContaining({
+        type: 'ferry',
+        nodeUid: 1n,
+        label: 'Port B',
+      }),
+      expect.objectContaining({ type: 'arrive', nodeUid: 2n, distance: 1000 }),
+    ]);
+  });
+
+  it('labels maneuvers', () => {
+    const context = createContext(prefab_2o0ds);
+    const exitRoadNode = context.nodes.get(202n)!;
+    context.getRoadLabel = createRoadLabeler([
+      {
+        type: 'road',
+        icon: 'us_i35',
+        dlcGuard: 0,
+        nodeUid: 0n,
+        x: exitRoadNode.x + 10,
+        y: exitRoadNode.y,
+        sectorX: 0,
+        sectorY: 0,
+      },
+    ]);
+
+    const maneuvers = toManeuvers(aRoute(0, 2), context);
+    expect(maneuvers[0].label).toBeUndefined();
+    expect(maneuvers[1]).toMatchObject({ type: 'turn', label: 'us_i35' });
+  });
+});
+
+// Creates a prefab description with `nodes`, where each `[from, to]` pair in
+// `connections` is a nav curve from node `from` to node `to`.
+function aPrefabDescription(
+  nodes: { x: number; y: number; rotation: number }[],
+  connections: [number, number][],
+): PrefabDescription {
+  const toPoint = ({ x, y, rotation }: (typeof nodes)[number]) => ({
+    x,
+    y,
+    z: 0,
+    rotation,
+    rotationQuat: [0, 0, 0, 0] as [number, number, number, number],
+  });
+  return {
+    nodes: nodes.map((n, i) => ({
+      ...toPoint(n),
+      rotationDir: [0, 0, 0],
+      inputLanes: connections
+        .map(([from], curve) => (from === i ? curve : -1))
+        .filter(curve => curve !== -1),
+      outputLanes: connections
+        .map(([, to], curve) => (to === i ? curve : -1))
+        .filter(curve => curve !== -1),
+    })),
+    navCurves: connections.map(([from, to]) => ({
+      navNodeIndex: -1,
+      start: toPoint(nodes[from]),
+      end: toPoint(nodes[to]),
+      nextLines: [],
+      prevLines: [],
+    })),
+    mapPoints: [],
+    spawnPoints: [],
+    triggerPoints: [],
+    semaphores: [],
+    navNodes: [],
+  };
+}
+
+function aNode(
+  uid: number,
+  x: number,
+  y: number,
+  rotation: number,
+  forwardItemUid: bigint,
+  backwardItemUid: bigint,
+): Node {
+  return {
+    uid: BigInt(uid),
+    x,
+    y,
+    z: 0,
+    rotation,
+    rotationQuat: [0, 0, 0, 0],
+    forwardItemUid,
+    backwardItemUid,
+    sectorX: 0,
+    sectorY: 0,
+    forwardCountryId: 0,
+    backwardCountryId: 0,
+  };
+}
+
+function aNeighbor(
+  uid: number,
+  direction: 'forward' | 'backward',
+  distance: number,
+): Neighbor {
+  return {
+    nodeUid: BigInt(uid),
+    distance,
+    direction,
+    dlcGuard: 0,
+  };
+}
@@ -1,4 +1,9 @@
-import { calculateNodeConnections } from '../prefabs';
+import { distance } from '@truckermudgeon/base/geom';
+import {
+  calculateNodeConnectionPaths,
+  calculateNodeConnections,
+} from '../prefabs';
+import type { PrefabDescription } from '../types';
 import {
   prefab_2k031,
   prefab_2o09g,
@@ -44,3 +49,95 @@ describe('calculateNodeConnections', () => {
     );
   });
 });
+
+describe('calculateNodeConnectionPaths', () => {
+  const prefabs = [prefab_2k031, prefab_mt_2o004, prefab_2o0ds, prefab_2o09g];
+
+  it('has the same connections as calculateNodeConnections', () => {
+    for (const prefab of prefabs) {
+      const paths = calculateNodeConnectionPaths(prefab);
+      expect(
+        new Map(
+          [...paths].map(([start, connections]) => [
+            start,
+            connections.map(c => c.endNodeIndex),
+          ]),
+        ),
+      ).toEqual(calculateNodeConnections(prefab));
+    }
+  });
+
+  it('follows nav curves from input lanes to output lanes', () => {
+    for (const prefab of prefabs) {
+      for (const [start, connections] of calculateNodeConnectionPaths(prefab)) {
+        const startNode = prefab.nodes[start];
+        for (const { endNodeIndex, lanes, navCurves, length } of connections) {
+          const endNode = prefab.nodes[endNodeIndex];
+          expect(lanes.length).toBeGreaterThan(0);
+          expect(startNode.inputLanes).toContain(navCurves[0]);
+          expect(endNode.outputLanes).toContain(navCurves.at(-1));
+          for (let i = 1; i < navCurves.length; i++) {
+            expect(prefab.navCurves[navCurves[i - 1]].nextLines).toContain(
+              navCurves[i],
+            );
+          }
+          if (endNodeIndex !== start) {
+            expect(length).toBeGreaterThan(
+              distance([startNode.x, startNode.y], [endNode.x, endNode.y]) -
+                // lanes are offset from node centers
+                10,
+            );
+          }
+        }
+      }
+    }
+  });
+
+  it('finds the shortest path of nav curves', () => {
+    // curve 0 forks into a long curve (1) and a short one (2), which both lead
+    // to curve 3.
+    const curve = (
+      x0: number,
+      x1: number,
+      nextLines: number[],
+    ): PrefabDescription['navCurves'][number] => ({
+      navNodeIndex: -1,
+      start: { x: x0, y: 0, z: 0, rotation: 0, rotationQuat: [0, 0, 0, 0] },
+      end: { x: x1, y: 0, z: 0, rotation: 0, rotationQuat: [0, 0, 0, 0] },
+      nextLines,
+      prevLines: [],
+    });
+    const node = (
+      x: number,
+      inputLanes: number[],
+      outputLanes: number[],
+    ): PrefabDescription['nodes'][number] => ({
+      x,
+      y: 0,
+      z: 0,
+      rotation: 0,
+      rotationDir: [0, 0, 0],
+      inputLanes,
+      outputLanes,
+    });
+    const prefab: PrefabDescription = {
+      nodes: [node(0, [0], []), node(30, [], [3])],
+      navCurves: [
+        curve(0, 10, [1, 2]),
+        curve(10, 110, [3]),
+        curve(10, 20, [3]),
+        curve(20, 30, []),
+      ],
+      mapPoints: [],
+      spawnPoints: [],
+      triggerPoints: [],
+      semaphores: [],
+      navNodes: [],
+    };
+
+    const [connection] = calculateNodeConnectionPaths(prefab).get(0)!;
+    expect(connection.endNodeIndex).toBe(1);
+    expect(connection.navCurves).toEqual([0, 2, 3]);
+    expect(connection.length).toBeCloseTo(30, 1);
+  });
+});
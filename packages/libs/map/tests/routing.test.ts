@@ -0,0 +1,304 @@
+import { Preconditions } from '@truckermudgeon/base/precon';
+import type { AvoidanceOptions, Context, Mode } from '../routing';
+import {
+  findMultiStopRoute,
+  findRoute,
+  reachable,
+  resolveStops,
+} from '../routing';
+import type { City, CompanyItem, Neighbor, Neighbors } from '../types';
+
+describe('findMultiStopRoute', () => {
+  // Creates a road of 11 nodes, 100 units apart, from node 0 to node 10. If
+  // `oneWay` is false, the road can be travelled (and turned around on) in
+  // both directions.
+  function createContext(oneWay: boolean): Context {
+    const nodeLUT = new Map<bigint, { x: number; y: number }>();
+    const graph = new Map<bigint, Neighbors>();
+    for (let i = 0; i <= 10; i++) {
+      nodeLUT.set(BigInt(i), { x: i * 100, y: 0 });
+      const neighbors = [
+        ...(i < 10 ? [aNeighbor(i + 1, 'forward')] : []),
+        ...(!oneWay && i > 0 ? [aNeighbor(i - 1, 'backward')] : []),
+      ];
+      graph.set(BigInt(i), {
+        forward: neighbors,
+        backward: oneWay ? [] : neighbors,
+      });
+    }
+    return { nodeLUT, graph, enabledDlcGuards: new Set([0]) };
+  }
+
+  it('stitches legs together', () => {
+    const context = createContext(false);
+    const route = findMultiStopRoute(
+      [0n, 5n, 2n],
+      'forward',
+      'shortest',
+      context,
+    );
+
+    Preconditions.checkState(route.success);
+    expect(route.stops).toEqual([0n, 5n, 2n]);
+    expect(route.legs).toHaveLength(2);
+    expect(route.duration).toBe(80);
+    expect(route.distance).toBe(
+      route.legs[0].distance + route.legs[1].distance,
+    );
+    const [first, second] = route.legs;
+    expect(second.route[0]).toMatchObject({
+      nodeUid: 5n,
+      direction: first.route.at(-1)!.direction,
+    });
+  });
+
+  it('respects the arrival direction at each stop', () => {
+    const context = createContext(true);
+    expect(
+      findMultiStopRoute([0n, 5n, 8n], 'forward', 'shortest', context),
+    ).toMatchObject({ success: true, duration: 80 });
+    expect(
+      findMultiStopRoute([0n, 5n, 2n, 8n], 'forward', 'shortest', context),
+    ).toEqual({ success: false, stops: [0n, 5n, 2n, 8n], failedLeg: 1 });
+  });
+
+  it('optimizes the order of intermediate stops', () => {
+    const context = createContext(false);
+    const route = findMultiStopRoute(
+      [0n, 8n, 3n, 9n, 5n, 10n],
+      'forward',
+      'shortest',
+      context,
+      { optimizeOrder: true },
+    );
+
+    expect(route).toMatchObject({
+      success: true,
+      stops: [0n, 3n, 5n, 8n, 9n, 10n],
+      duration: 100,
+    });
+  });
+
+  it('requires at least two stops', () => {
+    expect(() =>
+      findMultiStopRoute([0n], 'forward', 'shortest', createContext(false)),
+    ).toThrow('at least 2 stops required');
+  });
+});
+
+describe('findRoute', () => {
+  // Creates two routes from node 0 to node 3: a short one through node 1, and
+  // a longer one through node 2. Edges of each route have the properties of
+  // `shortcut` and `detour`, respectively.
+  function createContext(
+    shortcut: Partial<Neighbor>,
+    detour: Partial<Neighbor> = {},
+  ): Context {
+    const nodeLUT = new Map<bigint, { x: number; y: number }>([
+      [0n, { x: 0, y: 0 }],
+      [1n, { x: 100, y: 0 }],
+      [2n, { x: 100, y: 100 }],
+      [3n, { x: 200, y: 0 }],
+    ]);
+    const aDetourNeighbor = (uid: number): Neighbor => ({
+      ...aNeighbor(uid, 'forward'),
+      distance: 150,
+      duration: 15,
+      ...detour,
+    });
+    const graph = new Map<bigint, Neighbors>([
+      [
+        0n,
+        {
+          forward: [
+            { ...aNeighbor(1, 'forward'), ...shortcut },
+            aDetourNeighbor(2),
+          ],
+          backward: [],
+        },
+      ],
+      [
+        1n,
+        {
+          forward: [{ ...aNeighbor(3, 'forward'), ...shortcut }],
+          backward: [],
+        },
+      ],
+      [2n, { forward: [aDetourNeighbor(3)], backward: [] }],
+    ]);
+    return { nodeLUT, graph, enabledDlcGuards: new Set([0]) };
+  }
+  const viaNode = (context: Context, mode: Mode = 'shortest') => {
+    const route = findRoute(0n, 3n, 'forward', mode, context);
+    Preconditions.checkState(route.success);
+    return route.route[1].nodeUid;
+  };
+
+  it('sums distance and duration over the same edges', () => {
+    const context = createContext({ distance: 120, duration: 12 });
+    for (const mode of ['shortest', 'fastest'] as const) {
+      expect(findRoute(0n, 3n, 'forward', mode, context)).toMatchObject({
+        success: true,
+        distance: 240,
+        duration: 24,
+      });
+    }
+  });
+
+  it('penalizes avoided edges', () => {
+    const cases: [Partial<Neighbor>, AvoidanceOptions][] = [
+      [{ isFerry: true }, { ferries: true }],
+      [{ isFerry: true, isTrain: true }, { trains: true }],
+      [{ isToll: true }, { tolls: true }],
+      [{ crossesBorder: true }, { borders: true }],
+    ];
+    for (const [shortcut, avoid] of cases) {
+      const context = createContext(shortcut);
+      expect(viaNode(context)).toBe(1n);
+      expect(viaNode({ ...context, avoid })).toBe(2n);
+      expect(viaNode({ ...context, avoid }, 'fastest')).toBe(2n);
+    }
+    // avoiding ferries doesn't avoid trains.
+    const context = createContext({ isFerry: true, isTrain: true });
+    expect(viaNode({ ...context, avoid: { ferries: true } })).toBe(1n);
+  });
+
+  it('uses avoided edges when there is no alternative', () => {
+    const context = createContext({ isToll: true }, { isToll: true });
+    expect(
+      findRoute(0n, 3n, 'forward', 'fastest', {
+        ...context,
+        avoid: { tolls: true },
+      }),
+    ).toMatchObject({ success: true, duration: 20 });
+  });
+
+  it('prefers highways', () => {
+    const context = createContext({}, { isHighway: true });
+    expect(viaNode(context)).toBe(1n);
+    expect(viaNode({ ...context, avoid: { preferHighways: true } })).toBe(2n);
+  });
+});
+
+describe('reachable', () => {
+  // Creates a one-way road of 6 nodes, 100 units apart, from node 0 to node 5.
+  // The edge from node 2 to node 3 goes through a toll gate.
+  function createContext(): Context {
+    const nodeLUT = new Map<bigint, { x: number; y: number }>();
+    const graph = new Map<bigint, Neighbors>();
+    for (let i = 0; i <= 5; i++) {
+      nodeLUT.set(BigInt(i), { x: i * 100, y: 0 });
+      const neighbors =
+        i < 5
+          ? [
+              i === 2
+                ? { ...aNeighbor(i + 1, 'forward'), isToll: true as const }
+                : aNeighbor(i + 1, 'forward'),
+            ]
+          : [];
+      graph.set(BigInt(i), { forward: neighbors, backward: [] });
+    }
+    return { nodeLUT, graph, enabledDlcGuards: new Set([0]) };
+  }
+
+  it('returns nodes within a distance or duration', () => {
+    const context = createContext();
+    expect(reachable(0n, { distance: 250 }, context)).toEqual(
+      new Map([
+        [0n, 0],
+        [1n, 100],
+        [2n, 200],
+      ]),
+    );
+    expect([...reachable(1n, { duration: 30 }, context).keys()]).toEqual([
+      1n,
+      2n,
+      3n,
+      4n,
+    ]);
+  });
+
+  it('respects directions and avoidance options', () => {
+    const context = createContext();
+    expect(reachable(0n, { distance: 1000 }, context, 'backward')).toEqual(
+      new Map([[0n, 0]]),
+    );
+    expect(
+      reachable(0n, { distance: 1000 }, { ...context, avoid: { tolls: true } }),
+    ).toEqual(
+      new Map([
+        [0n, 0],
+        [1n, 100],
+        [2n, 200],
+      ]),
+    );
+  });
+});
+
+describe('resolveStops', () => {
+  const companies = new Map(
+    [
+      aCompany(1n, 'market', 'sacramento', 10, 0),
+      aCompany(2n, 'farm', 'sacramento', 100, 0),
+      aCompany(3n, 'market', 'reno', 1000, 0),
+    ].map(c => [c.uid, c]),
+  );
+  const cities = new Map([
+    ['sacramento', { token: 'sacramento', x: 90, y: 0 } as City],
+    ['reno', { token: 'reno', x: 1000, y: 0 } as City],
+    ['carson_city', { token: 'carson_city', x: 900, y: 0 } as City],
+  ]);
+
+  it('resolves node uids, companies, and cities', () => {
+    expect(
+      resolveStops(
+        [
+          42n,
+          { company: 'market', city: 'sacramento' },
+          { city: 'sacramento' },
+          { city: 'reno' },
+        ],
+        { companies, cities },
+      ),
+    ).toEqual([42n, 1001n, 1002n, 1003n]);
+  });
+
+  it('rejects unknown stops', () => {
+    expect(() =>
+      resolveStops([{ company: 'farm', city: 'reno' }], { companies, cities }),
+    ).toThrow('unknown company: farm.reno');
+    expect(() =>
+      resolveStops([{ city: 'elko' }], { companies, cities }),
+    ).toThrow('unknown city: elko');
+    expect(() =>
+      resolveStops([{ city: 'carson_city' }], { companies, cities }),
+    ).toThrow('city has no companies: carson_city');
+  });
+});
+
+function aNeighbor(uid: number, direction: Neighbor['direction']): Neighbor {
+  return {
+    nodeUid: BigInt(uid),
+    distance: 100,
+    duration: 10,
+    direction,
+    dlcGuard: 0,
+  };
+}
+
+function aCompany(
+  uid: bigint,
+  token: string,
+  cityToken: string,
+  x: number,
+  y: number,
+): CompanyItem {
+  return {
+    uid,
+    token,
+    cityToken,
+    nodeUid: 1000n + uid,
+    x,
+    y,
+  } as CompanyItem;
+}
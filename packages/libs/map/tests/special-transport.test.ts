@@ -0,0 +1,90 @@
+import { Preconditions } from '@truckermudgeon/base/precon';
+import type { Context } from '../routing';
+import { findSpecialTransportRoute } from '../special-transport';
+import type { Neighbors } from '../types';
+
+describe('findSpecialTransportRoute', () => {
+  // Creates a road from node 0 to node 3, with a detour through node 4 that
+  // bypasses node 5:
+  //
+  //         → 4 →
+  //       ↗       ↘
+  // 0 → 1 → → 5 → → 2 → 3
+  function createContext(): Context {
+    const nodeLUT = new Map<bigint, { x: number; y: number }>([
+      [0n, { x: 0, y: 0 }],
+      [1n, { x: 100, y: 0 }],
+      [5n, { x: 150, y: 0 }],
+      [2n, { x: 200, y: 0 }],
+      [3n, { x: 300, y: 0 }],
+      [4n, { x: 150, y: 100 }],
+    ]);
+    const edges: [bigint, bigint, number][] = [
+      [0n, 1n, 100],
+      [1n, 5n, 50],
+      [5n, 2n, 50],
+      [1n, 4n, 150],
+      [4n, 2n, 150],
+      [2n, 3n, 100],
+    ];
+    const graph = new Map<bigint, Neighbors>();
+    for (const [from, to, distance] of edges) {
+      const forward = [
+        ...(graph.get(from)?.forward ?? []),
+        {
+          nodeUid: to,
+          distance,
+          duration: distance / 10,
+          direction: 'forward' as const,
+          dlcGuard: 0,
+        },
+      ];
+      graph.set(from, { forward, backward: [] });
+    }
+    return { nodeLUT, graph, enabledDlcGuards: new Set([0]) };
+  }
+
+  it('stays within the corridor between its entry and exit nodes', () => {
+    const route = findSpecialTransportRoute(
+      0n,
+      3n,
+      'forward',
+      'shortest',
+      { nodeUids: [1n, 4n, 2n] },
+      createContext(),
+    );
+
+    Preconditions.checkState(route.success);
+    expect(route.stops).toEqual([0n, 1n, 2n, 3n]);
+    const nodeUids = route.legs.flatMap(leg => leg.route.map(n => n.nodeUid));
+    expect(nodeUids).toContain(4n);
+    expect(nodeUids).not.toContain(5n);
+    expect(route.duration).toBe(50);
+  });
+
+  it('fails if the corridor is disconnected', () => {
+    expect(
+      findSpecialTransportRoute(
+        0n,
+        3n,
+        'forward',
+        'shortest',
+        { nodeUids: [1n, 2n] },
+        createContext(),
+      ),
+    ).toEqual({ success: false, stops: [0n, 1n, 2n, 3n], failedLeg: 1 });
+  });
+
+  it('requires a corridor', () => {
+    expect(() =>
+      findSpecialTransportRoute(
+        0n,
+        3n,
+        'forward',
+        'shortest',
+        { nodeUids: [42n] },
+        createContext(),
+      ),
+    ).toThrow('empty corridor');
+  });
+});
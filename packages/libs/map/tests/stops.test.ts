@@ -0,0 +1,189 @@
+import { Preconditions } from '@truckermudgeon/base/precon';
+import { ItemType } from '../constants';
+import type { Context } from '../routing';
+import type { StopCandidate, StopPlanOptions } from '../stops';
+import { joinLegs, planRoute, toStopCandidates } from '../stops';
+import type { Neighbor, Neighbors, Poi, Prefab } from '../types';
+
+describe('planRoute', () => {
+  // Creates a 1000-unit-long one-way road from node 0 to node 10, with stops
+  // on dead-end spurs off of the road. Stop `i` is connected to road node `i`,
+  // and is `offset` units away from it.
+  function createContext(stops: { i: number; offset: number }[]): Context {
+    const nodeLUT = new Map<bigint, { x: number; y: number }>();
+    const graph = new Map<bigint, Neighbors>();
+    for (let i = 0; i <= 10; i++) {
+      const stop = stops.find(s => s.i === i);
+      nodeLUT.set(BigInt(i), { x: i * 100, y: 0 });
+      graph.set(BigInt(i), {
+        forward: [
+          ...(i < 10 ? [aNeighbor(i + 1, 100)] : []),
+          ...(stop ? [aNeighbor(100 + i, stop.offset)] : []),
+        ],
+        backward: [],
+      });
+      if (stop) {
+        nodeLUT.set(BigInt(100 + i), { x: i * 100, y: stop.offset });
+        graph.set(BigInt(100 + i), {
+          forward: [aNeighbor(i, stop.offset)],
+          backward: [],
+        });
+      }
+    }
+    return { nodeLUT, graph, enabledDlcGuards: new Set([0]) };
+  }
+
+  const options: StopPlanOptions = {
+    mode: 'shortest',
+    fuelRange: 10_000,
+    fullTankRange: 10_000,
+    timeUntilBreak: 10_000,
+    breakInterval: 10_000,
+  };
+  const fuelStop = (i: number): StopCandidate => ({
+    nodeUid: BigInt(100 + i),
+    types: ['fuel'],
+  });
+  const restStop = (i: number): StopCandidate => ({
+    nodeUid: BigInt(100 + i),
+    types: ['rest'],
+  });
+
+  it('does not stop when it does not need to', () => {
+    const context = createContext([{ i: 4, offset: 10 }]);
+    const plan = planRoute(0n, 10n, 'forward', [fuelStop(4)], options, context);
+    expect(plan).toMatchObject({ success: true, stops: [] });
+    Preconditions.checkState(plan.success);
+    expect(plan.legs).toHaveLength(1);
+  });
+
+  it('picks fuel stops with the smallest detour', () => {
+    const context = createContext([
+      { i: 2, offset: 50 },
+      { i: 4, offset: 10 },
+      { i: 7, offset: 10 },
+    ]);
+    const plan = planRoute(
+      0n,
+      10n,
+      'forward',
+      [fuelStop(2), fuelStop(4), fuelStop(7)],
+      { ...options, fuelRange: 450, fullTankRange: 1000 },
+      context,
+    );
+
+    Preconditions.checkState(plan.success);
+    expect(plan.stops).toEqual([{ nodeUid: 104n, types: ['fuel'] }]);
+    expect(plan.legs).toHaveLength(2);
+    expect(plan.legs[0].route.at(-1)?.nodeUid).toBe(104n);
+    expect(plan.legs[1].route.at(-1)?.nodeUid).toBe(10n);
+
+    const { route, stopIndices } = joinLegs(plan);
+    expect(route.route.map(n => Number(n.nodeUid))).toEqual([
+      0, 1, 2, 3, 4, 104, 4, 5, 6, 7, 8, 9, 10,
+    ]);
+    expect(stopIndices).toEqual([5]);
+  });
+
+  it('stops as many times as needed', () => {
+    const context = createContext([
+      { i: 3, offset: 10 },
+      { i: 6, offset: 10 },
+      { i: 9, offset: 10 },
+    ]);
+    const plan = planRoute(
+      0n,
+      10n,
+      'forward',
+      [restStop(3), restStop(6), restStop(9)],
+      // road edges take 10 seconds to drive.
+      { ...options, timeUntilBreak: 35, breakInterval: 35 },
+      context,
+    );
+
+    Preconditions.checkState(plan.success);
+    expect(plan.stops.map(s => s.nodeUid)).toEqual([103n, 106n, 109n]);
+  });
+
+  it('fails when stops are too far apart', () => {
+    const context = createContext([{ i: 5, offset: 10 }]);
+    const plan = planRoute(
+      0n,
+      10n,
+      'forward',
+      [fuelStop(5)],
+      { ...options, fuelRange: 300, fullTankRange: 1000 },
+      context,
+    );
+    expect(plan).toEqual({ success: false, reason: 'noReachableStops' });
+  });
+});
+
+describe('toStopCandidates', () => {
+  it('creates candidates for gas stations and parking areas', () => {
+    const prefab: Prefab = {
+      uid: 1n,
+      type: ItemType.Prefab,
+      dlcGuard: 0,
+      token: 'gas',
+      nodeUids: [10n, 11n],
+      originNodeIndex: 0,
+      x: 0,
+      y: 0,
+      sectorX: 0,
+      sectorY: 0,
+    };
+    const base = { x: 0, y: 0, sectorX: 0, sectorY: 0 };
+    const pois: Poi[] = [
+      {
+        ...base,
+        type: 'facility',
+        icon: 'gas_ico',
+        prefabUid: 1n,
+        prefabPath: '',
+      },
+      {
+        ...base,
+        type: 'facility',
+        icon: 'parking_ico',
+        fromItemType: 'prefab',
+        itemNodeUids: [10n, 11n],
+        dlcGuard: 0,
+      },
+      {
+        ...base,
+        type: 'facility',
+        icon: 'parking_ico',
+        fromItemType: 'trigger',
+        itemNodeUids: [20n],
+        dlcGuard: 0,
+      },
+      {
+        ...base,
+        type: 'facility',
+        icon: 'service_ico',
+        prefabUid: 1n,
+        prefabPath: '',
+      },
+    ];
+    const empty: Neighbors = { forward: [], backward: [] };
+    const graph = new Map([
+      [11n, empty],
+      [30n, empty],
+    ]);
+
+    expect(
+      toStopCandidates(pois, new Map([[prefab.uid, prefab]]), graph),
+    ).toEqual([{ nodeUid: 11n, types: ['fuel', 'rest'] }]);
+  });
+});
+
+function aNeighbor(uid: number, distance: number): Neighbor {
+  return {
+    nodeUid: BigInt(uid),
+    distance,
+    duration: distance / 10,
+    direction: 'forward',
+    dlcGuard: 0,
+  };
+}
@@ -26,16 +26,21 @@ export type Node = Readonly<{
   backwardCountryId: number;
 }>;
 
-export type City = Readonly<{
-  token: string;
-  name: string;
-  nameLocalized: string | undefined;
-  countryToken: string;
-  population: number;
-  x: number;
-  y: number;
-  areas: readonly CityArea[];
-}>;
+export type City = Sourced &
+  Readonly<{
+    token: string;
+    name: string;
+    nameLocalized: string | undefined;
+    names?: LocalizedNames;
+    countryToken: string;
+    population: number;
+    x: number;
+    y: number;
+    areas: readonly CityArea[];
+  }>;
+
+/** Localized names, keyed by locale (e.g., `de_de`). */
+export type LocalizedNames = Readonly<Record<string, string>>;
 
 // Note: game .sii files contain interesting things, like
 // timezone data, fuel price, and mass limits
@@ -43,6 +48,7 @@ export type Country = Readonly<{
   token: string;
   name: string;
   nameLocalized: string | undefined;
+  names?: LocalizedNames;
   id: number;
   x: number;
   y: number;
@@ -71,11 +77,52 @@ export type LaneSpeedClass =
 export type Company = Readonly<{
   token: string;
   name: string;
+  names?: LocalizedNames;
   cityTokens: string[];
   cargoInTokens: string[];
   cargoOutTokens: string[];
 }>;
 
+export type Cargo = Readonly<{
+  token: string;
+  name: string;
+  nameLocalized: string | undefined;
+  names?: LocalizedNames;
+  /** Mass of a single unit of cargo, in kg. */
+  mass: number;
+  /** Reward for hauling a single unit of cargo one km. */
+  value: number;
+  /** ADR (dangerous goods) class, if the cargo is hazardous. */
+  adrClass?: number;
+  /** Fragility, from 0 (not fragile) to 1 (very fragile). */
+  fragility: number;
+}>;
+
+/**
+ * The cargos a company can haul, and the companies they can be hauled to.
+ */
+export interface CargoFlow {
+  /** The source company's token. */
+  company: string;
+  /** The source company's city token. */
+  city: string;
+  /** The source company's node uid. */
+  nodeUid: bigint;
+  /**
+   * Destination companies reachable from the source company, sorted by
+   * ascending distance.
+   */
+  destinations: {
+    company: string;
+    city: string;
+    nodeUid: bigint;
+    /** Route distance from the source company, in meters. */
+    distance: number;
+  }[];
+  /** Cargo tokens, mapped to indices into `destinations`. */
+  cargos: Record<string, number[]>;
+}
+
 export type FerryConnection = Readonly<{
   token: string;
   name: string;
@@ -98,6 +145,7 @@ export type Ferry = Readonly<{
   train: boolean;
   name: string;
   nameLocalized: string | undefined;
+  names?: LocalizedNames;
   nodeUid: bigint;
   x: number;
   y: number;
@@ -121,6 +169,11 @@ type BasePoi = Readonly<{
   y: number;
   sectorX: number;
   sectorY: number;
+  /**
+   * Name of the icon's sprite. Icons from mods are namespaced as
+   * `<name>@<mod>`, so that same-named icons from different archives coexist;
+   * use `toBaseIconName` to match icons by name.
+   */
   icon: string;
 }>;
 
@@ -268,6 +321,54 @@ export interface Route {
   toCity: string;
 }
 
+/**
+ * A special transport (oversize / heavy haul) route: the corridor formed by
+ * the trajectory items whose checkpoints belong to a `Route`.
+ */
+export interface SpecialTransportRoute {
+  /** The token of the route's `Route` def. */
+  token: string;
+  fromCity: string;
+  toCity: string;
+  /** Uids of the graph nodes within the route's corridor. */
+  nodeUids: bigint[];
+  /** The route's trajectories, as lists of [x, y] points. */
+  lines: [number, number][][];
+}
+
+/** Provenance of map data that mods can add or replace. */
+export type Sourced = Readonly<{
+  /**
+   * Id of the mod that last defined this: its Steam Workshop item id, or its
+   * package name. Undefined for base game data.
+   */
+  sourceMod?: string;
+}>;
+
+/** A mod that contributed to parser output, with its `manifest.sii` data. */
+export type Mod = Readonly<{
+  /**
+   * Uniquely identifies the mod: its Steam Workshop item id, or its package
+   * name (prefixed with its archive's parent dir name, e.g., `my_mods/map`,
+   * if package names clash). Matches `sourceMod` values.
+   */
+  id: string;
+  /** The filenames of the mod's archives, in load order. */
+  archives: readonly string[];
+  /**
+   * The mod's package name, as listed in a profile's active mods: the
+   * archive's filename without its extension, or
+   * `mod_workshop_package.<hex id>` for Steam Workshop mods.
+   */
+  packageName: string;
+  displayName?: string;
+  version?: string;
+  author?: string;
+  categories: readonly string[];
+  /** Game versions the mod supports, e.g., `1.50.*`. */
+  compatibleVersions: readonly string[];
+}>;
+
 export type BaseItem = Readonly<{
   uid: bigint;
   type: ItemType;
@@ -285,6 +386,7 @@ export type Railing = Readonly<{
 }>;
 
 export type Road = BaseItem &
+  Sourced &
   Readonly<{
     type: ItemType.Road;
     dlcGuard: number;
@@ -298,6 +400,7 @@ export type Road = BaseItem &
   }>;
 
 export type Prefab = BaseItem &
+  Sourced &
   Readonly<{
     type: ItemType.Prefab;
     dlcGuard: number;
@@ -372,6 +475,7 @@ export type FerryItem = BaseItem &
   }>;
 
 export type CompanyItem = BaseItem &
+  Sourced &
   Readonly<{
     type: ItemType.Company;
     token: string;
@@ -567,11 +671,17 @@ export interface MapData extends DefData {
   triggers: Trigger[];
   cutscenes: Cutscene[];
   cities: City[];
+  /**
+   * The mods that contributed items, defs, locale strings, or icons, in load
+   * order.
+   */
+  mods: Mod[];
 }
 
 export interface DefData {
   countries: Country[];
   companyDefs: Company[];
+  cargos: Cargo[];
   roadLooks: WithToken<RoadLook>[];
   prefabDescriptions: WithToken<WithPath<PrefabDescription>>[];
   modelDescriptions: WithToken<ModelDescription>[];
@@ -594,6 +704,7 @@ export type RoadFeature = GeoJSON.Feature<
   GeoJSON.LineString,
   RoadLookProperties & {
     dlcGuard: number;
+    sourceMod?: string;
     // an undefined startNodeUid is expected from roads converted from prefabs;
     // signifies that a prefab road isn't connected to a prefab entry/exit node.
     startNodeUid: bigint | undefined;
@@ -631,6 +742,15 @@ export type ContourFeature = GeoJSON.Feature<
   { elevation: number }
 >;
 
+/**
+ * The area reachable from a starting point within `limit` meters (for the
+ * 'distance' metric) or seconds (for the 'duration' metric).
+ */
+export type IsochroneFeature = GeoJSON.Feature<
+  GeoJSON.MultiPolygon,
+  { metric: 'distance' | 'duration'; limit: number }
+>;
+
 export type AchievementFeature = GeoJSON.Feature<
   GeoJSON.Polygon | GeoJSON.Point,
   { name: string; dlcGuard: number }
@@ -681,6 +801,7 @@ export interface FerryProperties {
 export interface PrefabProperties {
   type: 'prefab';
   dlcGuard: number;
+  sourceMod?: string;
   zIndex: number;
   color: MapAreaColor;
 }
@@ -702,6 +823,7 @@ export interface CityProperties {
   name: string;
   scaleRank: number;
   capital: 0 | 1 | 2;
+  sourceMod?: string;
 }
 
 export interface CountryProperties {
@@ -758,11 +880,25 @@ export interface Neighbor {
   readonly nodeUid: bigint;
   /** The distance between the origin node and this Neighbor's node. */
   readonly distance: number;
+  /**
+   * The expected time, in seconds, it takes a truck to travel between the
+   * origin node and this Neighbor's node. Based on speed limits (or ferry
+   * schedules, for ferry routes).
+   */
+  readonly duration?: number;
   /** True if this Neighbor's edge represents a one-lane road. */
   readonly isOneLaneRoad?: true;
   /** True if this Neighbor's edge represents a ferry route. */
   // TODO combine this with isOneLaneRoad into an enum
   readonly isFerry?: true;
+  /** True if this Neighbor's edge represents a train route (e.g., a tunnel). */
+  readonly isTrain?: true;
+  /** True if this Neighbor's edge goes through a toll gate. */
+  readonly isToll?: true;
+  /** True if this Neighbor's edge crosses a country border. */
+  readonly crossesBorder?: true;
+  /** True if this Neighbor's edge represents a divided road or freeway. */
+  readonly isHighway?: true;
   /**
    * The direction one must travel in _after_ reaching this Neighbor's node.
    * Not the direction of this Neighbor's edge.
@@ -770,6 +906,16 @@ export interface Neighbor {
   readonly direction: 'forward' | 'backward';
   /** The dlcGuard associated with this Neighbor's node. */
   readonly dlcGuard: number;
+  /**
+   * For edges through prefabs: indices into the origin prefab node's
+   * `inputLanes` of the lanes that lead to this Neighbor's node.
+   */
+  readonly lanes?: readonly number[];
+  /**
+   * For edges through prefabs: indices into the prefab description's
+   * `navCurves` of the curves along this Neighbor's edge.
+   */
+  readonly navCurves?: readonly number[];
 }
 
 /**
@@ -785,26 +931,8 @@ export type Neighbors = Readonly<{
 // Routing Demo
 // Hacky, minimal versions of types needed for the fully-clientside "routes" demo page.
 
-export interface DemoNeighbor {
-  /** base36 node uid */
-  n: string;
-  /** distance */
-  l: number;
-  /** isOneLaneRoad */
-  o?: true;
-  /** direction */
-  d: 'f' | 'b';
-  /** dlcGuard */
-  g: number;
-}
-
-export interface DemoNeighbors {
-  f?: DemoNeighbor[];
-  b?: DemoNeighbor[];
-}
-
 export interface DemoCompany {
-  /** base36 node uid */
+  /** hex node uid */
   n: string;
   /** token */
   t: string;
@@ -819,11 +947,67 @@ export interface DemoCompanyDef {
   d: string[];
 }
 
+export interface DemoStop {
+  /** hex node uid */
+  n: string;
+  /** stop types: 'f' for fuel, 'r' for rest */
+  s: ('f' | 'r')[];
+}
+
+export interface DemoSpecialTransportRoute {
+  /** token */
+  t: string;
+  /** fromCity token */
+  f: string;
+  /** toCity token */
+  d: string;
+  /** hex node uids */
+  n: string[];
+  /** trajectories, as lists of [x, y] points */
+  l: [number, number][][];
+}
+
+export interface DemoCargo {
+  /** token */
+  t: string;
+  /** name */
+  n: string;
+  /** mass per unit, in kg */
+  m: number;
+  /** reward per unit per km */
+  v: number;
+  /** ADR class, if hazardous */
+  a?: number;
+  /** fragility, from 0 to 1 */
+  f: number;
+}
+
+export interface DemoCargoFlow {
+  /** hex node uid of the source company */
+  n: string;
+  /** destinations, as [hex node uid, distance in meters] tuples */
+  d: [string, number][];
+  /** cargo tokens, mapped to indices into `d` */
+  c: Record<string, number[]>;
+}
+
+/**
+ * Data for the "routes" demo page's cargo explorer.
+ */
+export interface DemoCargoFlowsData {
+  demoCargos: DemoCargo[];
+  demoCargoFlows: DemoCargoFlow[];
+}
+
+/**
+ * Data for the "routes" demo page that isn't part of the binary routing graph
+ * file it also loads.
+ */
 export interface DemoRoutesData {
-  demoGraph: [string, DemoNeighbors][];
-  demoNodes: [string, [number, number]][];
   demoCompanies: DemoCompany[];
   demoCompanyDefs: DemoCompanyDef[];
+  demoStops: DemoStop[];
+  demoSpecialTransportRoutes: DemoSpecialTransportRoute[];
 }
 
 // Other types